@@ -12,22 +12,497 @@
  * allowing a single server to serve multiple tenants with different API keys.
  */
 
+import { type ServerContext, resolvePageSize } from './types/context.js';
 import type { TenantCredentials } from './types/env.js';
-import { ApiError, AuthenticationError, RateLimitError } from './utils/errors.js';
-import { formatError } from './utils/errors.js';
+import {
+  ApiError,
+  AuthenticationError,
+  type FailedRecord,
+  IngestionError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from './utils/errors.js';
+import { formatError, formatErrorForLogging } from './utils/errors.js';
+import { chunkRecords, gzipText, mapWithConcurrency } from './utils/batching.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  RateLimitGovernor,
+  type RateLimitBudget,
+  type RetryOptions,
+  type RetryStats,
+  createRetryStats,
+  parseRetryAfter,
+  withRetry,
+} from './utils/retry.js';
+import {
+  CACHE_TTL_LIVE,
+  CACHE_TTL_METADATA,
+  type CacheOptions,
+  ResponseCache,
+  ttlForDateRange,
+} from './utils/cache.js';
+import {
+  type CompareTo,
+  type DateRange,
+  type SeriesAggregate,
+  type SeriesDelta,
+  type SeriesValues,
+  compareSeries,
+  comparisonRange,
+} from './utils/comparison.js';
+import { toCsv } from './utils/csv.js';
+import {
+  FUNNEL_ANALYSIS_JQL_SCRIPT,
+  FUNNEL_JQL_SCRIPT,
+  type FunnelAnalysisJqlResult,
+  type FunnelJqlParams,
+  type FunnelJqlRow,
+  type FunnelOrder,
+  type FunnelStepSpec,
+} from './utils/funnels.js';
+import { closestMatches, didYouMean } from './utils/fuzzy.js';
+import { readNdjson } from './utils/streaming.js';
+import { type WhereInput, compileWhere, parseWhere } from './utils/where.js';
+import { validateEvents } from './utils/validation.js';
+import { type InsertIdOptions, assignInsertIds } from './utils/idempotency.js';
+import type { Logger } from './utils/logger.js';
 
 // =============================================================================
 // Configuration - Mixpanel API Base URLs
 // =============================================================================
 
-const DATA_API_URL = 'https://data.mixpanel.com/api/2.0';
-const MIXPANEL_API_URL = 'https://mixpanel.com/api/2.0';
-const EU_DATA_API_URL = 'https://data-eu.mixpanel.com/api/2.0';
-const EU_MIXPANEL_API_URL = 'https://eu.mixpanel.com/api/2.0';
-const INGESTION_API_URL = 'https://api.mixpanel.com';
-const EU_INGESTION_API_URL = 'https://api-eu.mixpanel.com';
-const APP_API_URL = 'https://mixpanel.com/api/app';
-const EU_APP_API_URL = 'https://eu.mixpanel.com/api/app';
+export type ApiKind = 'query' | 'export' | 'ingestion' | 'app';
+
+const US_API_URLS: Record<ApiKind, string> = {
+  query: 'https://mixpanel.com/api/2.0',
+  export: 'https://data.mixpanel.com/api/2.0',
+  ingestion: 'https://api.mixpanel.com',
+  app: 'https://mixpanel.com/api/app',
+};
+
+const EU_API_URLS: Record<ApiKind, string> = {
+  query: 'https://eu.mixpanel.com/api/2.0',
+  export: 'https://data-eu.mixpanel.com/api/2.0',
+  ingestion: 'https://api-eu.mixpanel.com',
+  app: 'https://eu.mixpanel.com/api/app',
+};
+
+/**
+ * Base URLs when every API is served from one host (MIXPANEL_BASE_URL), such
+ * as a local mock or a proxy. Each API keeps a distinct path prefix.
+ */
+export function getOverrideApiUrls(baseUrl: string): Record<ApiKind, string> {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    query: `${base}/api/2.0`,
+    export: `${base}/data/api/2.0`,
+    ingestion: `${base}/ingestion`,
+    app: `${base}/api/app`,
+  };
+}
+
+/**
+ * Identify the API a request URL targets and its path below that API's base
+ * URL. Recognizes the real US and EU hosts and the MIXPANEL_BASE_URL layout
+ * (rooted at `baseUrl`, or at the URL's own origin when omitted).
+ */
+export function describeApiUrl(
+  url: string,
+  baseUrl?: string
+): { kind: ApiKind; path: string } | undefined {
+  const { origin, pathname } = new URL(url);
+  const target = `${origin}${pathname}`;
+
+  for (const urls of [US_API_URLS, EU_API_URLS, getOverrideApiUrls(baseUrl ?? origin)]) {
+    // Longest prefix first, so /data/api/2.0 wins over /api/2.0
+    const bases = (Object.entries(urls) as Array<[ApiKind, string]>).sort(
+      ([, a], [, b]) => b.length - a.length
+    );
+    for (const [kind, base] of bases) {
+      if (target === base || target.startsWith(`${base}/`)) {
+        return { kind, path: target.slice(base.length) || '/' };
+      }
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Configuration - Import Batching
+// =============================================================================
+
+/** Mixpanel /import accepts at most 2000 events per request */
+const IMPORT_MAX_EVENTS = 2000;
+
+/** Mixpanel /import accepts at most 10MB of uncompressed JSON per request */
+const IMPORT_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Number of import chunks sent in parallel by default */
+const IMPORT_CONCURRENCY = 4;
+
+// =============================================================================
+// Configuration - Ad-hoc Funnels
+// =============================================================================
+
+/** Most steps in an ad-hoc funnel */
+const FUNNEL_MAX_STEPS = 20;
+
+/** Default conversion window, matching Mixpanel's funnel default */
+const FUNNEL_DEFAULT_WINDOW_DAYS = 30;
+
+const FUNNEL_WINDOW_UNIT_SECONDS = { minute: 60, hour: 3600, day: 86400, week: 604800 };
+
+/** Properties Mixpanel filters accept that are not listed as event properties */
+const WHERE_BUILTIN_PROPERTIES = ['time', 'distinct_id', '$insert_id', 'mp_processing_time_ms'];
+
+/** Properties fetched per event when checking where expressions and empty results */
+const WHERE_PROPERTY_LOOKUP_LIMIT = 1000;
+
+/** Largest cohort a funnel analysis can be restricted to (its IDs go into the JQL params) */
+const FUNNEL_COHORT_MAX_MEMBERS = 5000;
+
+/** Properties compared between dropped and continuing users by default */
+const FUNNEL_ANALYSIS_PROPERTIES = ['$browser', '$os', 'mp_country_code', 'utm_source'];
+
+/** Time-to-convert histogram bucket upper bounds: 1m, 5m, 15m, 30m, 1h, 3h, 6h, 12h, 1d, 2d, 3d, 7d, 14d, 30d */
+const FUNNEL_TIME_BUCKETS = [
+  60, 300, 900, 1800, 3600, 10800, 21600, 43200, 86400, 172800, 259200, 604800, 1209600, 2592000,
+];
+
+/** Drop-off drivers reported per step */
+const FUNNEL_MAX_DRIVERS = 5;
+
+/** A property value needs this many users (and 1% of the step) to be a driver */
+const FUNNEL_DRIVER_MIN_USERS = 5;
+
+// =============================================================================
+// Configuration - Cohort Membership
+// =============================================================================
+
+/** Members fetched by default when paging through a whole cohort */
+const COHORT_DEFAULT_MAX_MEMBERS = 1000;
+
+/**
+ * Most points in a cohort count history. Each point is a sequential /engage
+ * query against the 60 per hour Query API budget.
+ */
+const COHORT_HISTORY_MAX_POINTS = 8;
+
+// =============================================================================
+// Configuration - Rate Limit Budgets
+// =============================================================================
+
+/**
+ * Client-side budgets mirroring Mixpanel's documented limits.
+ *
+ * Governors are shared per project within a Worker isolate, so concurrent
+ * tool calls for the same tenant draw from the same budget.
+ */
+const RATE_LIMIT_BUDGETS: Record<ApiKind, RateLimitBudget> = {
+  // Query API: 60 queries per hour, max 5 concurrent
+  query: { maxConcurrent: 5, maxRequests: 60, windowMs: 60 * 60 * 1000, maxWaitMs: 10000 },
+  // Export API: 60 queries per hour, max 100 concurrent
+  export: { maxConcurrent: 100, maxRequests: 60, windowMs: 60 * 60 * 1000, maxWaitMs: 10000 },
+  // Ingestion API: 2GB of uncompressed JSON per minute
+  ingestion: { maxBytes: 2 * 1024 ** 3, windowMs: 60 * 1000, maxWaitMs: 30000 },
+  // App (management) API: no published volume limit, keep concurrency modest
+  app: { maxConcurrent: 5, windowMs: 60 * 1000, maxWaitMs: 10000 },
+};
+
+const governors = new Map<string, RateLimitGovernor>();
+
+function getGovernor(kind: ApiKind, projectId: string): RateLimitGovernor {
+  const key = `${kind}:${projectId}`;
+  let governor = governors.get(key);
+  if (!governor) {
+    governor = new RateLimitGovernor(RATE_LIMIT_BUDGETS[kind]);
+    governors.set(key, governor);
+  }
+  return governor;
+}
+
+// =============================================================================
+// Ingestion Response Parsing
+// =============================================================================
+
+interface IngestionResponseBody {
+  status?: number | string;
+  error?: string | null;
+  num_records_imported?: number;
+  failed_records?: Array<{ index: number; $insert_id?: string; field?: string; message: string }>;
+}
+
+/**
+ * Parse an Ingestion API body. Verbose endpoints return JSON; the legacy
+ * non-verbose form is a bare "1" or "0".
+ */
+function parseIngestionBody(text: string): IngestionResponseBody {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (typeof parsed === 'number') return { status: parsed };
+    if (parsed && typeof parsed === 'object') return parsed as IngestionResponseBody;
+  } catch {
+    // Fall through to treat the raw text as the error message
+  }
+  return { error: text };
+}
+
+/**
+ * Whether an ingestion record is an event with an $insert_id, so sending it
+ * twice stores it once
+ */
+function hasInsertId(record: unknown): boolean {
+  const properties = (record as { properties?: Record<string, unknown> } | null)?.properties;
+  return typeof properties?.$insert_id === 'string';
+}
+
+// =============================================================================
+// Export Cursors
+// =============================================================================
+
+/**
+ * Position in an export stream: the last returned event's timestamp, the
+ * $insert_ids of the events already returned at that timestamp and how many
+ * returned there had none. Encoded as base64url JSON so agents can pass it
+ * back verbatim.
+ */
+interface ExportCursor {
+  t: number;
+  ids?: string[];
+  n?: number;
+}
+
+function encodeExportCursor(cursor: ExportCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Cursor after a page: the events returned at its last timestamp, plus those
+ * the previous cursor had already covered there
+ */
+function nextExportCursor(events: ExportedEvent[], previous?: ExportCursor): ExportCursor {
+  const t = events[events.length - 1].time;
+  const ids = previous?.t === t ? [...(previous.ids ?? [])] : [];
+  let n = previous?.t === t ? (previous.n ?? 0) : 0;
+  for (const event of events) {
+    if (event.time !== t) continue;
+    const insertId = event.properties.$insert_id;
+    if (typeof insertId === 'string') ids.push(insertId);
+    else n++;
+  }
+  return { t, ...(ids.length > 0 && { ids }), ...(n > 0 && { n }) };
+}
+
+function decodeExportCursor(value: string): ExportCursor {
+  try {
+    const parsed = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/'))) as ExportCursor;
+    if (typeof parsed.t !== 'number') throw new Error('missing timestamp');
+    return parsed;
+  } catch {
+    throw new ValidationError('Invalid export cursor', { cursor: ['Cursor is malformed'] });
+  }
+}
+
+// =============================================================================
+// Cohort History Dates
+// =============================================================================
+
+/**
+ * Dates sampled for a cohort count history: `toDate` and every `unit`
+ * before it, back to `fromDate`, in ascending order
+ */
+function cohortHistoryDates(
+  fromDate: string,
+  toDate: string,
+  unit: 'day' | 'week' | 'month'
+): string[] {
+  const start = Date.parse(`${fromDate}T00:00:00Z`);
+  const end = Date.parse(`${toDate}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end) || start > end) {
+    throw new ValidationError('Invalid date range', {
+      fromDate: ['Dates must be YYYY-MM-DD with fromDate on or before toDate'],
+    });
+  }
+
+  const dates: string[] = [];
+  const cursor = new Date(end);
+  while (cursor.getTime() >= start) {
+    if (dates.length === COHORT_HISTORY_MAX_POINTS) {
+      throw new ValidationError('Date range has too many points', {
+        unit: [`At most ${COHORT_HISTORY_MAX_POINTS} points; use a shorter range or a larger unit`],
+      });
+    }
+    dates.push(cursor.toISOString().slice(0, 10));
+
+    if (unit === 'month') cursor.setUTCMonth(cursor.getUTCMonth() - 1);
+    else cursor.setUTCDate(cursor.getUTCDate() - (unit === 'week' ? 7 : 1));
+  }
+  return dates.reverse();
+}
+
+// =============================================================================
+// Ad-hoc Funnel Results
+// =============================================================================
+
+/**
+ * Funnel steps from per-step user counts and summed step-to-step times
+ */
+function toFunnelSteps(labels: string[], counts: number[], timeSums: number[]): FunnelStep[] {
+  return labels.map((event, i) => ({
+    count: counts[i],
+    step_conv_ratio: i === 0 ? 1 : counts[i - 1] ? counts[i] / counts[i - 1] : 0,
+    overall_conv_ratio: counts[0] ? counts[i] / counts[0] : 0,
+    avg_time: i === 0 || counts[i] === 0 ? null : timeSums[i] / counts[i],
+    event,
+  }));
+}
+
+/**
+ * Sum FUNNEL_JQL_SCRIPT rows by one of their keys (0: entry date, 1: breakdown)
+ */
+function sumFunnelRows(
+  rows: FunnelJqlRow[],
+  keyIndex: 0 | 1,
+  stepCount: number
+): Map<string, { counts: number[]; timeSums: number[] }> {
+  const totals = new Map<string, { counts: number[]; timeSums: number[] }>();
+  for (const row of rows) {
+    const key = row.key[keyIndex];
+    const total = totals.get(key) ?? {
+      counts: new Array<number>(stepCount).fill(0),
+      timeSums: new Array<number>(stepCount).fill(0),
+    };
+    for (let i = 0; i < stepCount; i++) {
+      total.counts[i] += row.value.counts[i] ?? 0;
+      total.timeSums[i] += row.value.timeSums[i] ?? 0;
+    }
+    totals.set(key, total);
+  }
+  return totals;
+}
+
+/**
+ * Summarize a FUNNEL_TIME_BUCKETS histogram. Percentiles are interpolated
+ * within buckets; in the open-ended last bucket they report its lower bound.
+ */
+function toTimeDistribution(histogram: number[]): TimeDistribution {
+  const users = histogram.reduce((sum, count) => sum + count, 0);
+
+  const percentile = (q: number): number | null => {
+    if (users === 0) return null;
+    const target = q * users;
+    let seen = 0;
+    for (let i = 0; i < histogram.length; i++) {
+      if (histogram[i] > 0 && seen + histogram[i] >= target) {
+        const lower = i === 0 ? 0 : FUNNEL_TIME_BUCKETS[i - 1];
+        const upper = FUNNEL_TIME_BUCKETS[i];
+        if (upper === undefined) return lower;
+        return Math.round(lower + ((target - seen) / histogram[i]) * (upper - lower));
+      }
+      seen += histogram[i];
+    }
+    return null;
+  };
+
+  return {
+    users,
+    medianSeconds: percentile(0.5),
+    p90Seconds: percentile(0.9),
+    buckets: histogram.map((count, i) => ({
+      upToSeconds: FUNNEL_TIME_BUCKETS[i] ?? null,
+      users: count,
+    })),
+  };
+}
+
+/**
+ * Property values whose drop rate at a step differs most from the step's
+ * overall drop rate, weighted by how many users they cover
+ */
+function findDropOffDrivers(
+  values: Record<string, Record<string, [number, number]>>,
+  reached: number,
+  dropRate: number
+): DropOffDriver[] {
+  const minUsers = Math.max(FUNNEL_DRIVER_MIN_USERS, reached * 0.01);
+  const drivers: DropOffDriver[] = [];
+
+  for (const [property, counts] of Object.entries(values)) {
+    for (const [value, [continued, dropped]] of Object.entries(counts)) {
+      const users = continued + dropped;
+      if (users < minUsers) continue;
+      const valueDropRate = dropped / users;
+      drivers.push({ property, value, users, dropRate: valueDropRate, lift: valueDropRate - dropRate });
+    }
+  }
+
+  return drivers
+    .sort((a, b) => Math.abs(b.lift) * b.users - Math.abs(a.lift) * a.users)
+    .slice(0, FUNNEL_MAX_DRIVERS);
+}
+
+/**
+ * A /events/properties/top response. Mixpanel answers { key: { count } };
+ * fixtures recorded against older fakes hold a bare list of keys.
+ */
+type TopPropertiesResponse = Record<string, { count?: number } | number> | string[];
+
+/**
+ * Entries of a /events/properties/top response, in Mixpanel's order
+ */
+function topPropertyCounts(data: TopPropertiesResponse): Array<{ value: string; count: number }> {
+  if (Array.isArray(data)) return data.map((value) => ({ value, count: 0 }));
+  return Object.entries(data).map(([value, entry]) => ({
+    value,
+    count: typeof entry === 'number' ? entry : (entry?.count ?? 0),
+  }));
+}
+
+/**
+ * A /segmentation/sum or /segmentation/average response: one value per
+ * bucket date
+ */
+interface AggregateSegmentationResponse {
+  status?: string;
+  computed_at?: string;
+  results: Record<string, number>;
+}
+
+/**
+ * Present an aggregate response as a segmentation result with one series,
+ * named after the aggregated expression
+ */
+function aggregateSeries(response: AggregateSegmentationResponse, on: string): SegmentationResult {
+  const results = response.results ?? {};
+  return {
+    legend_size: 1,
+    data: { series: Object.keys(results).sort(), values: { [on]: results } },
+  };
+}
+
+/**
+ * Whether a time series result has no non-zero value
+ */
+function isEmptySeries(values: Record<string, Record<string, number>> = {}): boolean {
+  return Object.values(values).every((series) =>
+    Object.values(series ?? {}).every((value) => !value)
+  );
+}
+
+/**
+ * Event properties referenced by a segmentation `on` expression
+ * (properties["plan"]); none for expressions that do not parse
+ */
+function segmentProperties(on: string | undefined): string[] {
+  if (!on) return [];
+  try {
+    return parseWhere(on).properties;
+  } catch {
+    return [];
+  }
+}
 
 // =============================================================================
 // Type Definitions
@@ -45,20 +520,87 @@ export interface ExportedEvent {
   distinctId: string;
 }
 
+export interface ExportPage {
+  events: ExportedEvent[];
+  /** Pass back as `cursor` to continue after the last returned event */
+  cursor?: string;
+  hasMore: boolean;
+}
+
+/** Restricts a query to the members of a saved cohort */
+export interface CohortFilter {
+  /** Saved cohort ID (from listCohorts) */
+  cohortId?: number;
+}
+
+export interface PeriodComparisonOptions {
+  /** Also query an earlier period and report deltas against it */
+  compareTo?: CompareTo;
+}
+
+export interface PeriodComparison {
+  range: DateRange;
+  compareRange: DateRange;
+  /** Per series: period totals, deltas, and buckets aligned by offset */
+  series: Record<string, SeriesDelta>;
+}
+
+/** A time-series result, with a comparison when compareTo was given */
+export type WithComparison<T> = T & { comparison?: PeriodComparison };
+
+export interface FunnelStep {
+  count: number;
+  step_conv_ratio: number;
+  overall_conv_ratio: number;
+  avg_time: number | null;
+  event: string;
+  /** Filter expression of a saved funnel step that has filters */
+  selector?: string | null;
+}
+
 export interface FunnelData {
   meta: { dates: string[] };
-  data: Record<
-    string,
-    {
-      steps: Array<{
-        count: number;
-        step_conv_ratio: number;
-        overall_conv_ratio: number;
-        avg_time: number | null;
-        event: string;
-      }>;
-    }
-  >;
+  data: Record<string, { steps: FunnelStep[] }>;
+}
+
+export interface TimeDistribution {
+  users: number;
+  /** Estimated from the histogram */
+  medianSeconds: number | null;
+  /** Estimated from the histogram */
+  p90Seconds: number | null;
+  /** Users per time bucket; the last bucket is open-ended (upToSeconds: null) */
+  buckets: Array<{ upToSeconds: number | null; users: number }>;
+}
+
+export interface DropOffDriver {
+  property: string;
+  value: string;
+  /** Users at the step with this property value */
+  users: number;
+  dropRate: number;
+  /** dropRate minus the step's overall drop rate */
+  lift: number;
+}
+
+export interface FunnelAnalysis {
+  /** Time between consecutive steps, for users who made the transition */
+  transitions: Array<{ from: string; to: string } & TimeDistribution>;
+  /** Time from the first step to the last, for users who converted */
+  timeToConvert: TimeDistribution;
+  /** Users who stopped at each step, and the property values most associated with stopping */
+  dropOff: Array<{
+    step: string;
+    reached: number;
+    dropped: number;
+    dropRate: number;
+    drivers: DropOffDriver[];
+  }>;
+}
+
+/** An ad-hoc funnel: FunnelData by entry date, plus totals per breakdown value */
+export interface AdHocFunnelData extends FunnelData {
+  breakdown?: Record<string, { steps: FunnelStep[] }>;
 }
 
 export interface FunnelListItem {
@@ -98,6 +640,34 @@ export interface Cohort {
   project_id?: number;
 }
 
+export interface CohortMembers {
+  cohortId: number;
+  /** Cohort size reported by Mixpanel */
+  total: number;
+  members: UserProfile[];
+  /** The cohort has more members than were fetched */
+  truncated: boolean;
+}
+
+export interface CohortCountPoint {
+  date: string;
+  count: number;
+}
+
+export interface CohortOverlap {
+  cohortA: { id: number; size: number };
+  cohortB: { id: number; size: number };
+  overlap: number;
+  onlyA: number;
+  onlyB: number;
+  /** Overlap divided by the size of the union */
+  jaccard: number;
+  /** Distinct IDs found in both cohorts */
+  sample: string[];
+  /** A cohort had more members than were fetched; counts cover fetched members only */
+  truncated: boolean;
+}
+
 export interface Annotation {
   id: number;
   date: string;
@@ -115,6 +685,11 @@ export interface SegmentationResult {
   };
 }
 
+/** Event counts by event name, then by bucket date */
+export interface EventSeries {
+  series: Record<string, Record<string, number>>;
+}
+
 export interface SchemaEntity {
   entityType: 'event' | 'profile' | 'group' | 'lookup_table';
   name: string;
@@ -126,6 +701,31 @@ export interface GDPRRequest {
   results?: Record<string, unknown>;
 }
 
+export interface IngestionResult {
+  /** 1 when every record was accepted, 0 otherwise */
+  status: number;
+  error?: string;
+  num_records_imported?: number;
+  failed_records?: FailedRecord[];
+}
+
+export interface ImportChunkFailure {
+  /** Index of the chunk's first event in the submitted array */
+  offset: number;
+  size: number;
+  error: string;
+  /** $insert_ids of the rejected events (every event in the chunk if it failed outright) */
+  insert_ids: string[];
+}
+
+export interface ImportResult extends IngestionResult {
+  num_records_imported: number;
+  chunks: number;
+  failed_chunks?: ImportChunkFailure[];
+  /** Strict mode: issues Mixpanel accepts but truncates or ignores */
+  validation_warnings?: Record<string, string[]>;
+}
+
 export interface LookupTable {
   id: string;
   name: string;
@@ -140,15 +740,22 @@ export interface MixpanelClient {
   // Connection
   testConnection(): Promise<{ connected: boolean; message: string }>;
 
+  // Retry statistics since the last call (resets the counters)
+  takeRetryStats(): RetryStats;
+
+  // Notes on the results since the last call, such as names that may be
+  // misspelled (resets the list)
+  takeHints(): string[];
+
   // Query API - Insights
   queryInsights(params: {
     fromDate: string;
     toDate: string;
     event?: string;
     groupBy?: string[];
-    where?: string;
+    where?: WhereInput;
     interval?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-  }): Promise<InsightsResult>;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<InsightsResult>>;
 
   // Query API - Segmentation
   querySegmentation(params: {
@@ -157,9 +764,9 @@ export interface MixpanelClient {
     toDate: string;
     type?: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
+    where?: WhereInput;
     on?: string;
-  }): Promise<SegmentationResult>;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>>;
 
   querySegmentationNumeric(params: {
     event: string;
@@ -168,9 +775,9 @@ export interface MixpanelClient {
     on: string;
     type?: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
+    where?: WhereInput;
     buckets?: number;
-  }): Promise<SegmentationResult>;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>>;
 
   querySegmentationSum(params: {
     event: string;
@@ -178,8 +785,8 @@ export interface MixpanelClient {
     toDate: string;
     on: string;
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
-  }): Promise<SegmentationResult>;
+    where?: WhereInput;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>>;
 
   querySegmentationAverage(params: {
     event: string;
@@ -187,17 +794,18 @@ export interface MixpanelClient {
     toDate: string;
     on: string;
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
-  }): Promise<SegmentationResult>;
+    where?: WhereInput;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>>;
 
   // Data Export API
   exportEvents(params: {
     fromDate: string;
     toDate: string;
     event?: string[];
-    where?: string;
+    where?: WhereInput;
     limit?: number;
-  }): Promise<ExportedEvent[]>;
+    cursor?: string;
+  }): Promise<ExportPage>;
 
   // Query API - Funnels
   getFunnel(
@@ -208,10 +816,30 @@ export interface MixpanelClient {
       interval?: 'day' | 'week' | 'month';
       length?: number;
       lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
-    }
+    } & CacheOptions & CohortFilter
   ): Promise<FunnelData>;
 
-  listFunnels(): Promise<FunnelListItem[]>;
+  buildFunnel(params: {
+    steps: FunnelStepSpec[];
+    fromDate: string;
+    toDate: string;
+    length?: number;
+    lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
+    order?: FunnelOrder;
+    breakdown?: string;
+  } & CacheOptions): Promise<AdHocFunnelData>;
+
+  analyzeFunnel(params: {
+    steps: FunnelStepSpec[];
+    fromDate: string;
+    toDate: string;
+    length?: number;
+    lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
+    order?: FunnelOrder;
+    properties?: string[];
+  } & CacheOptions & CohortFilter): Promise<FunnelAnalysis>;
+
+  listFunnels(options?: CacheOptions): Promise<FunnelListItem[]>;
 
   // Query API - Retention
   getRetention(params: {
@@ -223,23 +851,23 @@ export interface MixpanelClient {
     interval?: number;
     intervalCount?: number;
     unit?: 'day' | 'week' | 'month';
-  }): Promise<RetentionData>;
+  } & CacheOptions & CohortFilter): Promise<RetentionData>;
 
   getFrequency(params: {
     fromDate: string;
     toDate: string;
     event: string;
-    where?: string;
+    where?: WhereInput;
     on?: string;
-  }): Promise<RetentionData>;
+  } & CacheOptions): Promise<RetentionData>;
 
   // Query API - User Profiles (Engage)
   queryProfiles(params?: {
-    where?: string;
+    where?: WhereInput;
     sessionId?: string;
     page?: number;
     outputProperties?: string[];
-  }): Promise<ProfileQueryResult>;
+  } & CohortFilter): Promise<ProfileQueryResult>;
 
   getProfile(distinctId: string): Promise<UserProfile>;
 
@@ -253,18 +881,26 @@ export interface MixpanelClient {
   ): Promise<{ events: Array<{ event: string; properties: Record<string, unknown> }> }>;
 
   // Query API - Events
-  getTopEvents(params: { type: 'general' | 'average' | 'unique'; limit?: number }): Promise<TopEvent[]>;
+  getTopEvents(
+    params: { type: 'general' | 'average' | 'unique'; limit?: number } & CacheOptions
+  ): Promise<TopEvent[]>;
 
-  getEventNames(params: { type: 'general' | 'unique'; limit?: number }): Promise<string[]>;
+  getEventNames(
+    params: { type: 'general' | 'unique'; limit?: number } & CacheOptions
+  ): Promise<string[]>;
 
-  getEventProperties(eventName: string): Promise<string[]>;
+  getEventProperties(eventName: string, options?: CacheOptions): Promise<string[]>;
 
-  getPropertyValues(event: string, property: string, params?: { limit?: number }): Promise<string[]>;
+  getPropertyValues(
+    event: string,
+    property: string,
+    params?: { limit?: number } & CacheOptions
+  ): Promise<string[]>;
 
   getTopPropertyValues(
     event: string,
     property: string,
-    params?: { limit?: number }
+    params?: { limit?: number } & CacheOptions
   ): Promise<Array<{ value: string; count: number }>>;
 
   queryEvents(params: {
@@ -274,11 +910,40 @@ export interface MixpanelClient {
     type: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
     interval?: number;
-    where?: string;
-  }): Promise<Record<string, Record<string, number>>>;
+    where?: WhereInput;
+  } & CacheOptions & PeriodComparisonOptions): Promise<WithComparison<EventSeries>>;
 
   // Query API - Cohorts
-  listCohorts(): Promise<Cohort[]>;
+  listCohorts(options?: CacheOptions): Promise<Cohort[]>;
+
+  getCohort(cohortId: number, options?: CacheOptions): Promise<Cohort>;
+
+  getCohortMembers(params: {
+    cohortId: number;
+    sessionId?: string;
+    page?: number;
+    outputProperties?: string[];
+  }): Promise<ProfileQueryResult>;
+
+  getAllCohortMembers(params: {
+    cohortId: number;
+    outputProperties?: string[];
+    maxMembers?: number;
+  }): Promise<CohortMembers>;
+
+  getCohortCountHistory(params: {
+    cohortId: number;
+    fromDate: string;
+    toDate: string;
+    unit?: 'day' | 'week' | 'month';
+  }): Promise<CohortCountPoint[]>;
+
+  compareCohorts(params: {
+    cohortA: number;
+    cohortB: number;
+    maxMembers?: number;
+    sampleSize?: number;
+  }): Promise<CohortOverlap>;
 
   // Query API - JQL
   executeJQL(script: string): Promise<unknown>;
@@ -289,7 +954,7 @@ export interface MixpanelClient {
     distinctId: string;
     properties?: Record<string, unknown>;
     time?: number;
-  }): Promise<{ status: number }>;
+  }): Promise<IngestionResult>;
 
   trackEvents(
     events: Array<{
@@ -299,8 +964,9 @@ export interface MixpanelClient {
         time?: number;
         [key: string]: unknown;
       };
-    }>
-  ): Promise<{ status: number; num_records_imported?: number }>;
+    }>,
+    options?: { insertIds?: InsertIdOptions }
+  ): Promise<IngestionResult>;
 
   importEvents(
     events: Array<{
@@ -311,79 +977,85 @@ export interface MixpanelClient {
         $insert_id?: string;
         [key: string]: unknown;
       };
-    }>
-  ): Promise<{ code: number; num_records_imported: number; status: string }>;
+    }>,
+    options?: {
+      concurrency?: number;
+      gzip?: boolean;
+      strict?: boolean;
+      insertIds?: InsertIdOptions;
+    }
+  ): Promise<ImportResult>;
 
   // Ingestion API - User Profiles
   setProfileProperties(
     distinctId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   setProfilePropertiesOnce(
     distinctId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   incrementProfileProperties(
     distinctId: string,
     properties: Record<string, number>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   appendToProfileList(
     distinctId: string,
     property: string,
     values: unknown[]
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   removeFromProfileList(
     distinctId: string,
     property: string,
     values: unknown[]
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   unionToProfileList(
     distinctId: string,
     properties: Record<string, unknown[]>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
-  unsetProfileProperties(distinctId: string, properties: string[]): Promise<{ status: number }>;
+  unsetProfileProperties(distinctId: string, properties: string[]): Promise<IngestionResult>;
 
-  deleteProfile(distinctId: string): Promise<{ status: number }>;
+  deleteProfile(distinctId: string): Promise<IngestionResult>;
 
   // Ingestion API - Group Profiles
   setGroupProperties(
     groupKey: string,
     groupId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   setGroupPropertiesOnce(
     groupKey: string,
     groupId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   unsetGroupProperties(
     groupKey: string,
     groupId: string,
     properties: string[]
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
-  deleteGroup(groupKey: string, groupId: string): Promise<{ status: number }>;
+  deleteGroup(groupKey: string, groupId: string): Promise<IngestionResult>;
 
   // Ingestion API - Identity Management
   createIdentity(
     distinctId: string,
     anonId: string
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
-  createAlias(distinctId: string, alias: string): Promise<{ status: number }>;
+  createAlias(distinctId: string, alias: string): Promise<IngestionResult>;
 
   mergeIdentities(
     distinctId1: string,
     distinctId2: string
-  ): Promise<{ status: number }>;
+  ): Promise<IngestionResult>;
 
   // Management API - Annotations
   listAnnotations(params?: { fromDate?: string; toDate?: string }): Promise<Annotation[]>;
@@ -448,10 +1120,46 @@ export interface MixpanelClient {
 // =============================================================================
 
 class MixpanelClientImpl implements MixpanelClient {
+  private context: ServerContext;
   private credentials: TenantCredentials;
+  private logger: Logger;
+  private retryOptions: RetryOptions;
+  private retryStats: RetryStats = createRetryStats();
+  private hints: string[] = [];
+  private nameLookups = new Map<string, Promise<string[]>>();
+  private cache?: ResponseCache;
+  private apiUrls: Record<ApiKind, string>;
+
+  constructor(context: ServerContext, retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS) {
+    this.context = context;
+    this.credentials = context.credentials;
+    this.logger = context.logger.child({ component: 'client' });
+    this.retryOptions = retryOptions;
+
+    if (context.env.MIXPANEL_BASE_URL) {
+      this.apiUrls = getOverrideApiUrls(context.env.MIXPANEL_BASE_URL);
+    } else {
+      this.apiUrls = this.credentials.euResident ? EU_API_URLS : US_API_URLS;
+    }
+
+    if (context.env.CACHE_KV) {
+      this.cache = new ResponseCache(context.env.CACHE_KV, context.credentials, {
+        logger: this.logger.child({ component: 'cache' }),
+        executionContext: context.executionContext,
+      });
+    }
+  }
+
+  takeRetryStats(): RetryStats {
+    const stats = this.retryStats;
+    this.retryStats = createRetryStats();
+    return stats;
+  }
 
-  constructor(credentials: TenantCredentials) {
-    this.credentials = credentials;
+  takeHints(): string[] {
+    const hints = this.hints;
+    this.hints = [];
+    return hints;
   }
 
   // ===========================================================================
@@ -468,36 +1176,113 @@ class MixpanelClientImpl implements MixpanelClient {
   }
 
   private getDataApiUrl(): string {
-    return this.credentials.euResident ? EU_DATA_API_URL : DATA_API_URL;
+    return this.apiUrls.export;
   }
 
   private getMixpanelApiUrl(): string {
-    return this.credentials.euResident ? EU_MIXPANEL_API_URL : MIXPANEL_API_URL;
+    return this.apiUrls.query;
   }
 
   private getIngestionApiUrl(): string {
-    return this.credentials.euResident ? EU_INGESTION_API_URL : INGESTION_API_URL;
+    return this.apiUrls.ingestion;
   }
 
   private getAppApiUrl(): string {
-    return this.credentials.euResident ? EU_APP_API_URL : APP_API_URL;
+    return this.apiUrls.app;
+  }
+
+  private getApiKind(baseUrl: string): ApiKind {
+    if (baseUrl === this.getDataApiUrl()) return 'export';
+    if (baseUrl === this.getIngestionApiUrl()) return 'ingestion';
+    if (baseUrl === this.getAppApiUrl()) return 'app';
+    return 'query';
+  }
+
+  /**
+   * Send a request through the rate-limit governor and retry layer.
+   *
+   * 429 and 5xx responses (and network failures) are retried with backoff;
+   * any other response is returned for the caller to interpret. A 429 waits
+   * out its Retry-After when it sends one. Requests marked not idempotent
+   * are retried on 429 only.
+   */
+  private async send(
+    kind: ApiKind,
+    url: string,
+    init: RequestInit,
+    options: { bytes?: number; idempotent?: boolean } = {}
+  ): Promise<Response> {
+    const governor = getGovernor(kind, this.credentials.projectId);
+    const bytes =
+      options.bytes ??
+      (typeof init.body === 'string' ? new TextEncoder().encode(init.body).byteLength : 0);
+    const retryOptions =
+      options.idempotent === false ? { ...this.retryOptions, rateLimitsOnly: true } : this.retryOptions;
+
+    return withRetry(
+      async () => {
+        const release = await governor.acquire(bytes, this.retryStats);
+        try {
+          const response = await this.context.fetch(url, init);
+
+          if (response.status === 429) {
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+            throw new RateLimitError('Rate limit exceeded', retryAfter);
+          }
+
+          if (response.status >= 500) {
+            const errorText = await response.text();
+            throw new ApiError(
+              `API error: ${response.status} - ${errorText}`,
+              response.status,
+              'SERVER_ERROR',
+              options.idempotent !== false
+            );
+          }
+
+          return response;
+        } finally {
+          release();
+        }
+      },
+      retryOptions,
+      this.retryStats,
+      (error, attempt, delayMs) => {
+        this.logger.warn('Retrying Mixpanel request', {
+          kind,
+          attempt: attempt + 1,
+          delayMs: Math.round(delayMs),
+          error: formatErrorForLogging(error),
+        });
+      }
+    );
   }
 
-  private async request<T>(baseUrl: string, endpoint: string, options: RequestInit = {}): Promise<T> {
+  /**
+   * Send an authenticated request and parse the response. Pass
+   * idempotent: false for writes that must not run twice, such as POSTs
+   * that create a record.
+   */
+  private async request<T>(
+    baseUrl: string,
+    endpoint: string,
+    options: RequestInit & { idempotent?: boolean } = {}
+  ): Promise<T> {
+    const { idempotent, ...init } = options;
     const url = `${baseUrl}${endpoint}`;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
+    const response = await this.send(
+      this.getApiKind(baseUrl),
+      url,
+      {
+        ...init,
+        headers: {
+          ...this.getAuthHeaders(),
+          ...(init.headers || {}),
+        },
       },
-    });
-
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError('Rate limit exceeded', retryAfter ? parseInt(retryAfter, 10) : 60);
-    }
+      { idempotent }
+    );
 
     if (response.status === 401 || response.status === 403) {
       throw new AuthenticationError('Invalid credentials');
@@ -516,39 +1301,110 @@ class MixpanelClientImpl implements MixpanelClient {
     return response.text() as unknown as T;
   }
 
-  private async requestIngestion<T>(
+  /**
+   * Read-only request served through the KV response cache when one is bound.
+   * The key covers the endpoint path, its query parameters and any body.
+   */
+  private async cachedRequest<T>(
+    baseUrl: string,
     endpoint: string,
-    data: unknown,
-    useProjectToken = true
+    ttlSeconds: number,
+    cacheOptions: CacheOptions = {},
+    options: RequestInit = {}
   ): Promise<T> {
-    const url = `${this.getIngestionApiUrl()}${endpoint}`;
+    const load = () => this.request<T>(baseUrl, endpoint, options);
+    if (!this.cache) return load();
+
+    const [path, query = ''] = endpoint.split('?');
+    const params: Record<string, unknown> = Object.fromEntries(new URLSearchParams(query));
+    if (typeof options.body === 'string') params.body = options.body;
+
+    return this.cache.getOrLoad(path, params, ttlSeconds, cacheOptions, load);
+  }
+
+  /**
+   * POST a batch of records to the Ingestion API.
+   *
+   * Requests verbose responses so rejections carry Mixpanel's error message
+   * and, where available, per-record failures. A batch where nothing was
+   * accepted throws an IngestionError; a partially accepted batch resolves
+   * with status 0 and the failed records.
+   *
+   * A server or network error may come after Mixpanel stored the batch, so
+   * only batches whose records all carry an $insert_id (which Mixpanel
+   * deduplicates on) are retried on those; others are retried only on 429.
+   */
+  private async requestIngestion(
+    endpoint: string,
+    data: unknown[],
+    options: { useProjectToken?: boolean; gzip?: boolean; query?: Record<string, string> } = {}
+  ): Promise<IngestionResult> {
+    const queryParams = new URLSearchParams({ verbose: '1', ...options.query });
+    const url = `${this.getIngestionApiUrl()}${endpoint}?${queryParams}`;
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       Accept: 'application/json',
     };
 
-    if (!useProjectToken) {
+    if (options.useProjectToken === false) {
       const credentials = btoa(`${this.credentials.username}:${this.credentials.secret}`);
       headers.Authorization = `Basic ${credentials}`;
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(data),
-    });
+    const json = JSON.stringify(data);
+    let payload: string | Uint8Array = json;
+    if (options.gzip) {
+      headers['Content-Encoding'] = 'gzip';
+      payload = await gzipText(json);
+    }
+
+    // Budget against the uncompressed size, which is what Mixpanel meters
+    const bytes = new TextEncoder().encode(json).byteLength;
+    const response = await this.send(
+      'ingestion',
+      url,
+      { method: 'POST', headers, body: payload },
+      { bytes, idempotent: data.every(hasInsertId) }
+    );
+
+    const body = parseIngestionBody(await response.text());
+    const failedRecords = (body.failed_records || []).map((record) => ({
+      index: record.index,
+      insertId: record.$insert_id,
+      field: record.field,
+      message: record.message,
+    }));
 
-    if (response.status === 429) {
-      throw new RateLimitError('Rate limit exceeded', 60);
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthenticationError(body.error || 'Invalid credentials');
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new ApiError(`Ingestion API error: ${response.status} - ${errorText}`, response.status);
+    const accepted = response.ok && body.status !== 0 && body.status !== '0';
+    if (accepted) {
+      return {
+        status: 1,
+        ...(body.num_records_imported !== undefined && {
+          num_records_imported: body.num_records_imported,
+        }),
+      };
+    }
+
+    const error = body.error || `Request rejected with status ${response.status}`;
+    if (body.num_records_imported && failedRecords.length > 0) {
+      return {
+        status: 0,
+        error,
+        num_records_imported: body.num_records_imported,
+        failed_records: failedRecords,
+      };
     }
 
-    return response.json() as Promise<T>;
+    throw new IngestionError(
+      `Ingestion API error: ${response.status} - ${error}`,
+      response.ok ? 400 : response.status,
+      failedRecords
+    );
   }
 
   // ===========================================================================
@@ -580,9 +1436,17 @@ class MixpanelClientImpl implements MixpanelClient {
     toDate: string;
     event?: string;
     groupBy?: string[];
-    where?: string;
+    where?: WhereInput;
     interval?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-  }): Promise<InsightsResult> {
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<InsightsResult>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.queryInsights(periodParams),
+        (result) => result.series
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       from_date: params.fromDate,
@@ -591,13 +1455,23 @@ class MixpanelClientImpl implements MixpanelClient {
 
     if (params.event) queryParams.set('event', JSON.stringify([params.event]));
     if (params.interval) queryParams.set('interval', params.interval);
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, params.event ? [params.event] : []);
+    if (where) queryParams.set('where', where);
     if (params.groupBy) queryParams.set('on', JSON.stringify(params.groupBy));
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<InsightsResult>(
+    const result = await this.cachedRequest<InsightsResult>(
       this.getMixpanelApiUrl(),
-      `/insights?${queryParams}`
+      `/insights?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
+    if (params.event && isEmptySeries(result.series)) {
+      await this.explainEmptyResult([params.event]);
+    }
+    return result;
   }
 
   // ===========================================================================
@@ -610,9 +1484,18 @@ class MixpanelClientImpl implements MixpanelClient {
     toDate: string;
     type?: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
+    where?: WhereInput;
     on?: string;
-  }): Promise<SegmentationResult> {
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.querySegmentation(periodParams),
+        (result) => result.data.values,
+        params.type === 'average' ? 'mean' : 'sum'
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: params.event,
@@ -622,13 +1505,23 @@ class MixpanelClientImpl implements MixpanelClient {
 
     if (params.type) queryParams.set('type', params.type);
     if (params.unit) queryParams.set('unit', params.unit);
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, [params.event]);
+    if (where) queryParams.set('where', where);
     if (params.on) queryParams.set('on', params.on);
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<SegmentationResult>(
+    const result = await this.cachedRequest<SegmentationResult>(
       this.getMixpanelApiUrl(),
-      `/segmentation?${queryParams}`
+      `/segmentation?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
+    if (isEmptySeries(result.data?.values)) {
+      await this.explainEmptyResult([params.event], segmentProperties(params.on));
+    }
+    return result;
   }
 
   async querySegmentationNumeric(params: {
@@ -638,9 +1531,18 @@ class MixpanelClientImpl implements MixpanelClient {
     on: string;
     type?: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
+    where?: WhereInput;
     buckets?: number;
-  }): Promise<SegmentationResult> {
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.querySegmentationNumeric(periodParams),
+        (result) => result.data.values,
+        params.type === 'average' ? 'mean' : 'sum'
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: params.event,
@@ -651,13 +1553,23 @@ class MixpanelClientImpl implements MixpanelClient {
 
     if (params.type) queryParams.set('type', params.type);
     if (params.unit) queryParams.set('unit', params.unit);
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, [params.event]);
+    if (where) queryParams.set('where', where);
     if (params.buckets) queryParams.set('buckets', String(params.buckets));
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<SegmentationResult>(
+    const result = await this.cachedRequest<SegmentationResult>(
       this.getMixpanelApiUrl(),
-      `/segmentation/numeric?${queryParams}`
+      `/segmentation/numeric?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
+    if (isEmptySeries(result.data?.values)) {
+      await this.explainEmptyResult([params.event], segmentProperties(params.on));
+    }
+    return result;
   }
 
   async querySegmentationSum(params: {
@@ -666,8 +1578,16 @@ class MixpanelClientImpl implements MixpanelClient {
     toDate: string;
     on: string;
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
-  }): Promise<SegmentationResult> {
+    where?: WhereInput;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.querySegmentationSum(periodParams),
+        (result) => result.data.values
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: params.event,
@@ -677,12 +1597,23 @@ class MixpanelClientImpl implements MixpanelClient {
     });
 
     if (params.unit) queryParams.set('unit', params.unit);
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, [params.event]);
+    if (where) queryParams.set('where', where);
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<SegmentationResult>(
+    const response = await this.cachedRequest<AggregateSegmentationResponse>(
       this.getMixpanelApiUrl(),
-      `/segmentation/sum?${queryParams}`
+      `/segmentation/sum?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
+    const result = aggregateSeries(response, params.on);
+    if (isEmptySeries(result.data?.values)) {
+      await this.explainEmptyResult([params.event], segmentProperties(params.on));
+    }
+    return result;
   }
 
   async querySegmentationAverage(params: {
@@ -691,8 +1622,17 @@ class MixpanelClientImpl implements MixpanelClient {
     toDate: string;
     on: string;
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
-    where?: string;
-  }): Promise<SegmentationResult> {
+    where?: WhereInput;
+  } & CacheOptions & CohortFilter & PeriodComparisonOptions): Promise<WithComparison<SegmentationResult>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.querySegmentationAverage(periodParams),
+        (result) => result.data.values,
+        'mean'
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: params.event,
@@ -702,12 +1642,23 @@ class MixpanelClientImpl implements MixpanelClient {
     });
 
     if (params.unit) queryParams.set('unit', params.unit);
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, [params.event]);
+    if (where) queryParams.set('where', where);
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<SegmentationResult>(
+    const response = await this.cachedRequest<AggregateSegmentationResponse>(
       this.getMixpanelApiUrl(),
-      `/segmentation/average?${queryParams}`
+      `/segmentation/average?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
+    const result = aggregateSeries(response, params.on);
+    if (isEmptySeries(result.data?.values)) {
+      await this.explainEmptyResult([params.event], segmentProperties(params.on));
+    }
+    return result;
   }
 
   // ===========================================================================
@@ -715,12 +1666,80 @@ class MixpanelClientImpl implements MixpanelClient {
   // ===========================================================================
 
   async exportEvents(params: {
+    fromDate: string;
+    toDate: string;
+    event?: string[];
+    where?: WhereInput;
+    limit?: number;
+    cursor?: string;
+  }): Promise<ExportPage> {
+    const limit = resolvePageSize(this.context.limits, params.limit);
+    const cursor = params.cursor ? decodeExportCursor(params.cursor) : undefined;
+
+    // Resume from the day before the cursor (project timezones may lag UTC)
+    // and skip forward past the cursor event
+    let fromDate = params.fromDate;
+    if (cursor) {
+      const resumeDate = new Date((cursor.t - 24 * 60 * 60) * 1000).toISOString().slice(0, 10);
+      if (resumeDate > fromDate) fromDate = resumeDate;
+    }
+
+    const events: ExportedEvent[] = [];
+    let hasMore = false;
+
+    // Events at the cursor's timestamp were returned in part: those with an
+    // $insert_id are recognized by it, and those without one by count, in
+    // the order the export lists them
+    const returnedIds = new Set(cursor?.ids);
+    let unnamedToSkip = cursor?.n ?? 0;
+
+    // Without a cursor, ask for one extra event to learn whether more remain
+    const where = await this.resolveWhere(params.where, params.event ?? []);
+    const stream = this.streamExport({
+      ...params,
+      fromDate,
+      where,
+      limit: cursor ? undefined : limit + 1,
+    });
+
+    for await (const event of stream) {
+      if (cursor && event.time <= cursor.t) {
+        if (event.time < cursor.t) continue;
+        const insertId = event.properties.$insert_id;
+        if (typeof insertId === 'string' ? returnedIds.has(insertId) : unnamedToSkip-- > 0) {
+          continue;
+        }
+      }
+
+      if (events.length === limit) {
+        hasMore = true;
+        break;
+      }
+      events.push(event);
+    }
+
+    const last = events[events.length - 1];
+    return {
+      events,
+      hasMore,
+      ...(hasMore && last && { cursor: encodeExportCursor(nextExportCursor(events, cursor)) }),
+    };
+  }
+
+  /**
+   * Stream raw events from the Export API without buffering the response.
+   *
+   * Assumes Mixpanel returns events in ascending time order, which is what
+   * makes timestamp cursors resumable: on resume, events before the cursor's
+   * timestamp are taken as already returned.
+   */
+  private async *streamExport(params: {
     fromDate: string;
     toDate: string;
     event?: string[];
     where?: string;
     limit?: number;
-  }): Promise<ExportedEvent[]> {
+  }): AsyncGenerator<ExportedEvent> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       from_date: params.fromDate,
@@ -731,12 +1750,12 @@ class MixpanelClientImpl implements MixpanelClient {
     if (params.where) queryParams.set('where', params.where);
     if (params.limit) queryParams.set('limit', String(params.limit));
 
-    const response = await fetch(`${this.getDataApiUrl()}/export?${queryParams}`, {
+    const response = await this.send('export', `${this.getDataApiUrl()}/export?${queryParams}`, {
       headers: this.getAuthHeaders(),
     });
 
-    if (response.status === 429) {
-      throw new RateLimitError('Rate limit exceeded', 60);
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthenticationError('Invalid credentials');
     }
 
     if (!response.ok) {
@@ -744,18 +1763,17 @@ class MixpanelClientImpl implements MixpanelClient {
       throw new ApiError(`Export failed: ${response.status} - ${errorText}`, response.status);
     }
 
-    const text = await response.text();
-    const lines = text.trim().split('\n').filter(Boolean);
+    if (!response.body) return;
 
-    return lines.map((line) => {
-      const parsed = JSON.parse(line);
-      return {
+    for await (const line of readNdjson(response.body)) {
+      const parsed = line as { event: string; properties: Record<string, unknown> };
+      yield {
         event: parsed.event,
         properties: parsed.properties,
-        time: parsed.properties.time,
-        distinctId: parsed.properties.distinct_id,
+        time: parsed.properties.time as number,
+        distinctId: parsed.properties.distinct_id as string,
       };
-    });
+    }
   }
 
   // ===========================================================================
@@ -770,7 +1788,7 @@ class MixpanelClientImpl implements MixpanelClient {
       interval?: 'day' | 'week' | 'month';
       length?: number;
       lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
-    }
+    } & CacheOptions & CohortFilter
   ): Promise<FunnelData> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
@@ -782,15 +1800,218 @@ class MixpanelClientImpl implements MixpanelClient {
     if (params.interval) queryParams.set('interval', params.interval);
     if (params.length) queryParams.set('length', String(params.length));
     if (params.lengthUnit) queryParams.set('length_unit', params.lengthUnit);
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
+
+    return this.cachedRequest<FunnelData>(
+      this.getMixpanelApiUrl(),
+      `/funnels?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
+    );
+  }
+
+  async buildFunnel(params: {
+    steps: FunnelStepSpec[];
+    fromDate: string;
+    toDate: string;
+    length?: number;
+    lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
+    order?: FunnelOrder;
+    breakdown?: string;
+  } & CacheOptions): Promise<AdHocFunnelData> {
+    const { steps } = params;
+    const jqlParams: FunnelJqlParams = {
+      ...this.funnelJqlParams(params),
+      ...(params.breakdown && { breakdown: params.breakdown }),
+    };
+
+    const rows = await this.cachedRequest<FunnelJqlRow[]>(
+      this.getMixpanelApiUrl(),
+      '/jql',
+      ttlForDateRange(params.toDate),
+      params,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          project_id: this.credentials.projectId,
+          script: FUNNEL_JQL_SCRIPT,
+          params: JSON.stringify(jqlParams),
+        }),
+      }
+    );
+
+    const labels = steps.map((step) => step.label ?? step.event);
+    const byDate = sumFunnelRows(rows, 0, steps.length);
+    const dates = [...byDate.keys()].sort();
+
+    const result: AdHocFunnelData = {
+      meta: { dates },
+      data: Object.fromEntries(
+        dates.map((date) => {
+          const { counts, timeSums } = byDate.get(date) ?? { counts: [], timeSums: [] };
+          return [date, { steps: toFunnelSteps(labels, counts, timeSums) }];
+        })
+      ),
+    };
+
+    if (params.breakdown) {
+      result.breakdown = Object.fromEntries(
+        [...sumFunnelRows(rows, 1, steps.length)].map(([value, { counts, timeSums }]) => [
+          value,
+          { steps: toFunnelSteps(labels, counts, timeSums) },
+        ])
+      );
+    }
+    return result;
+  }
+
+  async analyzeFunnel(params: {
+    steps: FunnelStepSpec[];
+    fromDate: string;
+    toDate: string;
+    length?: number;
+    lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
+    order?: FunnelOrder;
+    properties?: string[];
+  } & CacheOptions & CohortFilter): Promise<FunnelAnalysis> {
+    const jqlParams: FunnelJqlParams = {
+      ...this.funnelJqlParams(params),
+      properties: params.properties ?? FUNNEL_ANALYSIS_PROPERTIES,
+      bucketBounds: FUNNEL_TIME_BUCKETS,
+    };
+
+    // JQL cannot filter by cohort, so the members are passed in
+    if (params.cohortId !== undefined) {
+      await this.cohortFilter(params.cohortId);
+      const cohort = await this.getAllCohortMembers({
+        cohortId: params.cohortId,
+        outputProperties: [],
+        maxMembers: FUNNEL_COHORT_MAX_MEMBERS,
+      });
+      if (cohort.truncated) {
+        throw new ValidationError('Cohort too large to analyze', {
+          cohortId: [
+            `Funnel analysis supports cohorts of up to ${FUNNEL_COHORT_MAX_MEMBERS} members; ` +
+              `this one has ${cohort.total}`,
+          ],
+        });
+      }
+      jqlParams.distinctIds = cohort.members.map((member) => member.distinctId);
+    }
+
+    const data = await this.cachedRequest<FunnelAnalysisJqlResult[] | FunnelAnalysisJqlResult>(
+      this.getMixpanelApiUrl(),
+      '/jql',
+      ttlForDateRange(params.toDate),
+      params,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          project_id: this.credentials.projectId,
+          script: FUNNEL_ANALYSIS_JQL_SCRIPT,
+          params: JSON.stringify(jqlParams),
+        }),
+      }
+    );
+
+    // reduce() yields a single result, or none when nobody entered the funnel
+    const labels = params.steps.map((step) => step.label ?? step.event);
+    const result = (Array.isArray(data) ? data[0] : data) ?? {
+      reached: labels.map(() => 0),
+      transitions: labels.slice(1).map(() => []),
+      conversion: [],
+      properties: labels.slice(1).map(() => ({})),
+    };
+
+    return {
+      transitions: result.transitions.map((histogram, i) => ({
+        from: labels[i],
+        to: labels[i + 1],
+        ...toTimeDistribution(histogram),
+      })),
+      timeToConvert: toTimeDistribution(result.conversion),
+      dropOff: labels.slice(0, -1).map((step, i) => {
+        const reached = result.reached[i] ?? 0;
+        const dropped = reached - (result.reached[i + 1] ?? 0);
+        const dropRate = reached ? dropped / reached : 0;
+        return {
+          step,
+          reached,
+          dropped,
+          dropRate,
+          drivers: findDropOffDrivers(result.properties[i] ?? {}, reached, dropRate),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Run a time-series query for its own range and the compareTo range, and
+   * attach the per-series deltas to the current result
+   */
+  private async withComparison<P extends DateRange & PeriodComparisonOptions, T>(
+    params: P,
+    query: (params: P) => Promise<T>,
+    series: (result: T) => SeriesValues,
+    aggregate: SeriesAggregate = 'sum'
+  ): Promise<WithComparison<T>> {
+    const { compareTo, ...rest } = params;
+    const range = { fromDate: params.fromDate, toDate: params.toDate };
+    const compareRange = comparisonRange(range, compareTo as CompareTo);
+
+    const [current, previous] = await Promise.all([
+      query(rest as P),
+      query({ ...rest, ...compareRange } as P),
+    ]);
+
+    return {
+      ...current,
+      comparison: {
+        range,
+        compareRange,
+        series: compareSeries(series(current), series(previous), aggregate),
+      },
+    };
+  }
+
+  /**
+   * Validate an ad-hoc funnel's steps and resolve its conversion window
+   */
+  private funnelJqlParams(params: {
+    steps: FunnelStepSpec[];
+    fromDate: string;
+    toDate: string;
+    length?: number;
+    lengthUnit?: 'day' | 'hour' | 'minute' | 'week';
+    order?: FunnelOrder;
+  }): FunnelJqlParams {
+    if (params.steps.length < 2 || params.steps.length > FUNNEL_MAX_STEPS) {
+      throw new ValidationError('Invalid funnel steps', {
+        steps: [`A funnel needs between 2 and ${FUNNEL_MAX_STEPS} steps`],
+      });
+    }
 
-    return this.request<FunnelData>(this.getMixpanelApiUrl(), `/funnels?${queryParams}`);
+    const windowSeconds = params.length
+      ? params.length * FUNNEL_WINDOW_UNIT_SECONDS[params.lengthUnit ?? 'day']
+      : FUNNEL_DEFAULT_WINDOW_DAYS * FUNNEL_WINDOW_UNIT_SECONDS.day;
+    return {
+      steps: params.steps,
+      fromDate: params.fromDate,
+      toDate: params.toDate,
+      windowSeconds,
+      order: params.order ?? 'sequential',
+    };
   }
 
-  async listFunnels(): Promise<FunnelListItem[]> {
+  async listFunnels(options?: CacheOptions): Promise<FunnelListItem[]> {
     const queryParams = new URLSearchParams({ project_id: this.credentials.projectId });
-    return this.request<FunnelListItem[]>(
+    return this.cachedRequest<FunnelListItem[]>(
       this.getMixpanelApiUrl(),
-      `/funnels/list?${queryParams}`
+      `/funnels/list?${queryParams}`,
+      CACHE_TTL_METADATA,
+      options
     );
   }
 
@@ -807,7 +2028,7 @@ class MixpanelClientImpl implements MixpanelClient {
     interval?: number;
     intervalCount?: number;
     unit?: 'day' | 'week' | 'month';
-  }): Promise<RetentionData> {
+  } & CacheOptions & CohortFilter): Promise<RetentionData> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       from_date: params.fromDate,
@@ -820,17 +2041,25 @@ class MixpanelClientImpl implements MixpanelClient {
     if (params.interval) queryParams.set('interval', String(params.interval));
     if (params.intervalCount) queryParams.set('interval_count', String(params.intervalCount));
     if (params.unit) queryParams.set('unit', params.unit);
+    if (params.cohortId !== undefined) {
+      queryParams.set('filter_by_cohort', await this.cohortFilter(params.cohortId));
+    }
 
-    return this.request<RetentionData>(this.getMixpanelApiUrl(), `/retention?${queryParams}`);
+    return this.cachedRequest<RetentionData>(
+      this.getMixpanelApiUrl(),
+      `/retention?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
+    );
   }
 
   async getFrequency(params: {
     fromDate: string;
     toDate: string;
     event: string;
-    where?: string;
+    where?: WhereInput;
     on?: string;
-  }): Promise<RetentionData> {
+  } & CacheOptions): Promise<RetentionData> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       from_date: params.fromDate,
@@ -838,12 +2067,15 @@ class MixpanelClientImpl implements MixpanelClient {
       event: params.event,
     });
 
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, [params.event]);
+    if (where) queryParams.set('where', where);
     if (params.on) queryParams.set('on', params.on);
 
-    return this.request<RetentionData>(
+    return this.cachedRequest<RetentionData>(
       this.getMixpanelApiUrl(),
-      `/retention/frequency?${queryParams}`
+      `/retention/frequency?${queryParams}`,
+      ttlForDateRange(params.toDate),
+      params
     );
   }
 
@@ -852,20 +2084,151 @@ class MixpanelClientImpl implements MixpanelClient {
   // ===========================================================================
 
   async queryProfiles(params?: {
-    where?: string;
+    where?: WhereInput;
     sessionId?: string;
     page?: number;
     outputProperties?: string[];
-  }): Promise<ProfileQueryResult> {
+  } & CohortFilter): Promise<ProfileQueryResult> {
     const body: Record<string, unknown> = {
       project_id: this.credentials.projectId,
       page: params?.page || 0,
     };
 
-    if (params?.where) body.where = params.where;
+    const where = await this.resolveWhere(params?.where, []);
+    if (where) body.where = where;
     if (params?.sessionId) body.session_id = params.sessionId;
     if (params?.outputProperties) body.output_properties = params.outputProperties;
+    if (params?.cohortId !== undefined) {
+      body.filter_by_cohort = await this.cohortFilter(params.cohortId);
+    }
+
+    return this.engage(body);
+  }
+
+  /**
+   * Check that a saved cohort exists and encode it for filter_by_cohort
+   */
+  private async cohortFilter(cohortId: number): Promise<string> {
+    const cohorts = await this.listCohorts();
+    if (!cohorts.some((cohort) => cohort.id === cohortId)) {
+      const available = cohorts.slice(0, 5).map((cohort) => `${cohort.id} (${cohort.name})`);
+      throw new ValidationError(`Unknown cohort: ${cohortId}`, {
+        cohortId: [
+          'No saved cohort has this ID; list cohorts to find a valid one',
+          ...(available.length ? [`Saved cohorts include: ${available.join(', ')}`] : []),
+        ],
+      });
+    }
+    return JSON.stringify({ id: cohortId });
+  }
+
+  /**
+   * Compile a structured where filter, check the expression's syntax, and
+   * look up the event properties (properties["..."]) it references on the
+   * queried events. Profile properties (user["..."]) are not looked up.
+   * Mixpanel only reports an event's top properties, so a name it does not
+   * report is flagged with a hint rather than rejected.
+   */
+  private async resolveWhere(
+    where: WhereInput | undefined,
+    events: string[]
+  ): Promise<string | undefined> {
+    if (where === undefined || where === '') return undefined;
+
+    const expression = typeof where === 'string' ? where : compileWhere(where);
+    const { properties } = parseWhere(expression);
+    if (properties.length === 0 || events.length === 0) return expression;
+
+    const known = new Set(WHERE_BUILTIN_PROPERTIES);
+    for (const event of events) {
+      for (const name of await this.eventPropertyNames(event)) known.add(name);
+    }
+    if (known.size === WHERE_BUILTIN_PROPERTIES.length) return expression;
+
+    for (const name of properties.filter((property) => !known.has(property))) {
+      this.hints.push(
+        `The where filter references "${name}", which is not among the top ` +
+          `${WHERE_PROPERTY_LOOKUP_LIMIT} properties of ${events.join(', ')}.` +
+          didYouMean(closestMatches(name, [...known]))
+      );
+    }
+    return expression;
+  }
+
+  /**
+   * Property names Mixpanel reports for an event (empty when it reports none
+   * or the lookup fails)
+   */
+  private eventPropertyNames(event: string): Promise<string[]> {
+    return this.lookupNames(`properties:${event}`, async () => {
+      const data = await this.cachedRequest<TopPropertiesResponse>(
+        this.getMixpanelApiUrl(),
+        `/events/properties/top?${new URLSearchParams({
+          project_id: this.credentials.projectId,
+          event,
+          limit: String(WHERE_PROPERTY_LOOKUP_LIMIT),
+        })}`,
+        CACHE_TTL_METADATA
+      );
+      return topPropertyCounts(data).map((entry) => entry.value);
+    });
+  }
+
+  /**
+   * Note why a result may be empty. Mixpanel answers a misspelled event or
+   * property with no data rather than an error, so an empty result is
+   * checked against the names Mixpanel reports (the most frequent events,
+   * and each event's top properties) and a hint names the closest ones.
+   * Those lists leave out rarely used names, so nothing is rejected.
+   */
+  private async explainEmptyResult(events: string[], properties: string[] = []): Promise<void> {
+    const knownEvents = await this.lookupNames('events', () =>
+      this.getEventNames({ type: 'general' })
+    );
+    const unlisted = knownEvents.length
+      ? events.filter((event) => !knownEvents.includes(event))
+      : [];
+    for (const event of unlisted) {
+      this.hints.push(
+        `No data for "${event}", which is not among the project's ${knownEvents.length} most ` +
+          `frequent events.${didYouMean(closestMatches(event, knownEvents))}`
+      );
+    }
+    if (unlisted.length > 0 || properties.length === 0) return;
+
+    for (const event of events) {
+      const known = await this.eventPropertyNames(event);
+      if (known.length === 0) continue;
+      for (const name of properties) {
+        if (known.includes(name) || WHERE_BUILTIN_PROPERTIES.includes(name)) continue;
+        this.hints.push(
+          `No data for property "${name}", which is not among the top properties of ${event}.` +
+            didYouMean(closestMatches(name, known))
+        );
+      }
+    }
+  }
+
+  /**
+   * Names looked up for checks and hints, once per client (a request, or a
+   * session). A failed lookup yields no names and is tried again next time.
+   */
+  private lookupNames(key: string, load: () => Promise<string[]>): Promise<string[]> {
+    let lookup = this.nameLookups.get(key);
+    if (!lookup) {
+      lookup = load().catch((): string[] => {
+        this.nameLookups.delete(key);
+        return [];
+      });
+      this.nameLookups.set(key, lookup);
+    }
+    return lookup;
+  }
 
+  /**
+   * POST /engage and map the page of profiles
+   */
+  private async engage(body: Record<string, unknown>): Promise<ProfileQueryResult> {
     const data = await this.request<{
       results: Array<{ $distinct_id: string; $properties: Record<string, unknown> }>;
       page: number;
@@ -929,19 +2292,18 @@ class MixpanelClientImpl implements MixpanelClient {
   // Query API - Events
   // ===========================================================================
 
-  async getTopEvents(params: {
-    type: 'general' | 'average' | 'unique';
-    limit?: number;
-  }): Promise<TopEvent[]> {
+  async getTopEvents(
+    params: { type: 'general' | 'average' | 'unique'; limit?: number } & CacheOptions
+  ): Promise<TopEvent[]> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       type: params.type,
       limit: String(params.limit || 10),
     });
 
-    const data = await this.request<{
+    const data = await this.cachedRequest<{
       events: Record<string, { amount: number; percent_change: number }>;
-    }>(this.getMixpanelApiUrl(), `/events/top?${queryParams}`);
+    }>(this.getMixpanelApiUrl(), `/events/top?${queryParams}`, CACHE_TTL_LIVE, params);
 
     return Object.entries(data.events).map(([event, stats]) => ({
       event,
@@ -950,32 +2312,44 @@ class MixpanelClientImpl implements MixpanelClient {
     }));
   }
 
-  async getEventNames(params: { type: 'general' | 'unique'; limit?: number }): Promise<string[]> {
+  async getEventNames(
+    params: { type: 'general' | 'unique'; limit?: number } & CacheOptions
+  ): Promise<string[]> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       type: params.type,
       limit: String(params.limit || 255),
     });
 
-    return this.request<string[]>(this.getMixpanelApiUrl(), `/events/names?${queryParams}`);
+    return this.cachedRequest<string[]>(
+      this.getMixpanelApiUrl(),
+      `/events/names?${queryParams}`,
+      CACHE_TTL_METADATA,
+      params
+    );
   }
 
-  async getEventProperties(eventName: string): Promise<string[]> {
+  async getEventProperties(eventName: string, options?: CacheOptions): Promise<string[]> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: eventName,
     });
 
-    return this.request<string[]>(
+    const data = await this.cachedRequest<TopPropertiesResponse>(
       this.getMixpanelApiUrl(),
-      `/events/properties/top?${queryParams}`
+      `/events/properties/top?${queryParams}`,
+      CACHE_TTL_METADATA,
+      options
     );
+    const properties = topPropertyCounts(data).map((entry) => entry.value);
+    if (properties.length === 0) await this.explainEmptyResult([eventName]);
+    return properties;
   }
 
   async getPropertyValues(
     event: string,
     property: string,
-    params?: { limit?: number }
+    params?: { limit?: number } & CacheOptions
   ): Promise<string[]> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
@@ -984,16 +2358,20 @@ class MixpanelClientImpl implements MixpanelClient {
       limit: String(params?.limit || 100),
     });
 
-    return this.request<string[]>(
+    const values = await this.cachedRequest<string[]>(
       this.getMixpanelApiUrl(),
-      `/events/properties/values?${queryParams}`
+      `/events/properties/values?${queryParams}`,
+      CACHE_TTL_METADATA,
+      params
     );
+    if (values.length === 0) await this.explainEmptyResult([event], [property]);
+    return values;
   }
 
   async getTopPropertyValues(
     event: string,
     property: string,
-    params?: { limit?: number }
+    params?: { limit?: number } & CacheOptions
   ): Promise<Array<{ value: string; count: number }>> {
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
@@ -1002,12 +2380,16 @@ class MixpanelClientImpl implements MixpanelClient {
       limit: String(params?.limit || 100),
     });
 
-    const data = await this.request<Record<string, number>>(
+    const data = await this.cachedRequest<TopPropertiesResponse>(
       this.getMixpanelApiUrl(),
-      `/events/properties/top?${queryParams}`
+      `/events/properties/top?${queryParams}`,
+      CACHE_TTL_LIVE,
+      params
     );
 
-    return Object.entries(data).map(([value, count]) => ({ value, count }));
+    const values = topPropertyCounts(data);
+    if (values.length === 0) await this.explainEmptyResult([event], [property]);
+    return values;
   }
 
   async queryEvents(params: {
@@ -1017,8 +2399,17 @@ class MixpanelClientImpl implements MixpanelClient {
     type: 'general' | 'unique' | 'average';
     unit?: 'minute' | 'hour' | 'day' | 'week' | 'month';
     interval?: number;
-    where?: string;
-  }): Promise<Record<string, Record<string, number>>> {
+    where?: WhereInput;
+  } & CacheOptions & PeriodComparisonOptions): Promise<WithComparison<EventSeries>> {
+    if (params.compareTo) {
+      return this.withComparison(
+        params,
+        (periodParams) => this.queryEvents(periodParams),
+        (result) => result.series,
+        params.type === 'average' ? 'mean' : 'sum'
+      );
+    }
+
     const queryParams = new URLSearchParams({
       project_id: this.credentials.projectId,
       event: JSON.stringify(params.event),
@@ -1029,29 +2420,154 @@ class MixpanelClientImpl implements MixpanelClient {
 
     if (params.unit) queryParams.set('unit', params.unit);
     if (params.interval) queryParams.set('interval', String(params.interval));
-    if (params.where) queryParams.set('where', params.where);
+    const where = await this.resolveWhere(params.where, params.event);
+    if (where) queryParams.set('where', where);
 
-    const data = await this.request<{ data: { values: Record<string, Record<string, number>> } }>(
-      this.getMixpanelApiUrl(),
-      `/events?${queryParams}`
-    );
+    const data = await this.cachedRequest<{
+      data: { values: Record<string, Record<string, number>> };
+    }>(this.getMixpanelApiUrl(), `/events?${queryParams}`, ttlForDateRange(params.toDate), params);
 
-    return data.data.values;
+    const values = data.data.values;
+    const empty = params.event.filter((event) => isEmptySeries({ [event]: values[event] }));
+    if (empty.length > 0) await this.explainEmptyResult(empty);
+    return { series: values };
   }
 
   // ===========================================================================
   // Query API - Cohorts
   // ===========================================================================
 
-  async listCohorts(): Promise<Cohort[]> {
-    const data = await this.request<Cohort[]>(this.getMixpanelApiUrl(), '/cohorts/list', {
-      method: 'POST',
-      body: JSON.stringify({ project_id: this.credentials.projectId }),
-    });
+  async listCohorts(options?: CacheOptions): Promise<Cohort[]> {
+    const data = await this.cachedRequest<Cohort[]>(
+      this.getMixpanelApiUrl(),
+      '/cohorts/list',
+      CACHE_TTL_METADATA,
+      options,
+      {
+        method: 'POST',
+        body: JSON.stringify({ project_id: this.credentials.projectId }),
+      }
+    );
 
     return data;
   }
 
+  async getCohort(cohortId: number, options?: CacheOptions): Promise<Cohort> {
+    const cohorts = await this.listCohorts(options);
+    const cohort = cohorts.find((c) => c.id === cohortId);
+    if (!cohort) {
+      throw new NotFoundError('Cohort', String(cohortId));
+    }
+    return cohort;
+  }
+
+  async getCohortMembers(params: {
+    cohortId: number;
+    sessionId?: string;
+    page?: number;
+    outputProperties?: string[];
+  }): Promise<ProfileQueryResult> {
+    const body: Record<string, unknown> = {
+      project_id: this.credentials.projectId,
+      filter_by_cohort: JSON.stringify({ id: params.cohortId }),
+      page: params.page || 0,
+    };
+
+    if (params.sessionId) body.session_id = params.sessionId;
+    if (params.outputProperties) body.output_properties = params.outputProperties;
+
+    return this.engage(body);
+  }
+
+  async getAllCohortMembers(params: {
+    cohortId: number;
+    outputProperties?: string[];
+    maxMembers?: number;
+  }): Promise<CohortMembers> {
+    const maxMembers = params.maxMembers ?? COHORT_DEFAULT_MAX_MEMBERS;
+    const members: UserProfile[] = [];
+
+    // Later pages must reuse the session ID returned with page 0
+    let page = await this.getCohortMembers({
+      cohortId: params.cohortId,
+      outputProperties: params.outputProperties,
+    });
+    const total = page.total;
+
+    while (page.results.length > 0) {
+      members.push(...page.results.slice(0, maxMembers - members.length));
+      if (members.length >= maxMembers || members.length >= total) break;
+
+      page = await this.getCohortMembers({
+        cohortId: params.cohortId,
+        sessionId: page.sessionId,
+        page: page.page + 1,
+        outputProperties: params.outputProperties,
+      });
+    }
+
+    return {
+      cohortId: params.cohortId,
+      total,
+      members,
+      truncated: members.length < total,
+    };
+  }
+
+  async getCohortCountHistory(params: {
+    cohortId: number;
+    fromDate: string;
+    toDate: string;
+    unit?: 'day' | 'week' | 'month';
+  }): Promise<CohortCountPoint[]> {
+    const dates = cohortHistoryDates(params.fromDate, params.toDate, params.unit ?? 'day');
+
+    // Behavioral criteria are evaluated as of the end of each date;
+    // property criteria always use current profile values
+    const points: CohortCountPoint[] = [];
+    for (const date of dates) {
+      const asOf = Date.parse(`${date}T23:59:59Z`) / 1000;
+      const page = await this.engage({
+        project_id: this.credentials.projectId,
+        filter_by_cohort: JSON.stringify({ id: params.cohortId }),
+        as_of_timestamp: asOf,
+        page: 0,
+      });
+      points.push({ date, count: page.total });
+    }
+    return points;
+  }
+
+  async compareCohorts(params: {
+    cohortA: number;
+    cohortB: number;
+    maxMembers?: number;
+    sampleSize?: number;
+  }): Promise<CohortOverlap> {
+    // Only distinct IDs are needed
+    const [a, b] = await Promise.all(
+      [params.cohortA, params.cohortB].map((cohortId) =>
+        this.getAllCohortMembers({ cohortId, outputProperties: [], maxMembers: params.maxMembers })
+      )
+    );
+
+    const idsA = new Set(a.members.map((m) => m.distinctId));
+    const idsB = new Set(b.members.map((m) => m.distinctId));
+    const shared = [...idsA].filter((id) => idsB.has(id));
+    const union = idsA.size + idsB.size - shared.length;
+
+    return {
+      cohortA: { id: params.cohortA, size: a.total },
+      cohortB: { id: params.cohortB, size: b.total },
+      overlap: shared.length,
+      onlyA: idsA.size - shared.length,
+      onlyB: idsB.size - shared.length,
+      jaccard: union === 0 ? 0 : shared.length / union,
+      sample: shared.slice(0, params.sampleSize ?? 20),
+      truncated: a.truncated || b.truncated,
+    };
+  }
+
   // ===========================================================================
   // Query API - JQL
   // ===========================================================================
@@ -1075,7 +2591,7 @@ class MixpanelClientImpl implements MixpanelClient {
     distinctId: string;
     properties?: Record<string, unknown>;
     time?: number;
-  }): Promise<{ status: number }> {
+  }): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for tracking events. Set X-Mixpanel-Project-Token header.');
@@ -1093,13 +2609,7 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     ];
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/track`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/track', data);
   }
 
   async trackEvents(
@@ -1110,13 +2620,23 @@ class MixpanelClientImpl implements MixpanelClient {
         time?: number;
         [key: string]: unknown;
       };
-    }>
-  ): Promise<{ status: number; num_records_imported?: number }> {
+    }>,
+    options?: { insertIds?: InsertIdOptions }
+  ): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for tracking events. Set X-Mixpanel-Project-Token header.');
     }
 
+    // Mixpanel deduplicates on time as well as $insert_id, and a defaulted
+    // time differs on every run, so derived IDs need an explicit time
+    const untimed = events.flatMap((e, index) => (e.properties.time ? [] : [index]));
+    if (options?.insertIds && untimed.length > 0) {
+      throw new ValidationError('Events need a time to derive $insert_ids', {
+        time: [`Missing on the events at index ${untimed.join(', ')}`],
+      });
+    }
+
     const data = events.map((e) => ({
       event: e.event,
       properties: {
@@ -1126,13 +2646,11 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     }));
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/track`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    });
+    if (options?.insertIds) {
+      await assignInsertIds(data, options.insertIds);
+    }
 
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/track', data);
   }
 
   async importEvents(
@@ -1144,22 +2662,119 @@ class MixpanelClientImpl implements MixpanelClient {
         $insert_id?: string;
         [key: string]: unknown;
       };
-    }>
-  ): Promise<{ code: number; num_records_imported: number; status: string }> {
-    const token = this.credentials.projectToken;
-    if (!token) {
-      throw new ApiError('Project token required for importing events. Set X-Mixpanel-Project-Token header.');
+    }>,
+    options?: {
+      concurrency?: number;
+      gzip?: boolean;
+      strict?: boolean;
+      insertIds?: InsertIdOptions;
     }
-
+  ): Promise<ImportResult> {
+    // /import authenticates with the service account and project_id; the
+    // project token is only sent along when the tenant provided one
+    const token = this.credentials.projectToken;
     const data = events.map((e) => ({
       event: e.event,
       properties: {
         ...e.properties,
-        token,
+        ...(token && { token }),
       },
     }));
 
-    return this.requestIngestion('/import', data);
+    // Derived $insert_ids make re-running a partially failed import safe
+    if (options?.insertIds) {
+      await assignInsertIds(data, options.insertIds);
+    }
+
+    // Strict mode: reject locally what Mixpanel would reject, and ask the API
+    // for per-record validation errors on anything that slips through
+    const strict = options?.strict ?? false;
+    const validation = strict ? validateEvents(data, 'import') : undefined;
+    if (validation && Object.keys(validation.errors).length > 0) {
+      throw new ValidationError('Events failed strict-mode validation', validation.errors);
+    }
+
+    const chunks = chunkRecords(data, { maxRecords: IMPORT_MAX_EVENTS, maxBytes: IMPORT_MAX_BYTES });
+    const gzip = options?.gzip ?? true;
+    // /import authenticates with the service account, which needs the project ID
+    const query: Record<string, string> = { project_id: this.credentials.projectId };
+    if (strict) query.strict = '1';
+
+    const outcomes = await mapWithConcurrency(
+      chunks,
+      options?.concurrency ?? IMPORT_CONCURRENCY,
+      async (chunk) => {
+        try {
+          const result = await this.requestIngestion('/import', chunk.records, {
+            useProjectToken: false,
+            gzip,
+            query,
+          });
+          return { chunk, result };
+        } catch (error) {
+          return { chunk, error };
+        }
+      }
+    );
+
+    // Nothing will succeed with bad credentials, and a single-chunk import
+    // keeps the original typed error
+    const failures = outcomes.filter((outcome) => outcome.error !== undefined);
+    const authFailure = failures.find((outcome) => outcome.error instanceof AuthenticationError);
+    if (authFailure) throw authFailure.error;
+    if (chunks.length === 1 && failures.length === 1) throw failures[0].error;
+
+    const insertIdAt = (index: number) => data[index]?.properties.$insert_id;
+    let imported = 0;
+    const failedRecords: FailedRecord[] = [];
+    const failedChunks: ImportChunkFailure[] = [];
+
+    for (const outcome of outcomes) {
+      const { offset, records } = outcome.chunk;
+      imported += outcome.result?.num_records_imported ?? 0;
+
+      if (outcome.error !== undefined) {
+        const chunkRecordsFailed =
+          outcome.error instanceof IngestionError ? outcome.error.failedRecords : [];
+        failedRecords.push(
+          ...chunkRecordsFailed.map((record) => ({ ...record, index: offset + record.index }))
+        );
+        failedChunks.push({
+          offset,
+          size: records.length,
+          error: formatError(outcome.error),
+          insert_ids: records
+            .map((_, i) => insertIdAt(offset + i))
+            .filter((id): id is string => typeof id === 'string'),
+        });
+      } else if (outcome.result?.failed_records?.length) {
+        const rejected = outcome.result.failed_records.map((record) => ({
+          ...record,
+          index: offset + record.index,
+        }));
+        failedRecords.push(...rejected);
+        failedChunks.push({
+          offset,
+          size: records.length,
+          error: outcome.result.error || 'Some records were rejected',
+          insert_ids: rejected
+            .map((record) => record.insertId ?? insertIdAt(record.index))
+            .filter((id): id is string => typeof id === 'string'),
+        });
+      }
+    }
+
+    return {
+      status: failedChunks.length === 0 ? 1 : 0,
+      num_records_imported: imported,
+      chunks: chunks.length,
+      ...(failedRecords.length > 0 && { failed_records: failedRecords }),
+      ...(failedChunks.length > 0 && { failed_chunks: failedChunks }),
+      ...(validation &&
+        Object.keys(validation.warnings).length > 0 && {
+          validation_warnings: validation.warnings,
+        }),
+    };
   }
 
   // ===========================================================================
@@ -1170,7 +2785,7 @@ class MixpanelClientImpl implements MixpanelClient {
     operation: string,
     distinctId: string,
     data: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for profile operations. Set X-Mixpanel-Project-Token header.');
@@ -1184,33 +2799,27 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     ];
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/engage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/engage', payload);
   }
 
   async setProfileProperties(
     distinctId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$set', distinctId, properties);
   }
 
   async setProfilePropertiesOnce(
     distinctId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$set_once', distinctId, properties);
   }
 
   async incrementProfileProperties(
     distinctId: string,
     properties: Record<string, number>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$add', distinctId, properties);
   }
 
@@ -1218,7 +2827,7 @@ class MixpanelClientImpl implements MixpanelClient {
     distinctId: string,
     property: string,
     values: unknown[]
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$append', distinctId, { [property]: values });
   }
 
@@ -1226,25 +2835,25 @@ class MixpanelClientImpl implements MixpanelClient {
     distinctId: string,
     property: string,
     values: unknown[]
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$remove', distinctId, { [property]: values });
   }
 
   async unionToProfileList(
     distinctId: string,
     properties: Record<string, unknown[]>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$union', distinctId, properties);
   }
 
   async unsetProfileProperties(
     distinctId: string,
     properties: string[]
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.engageRequest('$unset', distinctId, properties as unknown as Record<string, unknown>);
   }
 
-  async deleteProfile(distinctId: string): Promise<{ status: number }> {
+  async deleteProfile(distinctId: string): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for profile operations. Set X-Mixpanel-Project-Token header.');
@@ -1258,13 +2867,7 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     ];
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/engage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/engage', payload);
   }
 
   // ===========================================================================
@@ -1276,7 +2879,7 @@ class MixpanelClientImpl implements MixpanelClient {
     groupKey: string,
     groupId: string,
     data: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for group operations. Set X-Mixpanel-Project-Token header.');
@@ -1291,20 +2894,14 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     ];
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/groups`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/groups', payload);
   }
 
   async setGroupProperties(
     groupKey: string,
     groupId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.groupRequest('$set', groupKey, groupId, properties);
   }
 
@@ -1312,7 +2909,7 @@ class MixpanelClientImpl implements MixpanelClient {
     groupKey: string,
     groupId: string,
     properties: Record<string, unknown>
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.groupRequest('$set_once', groupKey, groupId, properties);
   }
 
@@ -1320,11 +2917,11 @@ class MixpanelClientImpl implements MixpanelClient {
     groupKey: string,
     groupId: string,
     properties: string[]
-  ): Promise<{ status: number }> {
+  ): Promise<IngestionResult> {
     return this.groupRequest('$unset', groupKey, groupId, properties as unknown as Record<string, unknown>);
   }
 
-  async deleteGroup(groupKey: string, groupId: string): Promise<{ status: number }> {
+  async deleteGroup(groupKey: string, groupId: string): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for group operations. Set X-Mixpanel-Project-Token header.');
@@ -1339,20 +2936,14 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     ];
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/groups`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/groups', payload);
   }
 
   // ===========================================================================
   // Ingestion API - Identity Management
   // ===========================================================================
 
-  async createIdentity(distinctId: string, anonId: string): Promise<{ status: number }> {
+  async createIdentity(distinctId: string, anonId: string): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for identity operations. Set X-Mixpanel-Project-Token header.');
@@ -1367,16 +2958,10 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     };
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/track`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify([payload]),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/track', [payload]);
   }
 
-  async createAlias(distinctId: string, alias: string): Promise<{ status: number }> {
+  async createAlias(distinctId: string, alias: string): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for alias operations. Set X-Mixpanel-Project-Token header.');
@@ -1391,16 +2976,10 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     };
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/track`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify([payload]),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/track', [payload]);
   }
 
-  async mergeIdentities(distinctId1: string, distinctId2: string): Promise<{ status: number }> {
+  async mergeIdentities(distinctId1: string, distinctId2: string): Promise<IngestionResult> {
     const token = this.credentials.projectToken;
     if (!token) {
       throw new ApiError('Project token required for merge operations. Set X-Mixpanel-Project-Token header.');
@@ -1414,13 +2993,7 @@ class MixpanelClientImpl implements MixpanelClient {
       },
     };
 
-    const response = await fetch(`${this.getIngestionApiUrl()}/track`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify([payload]),
-    });
-
-    return { status: response.ok ? 1 : 0 };
+    return this.requestIngestion('/track', [payload]);
   }
 
   // ===========================================================================
@@ -1450,6 +3023,7 @@ class MixpanelClientImpl implements MixpanelClient {
       {
         method: 'POST',
         body: JSON.stringify(params),
+        idempotent: false,
       }
     );
   }
@@ -1505,25 +3079,10 @@ class MixpanelClientImpl implements MixpanelClient {
       throw new ApiError('Lookup table data cannot be empty');
     }
 
-    const headers = Object.keys(data[0]);
-    const csvRows = [headers.join(',')];
-
-    for (const row of data) {
-      const values = headers.map((h) => {
-        const val = row[h];
-        if (val === null || val === undefined) return '';
-        const str = String(val);
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      });
-      csvRows.push(values.join(','));
-    }
-
-    const csvContent = csvRows.join('\n');
+    const csvContent = toCsv(data);
 
-    const response = await fetch(
+    const response = await this.send(
+      'ingestion',
       `${this.getIngestionApiUrl()}/lookup_tables/${tableName}?project_id=${this.credentials.projectId}`,
       {
         method: 'PUT',
@@ -1634,6 +3193,7 @@ class MixpanelClientImpl implements MixpanelClient {
       {
         method: 'POST',
         body: JSON.stringify(body),
+        idempotent: false,
       }
     );
   }
@@ -1654,6 +3214,7 @@ class MixpanelClientImpl implements MixpanelClient {
       {
         method: 'POST',
         body: JSON.stringify({ distinct_ids: distinctIds }),
+        idempotent: false,
       }
     );
   }
@@ -1686,8 +3247,8 @@ class MixpanelClientImpl implements MixpanelClient {
  * MULTI-TENANT: Each request provides its own credentials via headers,
  * allowing a single server deployment to serve multiple tenants.
  *
- * @param credentials - Tenant credentials parsed from request headers
+ * @param context - Server context holding the tenant credentials, limits and logger
  */
-export function createMixpanelClient(credentials: TenantCredentials): MixpanelClient {
-  return new MixpanelClientImpl(credentials);
+export function createMixpanelClient(context: ServerContext): MixpanelClient {
+  return new MixpanelClientImpl(context);
 }
@@ -21,119 +21,180 @@
  * Optional Headers:
  * - X-Mixpanel-Project-Token: Project token (for ingestion API)
  * - X-Mixpanel-EU-Resident: Set to "true" for EU data residency
+ *
+ * Stateful sessions (/sse) capture the same credentials once, at session
+ * start, either from these headers or from a sealed session token issued by
+ * POST /sse/token.
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
-import { createMixpanelClient } from './client.js';
+import { createServerContext } from './types/context.js';
 import {
-  registerAnalyticsTools,
-  registerFunnelTools,
-  registerProfileTools,
-  registerEventTools,
-  registerGroupTools,
-  registerIdentityTools,
-  registerCohortTools,
-  registerManagementTools,
-  registerGDPRTools,
-} from './tools/index.js';
+  type FakeMixpanel,
+  type FixtureRecorder,
+  createFakeMixpanel,
+  createFixtureRecorder,
+  createFixtureReplay,
+  loadFixtureFile,
+  saveFixtureFile,
+} from './mock/index.js';
 import {
   type Env,
   type TenantCredentials,
+  getEnvFlag,
   parseTenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { INITIAL_SESSION_STATE, type SessionState, createSessionStore } from './types/session.js';
+import { AuthenticationError } from './utils/errors.js';
+import { createSessionToken, readSessionToken } from './utils/session-token.js';
+import {
+  SERVER_NAME,
+  SERVER_VERSION,
+  createStatelessServer,
+  registerServerTools,
+} from './server.js';
 
 // =============================================================================
-// MCP Server Configuration
+// MCP Agent (Stateful - uses Durable Objects)
 // =============================================================================
 
-const SERVER_NAME = 'primrose-mcp-mixpanel';
-const SERVER_VERSION = '1.0.0';
+/** Props handed to a session's Durable Object when the session starts */
+type SessionProps = { credentials: TenantCredentials };
 
-// =============================================================================
-// MCP Agent (Stateful - uses Durable Objects)
-// =============================================================================
+/**
+ * Check the shape of a session's props, which the Durable Object reads back
+ * from its storage untyped
+ */
+function isSessionProps(value: unknown): value is SessionProps {
+  const credentials = (value as { credentials?: Record<string, unknown> } | undefined)?.credentials;
+  return (
+    typeof credentials === 'object' &&
+    credentials !== null &&
+    typeof credentials.username === 'string' &&
+    typeof credentials.secret === 'string' &&
+    typeof credentials.projectId === 'string' &&
+    ['string', 'undefined'].includes(typeof credentials.projectToken) &&
+    ['boolean', 'undefined'].includes(typeof credentials.euResident)
+  );
+}
 
 /**
  * McpAgent provides stateful MCP sessions backed by Durable Objects.
  *
- * NOTE: For multi-tenant deployments, use the stateless mode instead.
- * The stateful McpAgent is better suited for single-tenant deployments where
- * credentials can be stored as wrangler secrets.
+ * MULTI-TENANT: Each /sse session is its own Durable Object. The tenant's
+ * credentials are captured when the session starts and stored as the agent's
+ * props; export cursors and the last query persist in the agent's state
+ * between tool calls.
  */
-export class MixpanelMcpAgent extends McpAgent<Env> {
+export class MixpanelMcpAgent extends McpAgent<Env, SessionState, SessionProps> {
   server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
   });
 
+  initialState: SessionState = INITIAL_SESSION_STATE;
+
   async init() {
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with credential headers instead.'
-    );
+    const props: unknown = this.props;
+    if (!isSessionProps(props)) {
+      throw new Error('Session started without tenant credentials');
+    }
+    const { credentials } = props;
+    validateCredentials(credentials);
+
+    const context = createServerContext({
+      credentials,
+      env: this.env,
+      session: createSessionStore(this),
+    });
+    registerServerTools(this.server, context);
   }
 }
 
+const sseHandler = MixpanelMcpAgent.serveSSE('/sse', { binding: 'MCP_SESSIONS' });
+
+/**
+ * Resolve the credentials for a new session: a sealed session token
+ * (Authorization: Bearer) when present, otherwise the credential headers.
+ * Tokens are not accepted in the URL, which ends up in access logs.
+ */
+async function resolveSessionCredentials(request: Request, env: Env): Promise<TenantCredentials> {
+  if (new URL(request.url).searchParams.has('token')) {
+    throw new AuthenticationError('Pass the session token in an Authorization: Bearer header');
+  }
+
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    return parseTenantCredentials(request);
+  }
+
+  if (!env.SESSION_TOKEN_SECRET) {
+    throw new AuthenticationError('Session tokens are not enabled on this server');
+  }
+  return readSessionToken(token, env.SESSION_TOKEN_SECRET);
+}
+
 // =============================================================================
-// Stateless MCP Server (Recommended - no Durable Objects needed)
+// Demo Mode and Fixture Recording
 // =============================================================================
 
+/** KV key of the fixture file replayed in demo mode */
+const DEMO_FIXTURE_KEY = 'fixtures/demo';
+
 /**
- * Creates a stateless MCP server instance with tenant-specific credentials.
- *
- * MULTI-TENANT: Each request provides credentials via headers, allowing
- * a single server deployment to serve multiple tenants.
- *
- * @param credentials - Tenant credentials parsed from request headers
+ * Upstream fetch for demo mode: the fixture file stored under
+ * DEMO_FIXTURE_KEY when there is one, with the fake Mixpanel answering
+ * anything it did not record
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
-  const server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
-  });
+async function createDemoFetch(env: Env, fake: FakeMixpanel): Promise<typeof fetch> {
+  const file = env.FIXTURES_KV
+    ? await loadFixtureFile(env.FIXTURES_KV, DEMO_FIXTURE_KEY)
+    : undefined;
+  if (!file) return fake.fetch;
 
-  // Create client with tenant-specific credentials
-  const client = createMixpanelClient(credentials);
-
-  // Register all tool categories
-  registerAnalyticsTools(server, client);
-  registerFunnelTools(server, client);
-  registerProfileTools(server, client);
-  registerEventTools(server, client);
-  registerGroupTools(server, client);
-  registerIdentityTools(server, client);
-  registerCohortTools(server, client);
-  registerManagementTools(server, client);
-  registerGDPRTools(server, client);
-
-  // Test connection tool
-  server.tool(
-    'mixpanel_test_connection',
-    'Test the connection to the Mixpanel API',
-    {},
-    async () => {
-      try {
-        const result = await client.testConnection();
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+  return createFixtureReplay(file, {
+    credentials: fake.credentials,
+    salt: env.FIXTURE_SCRUB_SALT,
+    fallback: fake.fetch,
+  }).fetch;
+}
+
+/**
+ * Store a request's recorded traffic as its own fixture file
+ */
+async function saveRecording(kv: KVNamespace, recorder: FixtureRecorder): Promise<void> {
+  const file = await recorder.finish();
+  if (file.entries.length === 0) return;
+
+  const key = `fixtures/${file.recordedAt}-${crypto.randomUUID().slice(0, 8)}`;
+  await saveFixtureFile(kv, key, file);
+}
+
+/**
+ * 401 response listing the credential headers
+ */
+function unauthorizedResponse(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Unauthorized',
+      message: error instanceof Error ? error.message : 'Invalid credentials',
+      required_headers: [
+        'X-Mixpanel-Service-Account-Username',
+        'X-Mixpanel-Service-Account-Secret',
+        'X-Mixpanel-Project-Id',
+      ],
+      optional_headers: [
+        'X-Mixpanel-Project-Token (for ingestion API)',
+        'X-Mixpanel-EU-Resident (set to "true" for EU)',
+      ],
+    }),
+    {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
     }
   );
-
-  return server;
 }
 
 // =============================================================================
@@ -158,50 +219,110 @@ export default {
     // Stateless MCP with Streamable HTTP (Recommended for multi-tenant)
     // ==========================================================================
     if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
+      let credentials: TenantCredentials;
+      let upstream: typeof fetch | undefined;
+      let recorder: FixtureRecorder | undefined;
 
-      // Validate credentials are present
-      try {
-        validateCredentials(credentials);
-      } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: 'Unauthorized',
-            message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: [
-              'X-Mixpanel-Service-Account-Username',
-              'X-Mixpanel-Service-Account-Secret',
-              'X-Mixpanel-Project-Id',
-            ],
-            optional_headers: [
-              'X-Mixpanel-Project-Token (for ingestion API)',
-              'X-Mixpanel-EU-Resident (set to "true" for EU)',
-            ],
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' },
+      if (getEnvFlag(env, 'DEMO_MODE')) {
+        // Demo mode serves sample data and ignores credential headers
+        const fake = createFakeMixpanel({ baseUrl: env.MIXPANEL_BASE_URL });
+        credentials = fake.credentials;
+        upstream = await createDemoFetch(env, fake);
+      } else {
+        // Parse tenant credentials from request headers
+        credentials = parseTenantCredentials(request);
+
+        // Validate credentials are present
+        try {
+          validateCredentials(credentials);
+        } catch (error) {
+          return unauthorizedResponse(error);
+        }
+
+        if (getEnvFlag(env, 'RECORD_FIXTURES') && env.FIXTURES_KV) {
+          if (!env.FIXTURE_SCRUB_SALT) {
+            return new Response('Recording fixtures requires the FIXTURE_SCRUB_SALT secret.', {
+              status: 501,
+            });
           }
-        );
+          recorder = createFixtureRecorder((input, init) => fetch(input, init), {
+            credentials,
+            salt: env.FIXTURE_SCRUB_SALT,
+          });
+          upstream = recorder.fetch;
+        }
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const context = createServerContext({
+        credentials,
+        env,
+        executionContext: ctx,
+        fetch: upstream,
+      });
+      const server = createStatelessServer(context);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
       const handler = createMcpHandler(server);
-      return handler(request, env, ctx);
+      const response = await handler(request, env, ctx);
+
+      if (recorder && env.FIXTURES_KV) {
+        ctx.waitUntil(saveRecording(env.FIXTURES_KV, recorder));
+      }
+      return response;
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
+    // ==========================================================================
+    // Stateful MCP over SSE (one Durable Object per session)
+    // ==========================================================================
+
+    // Exchange credential headers for a sealed session token
+    if (url.pathname === '/sse/token' && request.method === 'POST') {
+      if (!env.SESSION_TOKEN_SECRET) {
+        return new Response('Session tokens require the SESSION_TOKEN_SECRET secret.', {
+          status: 501,
+        });
+      }
+
+      const credentials = parseTenantCredentials(request);
+      try {
+        validateCredentials(credentials);
+      } catch (error) {
+        return unauthorizedResponse(error);
+      }
+
+      const token = await createSessionToken(credentials, env.SESSION_TOKEN_SECRET);
+      return new Response(JSON.stringify(token), {
+        headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    if (url.pathname === '/sse' || url.pathname === '/sse/message') {
+      if (!env.MCP_SESSIONS) {
+        return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
+          status: 501,
+        });
+      }
+
+      // Credentials are captured once, when the session's stream is opened;
+      // messages posted to /sse/message are routed by session ID
+      if (url.pathname === '/sse' && request.method === 'GET') {
+        let credentials: TenantCredentials;
+        try {
+          credentials = await resolveSessionCredentials(request, env);
+          validateCredentials(credentials);
+        } catch (error) {
+          return unauthorizedResponse(error);
+        }
+
+        // serveSSE passes ctx.props to the session's Durable Object
+        (ctx as { props: unknown }).props = { credentials } satisfies SessionProps;
+      }
+
+      return sseHandler.fetch(request, env, ctx);
+    }
+
     // Default response
     return new Response(
       JSON.stringify({
@@ -210,6 +331,8 @@ export default {
         description: 'Mixpanel MCP Server - Multi-tenant analytics API',
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          sse: '/sse (GET) - Stateful SSE MCP endpoint (requires Durable Objects)',
+          session_token: '/sse/token (POST) - Exchange credential headers for a session token',
           health: '/health - Health check',
         },
         authentication: {
@@ -234,6 +357,8 @@ export default {
             'mixpanel_get_top_events',
             'mixpanel_get_event_names',
             'mixpanel_query_events',
+            'mixpanel_detect_anomalies',
+            'mixpanel_forecast_metric',
             'mixpanel_get_event_properties',
             'mixpanel_get_property_values',
             'mixpanel_get_top_property_values',
@@ -242,6 +367,7 @@ export default {
           funnels: [
             'mixpanel_list_funnels',
             'mixpanel_get_funnel',
+            'mixpanel_build_funnel',
             'mixpanel_get_retention',
             'mixpanel_get_frequency',
           ],
@@ -275,7 +401,14 @@ export default {
             'mixpanel_create_alias',
             'mixpanel_merge_identities',
           ],
-          cohorts: ['mixpanel_list_cohorts'],
+          cohorts: [
+            'mixpanel_list_cohorts',
+            'mixpanel_get_cohort',
+            'mixpanel_get_cohort_members',
+            'mixpanel_get_cohort_count_history',
+            'mixpanel_export_cohort_members',
+            'mixpanel_compare_cohorts',
+          ],
           management: [
             'mixpanel_list_annotations',
             'mixpanel_create_annotation',
@@ -296,6 +429,7 @@ export default {
             'mixpanel_get_data_deletion_status',
             'mixpanel_cancel_data_deletion',
           ],
+          session: ['mixpanel_get_session_context (stateful sessions only)'],
           connection: ['mixpanel_test_connection'],
         },
       }),
@@ -0,0 +1,966 @@
+/**
+ * Fake Mixpanel
+ *
+ * An in-process stand-in for Mixpanel's Query, Export, Ingestion, App and
+ * GDPR endpoints, served through a `fetch` function so it can be passed as
+ * the server context's fetch. It answers both the single-host layout used
+ * when MIXPANEL_BASE_URL is set (see getOverrideApiUrls in client.ts) and the
+ * real US and EU hosts, so it can also stand behind a replayed fixture file.
+ *
+ * Responses use the payload shapes the client reads, filled with the
+ * deterministic sample project from fixtures.ts. Ingested events and
+ * profile/group updates are kept in memory and show up in later reads.
+ * Filter expressions (`where`) are accepted but not evaluated, and cohort
+ * filters are checked but only applied to profile queries.
+ */
+
+import { type ApiKind, describeApiUrl } from '../client.js';
+import type { TenantCredentials } from '../types/env.js';
+import {
+  FUNNEL_ANALYSIS_JQL_SCRIPT,
+  FUNNEL_BREAKDOWN_NONE,
+  FUNNEL_JQL_SCRIPT,
+  type FunnelAnalysisJqlResult,
+  type FunnelJqlParams,
+  type FunnelJqlRow,
+} from '../utils/funnels.js';
+import { stableStringify } from '../utils/hashing.js';
+import {
+  type FixtureEvent,
+  SAMPLE_COHORTS,
+  SAMPLE_EVENTS,
+  SAMPLE_FUNNELS,
+  SAMPLE_PROPERTIES,
+  SAMPLE_USER_COUNT,
+  dailyCount,
+  dateRange,
+  isCohortMember,
+  sampleEventsForDate,
+  sampleProfile,
+  seededRandom,
+} from './fixtures.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FakeApiKind = ApiKind;
+
+export interface FakeMixpanelOptions {
+  /** Base URL to answer on (default: http://mixpanel.fake) */
+  baseUrl?: string;
+
+  /** Credentials the fake accepts; anything else gets a 401 */
+  credentials?: Partial<TenantCredentials>;
+}
+
+export interface FakeRequest {
+  kind: FakeApiKind;
+  method: string;
+  /** Path below the API's prefix, e.g. /segmentation */
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+export interface FakeFailure {
+  /** Only fail requests to this API (default: any) */
+  kind?: FakeApiKind;
+  status: number;
+  /** Number of requests to fail (default: 1) */
+  count?: number;
+  /** Retry-After header for 429 responses (default: 1; null sends none) */
+  retryAfterSeconds?: number | null;
+}
+
+export interface FakeMixpanel {
+  baseUrl: string;
+
+  /** Credentials the fake accepts, ready for createServerContext */
+  credentials: TenantCredentials;
+
+  fetch: typeof fetch;
+
+  /** Every request received, in order */
+  requests: FakeRequest[];
+
+  /** Events accepted by /track and /import, deduplicated as Mixpanel does */
+  ingested: FixtureEvent[];
+
+  /** Profile properties written through /engage, by distinct_id */
+  profiles: Map<string, Record<string, unknown>>;
+
+  /** Group properties written through /groups, by "group_key/group_id" */
+  groups: Map<string, Record<string, unknown>>;
+
+  /** Fail upcoming requests, e.g. a 429 with Retry-After or a 503 */
+  failNext(failure: FakeFailure): void;
+}
+
+class FakeHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DEFAULT_CREDENTIALS: TenantCredentials = {
+  username: 'fake-service-account',
+  secret: 'fake-secret',
+  projectId: '1000',
+  projectToken: 'fake-project-token',
+};
+
+const PAGE_SIZE = 25;
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function parseJsonParam<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new FakeHttpError(400, `Invalid JSON parameter: ${value}`);
+  }
+}
+
+/**
+ * Parse a filter_by_cohort value, rejecting unknown cohorts
+ */
+function requireCohort(value: string): number {
+  const { id } = parseJsonParam<{ id?: number }>(value, {});
+  if (!SAMPLE_COHORTS.some((cohort) => cohort.id === id)) {
+    throw new FakeHttpError(400, `Cohort ${id} not found`);
+  }
+  return Number(id);
+}
+
+function requireParams(query: Record<string, string>, names: string[]): void {
+  for (const name of names) {
+    if (!query[name]) throw new FakeHttpError(400, `Missing required parameter: ${name}`);
+  }
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  if (!request.body) return undefined;
+
+  const stream =
+    request.headers.get('Content-Encoding') === 'gzip'
+      ? request.body.pipeThrough(new DecompressionStream('gzip'))
+      : request.body;
+  const text = await new Response(stream).text();
+  if (!text) return undefined;
+
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (!contentType.includes('application/json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new FakeHttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Counts keyed by date, optionally split by the values of a segment property
+ */
+function seriesFor(
+  events: string[],
+  dates: string[],
+  on?: string
+): Record<string, Record<string, number>> {
+  const values: Record<string, Record<string, number>> = {};
+  const property = on?.match(/properties\["(.+)"\]/)?.[1] ?? on;
+  const segments = property ? (SAMPLE_PROPERTIES[property] ?? ['(none)']) : undefined;
+
+  for (const event of events) {
+    for (const segment of segments ?? [event]) {
+      const key = segments ? segment : event;
+      values[key] ??= {};
+      for (const date of dates) {
+        values[key][date] = (values[key][date] ?? 0) + dailyCount(event, date, segments ? segment : '');
+      }
+    }
+  }
+  return values;
+}
+
+// =============================================================================
+// Fake
+// =============================================================================
+
+/**
+ * Create an in-process fake Mixpanel
+ */
+export function createFakeMixpanel(options: FakeMixpanelOptions = {}): FakeMixpanel {
+  const baseUrl = (options.baseUrl ?? 'http://mixpanel.fake').replace(/\/+$/, '');
+  const credentials: TenantCredentials = { ...DEFAULT_CREDENTIALS, ...options.credentials };
+  const expectedAuth = `Basic ${btoa(`${credentials.username}:${credentials.secret}`)}`;
+
+  const requests: FakeRequest[] = [];
+  const failures: FakeFailure[] = [];
+  const ingested: FixtureEvent[] = [];
+  const profiles = new Map<string, Record<string, unknown>>();
+  const groups = new Map<string, Record<string, unknown>>();
+  const annotations = new Map<number, Record<string, unknown>>();
+  const schemas = new Map<string, Record<string, unknown>>();
+  const lookupTables = new Map<string, { id: string; name: string; rowCount: number }>();
+  const gdprRequests = new Map<string, { type: string; status: string; distinctIds: string[] }>();
+  let nextId = 1;
+
+  for (let i = 0; i < SAMPLE_USER_COUNT; i++) {
+    const profile = sampleProfile(i);
+    profiles.set(profile.$distinct_id, profile.$properties);
+  }
+  annotations.set(nextId, {
+    id: nextId++,
+    date: '2024-01-15 00:00:00',
+    description: 'Launched new checkout flow',
+    created: '2024-01-15T09:30:00',
+    user: 'fake-service-account',
+  });
+  schemas.set('event/Purchase', {
+    name: 'Purchase',
+    schema_json: {
+      description: 'A completed order',
+      properties: { amount: { type: 'number' }, plan: { type: 'string' } },
+    },
+  });
+
+  // ===========================================================================
+  // Auth
+  // ===========================================================================
+
+  function requireServiceAccount(request: Request): void {
+    if (request.headers.get('Authorization') !== expectedAuth) {
+      throw new FakeHttpError(401, 'Invalid service account credentials');
+    }
+  }
+
+  function requireProject(projectId: string | undefined): void {
+    if (projectId !== undefined && projectId !== credentials.projectId) {
+      throw new FakeHttpError(403, `No access to project ${projectId}`);
+    }
+  }
+
+  // ===========================================================================
+  // Query API
+  // ===========================================================================
+
+  function handleQuery(method: string, path: string, query: Record<string, string>, body: unknown) {
+    const post = (body ?? {}) as Record<string, unknown>;
+    requireProject(query.project_id ?? (post.project_id as string | undefined));
+    if (query.filter_by_cohort) requireCohort(query.filter_by_cohort);
+
+    const dates = () => {
+      requireParams(query, ['from_date', 'to_date']);
+      return dateRange(query.from_date, query.to_date);
+    };
+
+    switch (`${method} ${path}`) {
+      case 'GET /insights': {
+        const range = dates();
+        const events = parseJsonParam(query.event, SAMPLE_EVENTS);
+        return { series: seriesFor(events, range), dates: range };
+      }
+
+      case 'GET /segmentation':
+      case 'GET /events': {
+        const range = dates();
+        const events =
+          path === '/events' ? parseJsonParam<string[]>(query.event, []) : [query.event];
+        if (!events.length || !events[0]) throw new FakeHttpError(400, 'Missing event');
+        const values = seriesFor(events, range, query.on);
+        return { legend_size: Object.keys(values).length, data: { series: range, values } };
+      }
+
+      case 'GET /segmentation/numeric': {
+        const range = dates();
+        requireParams(query, ['event', 'on']);
+        const buckets = ['0 - 50', '50 - 100', '100 - 150', '150 - 200'];
+        const values = Object.fromEntries(
+          buckets.map((bucket) => [
+            bucket,
+            Object.fromEntries(range.map((date) => [date, dailyCount(query.event, date, bucket)])),
+          ])
+        );
+        return { legend_size: buckets.length, data: { series: range, values } };
+      }
+
+      case 'GET /segmentation/sum':
+      case 'GET /segmentation/average': {
+        const range = dates();
+        requireParams(query, ['event', 'on']);
+        const perEvent = path.endsWith('average') ? 1 : dailyCount(query.event, '1970-01-01');
+        const results = Object.fromEntries(
+          range.map((date) => [
+            date,
+            Math.round(perEvent * (40 + seededRandom(`${query.event}|${date}`) * 60) * 100) / 100,
+          ])
+        );
+        // Unlike /segmentation, a single series keyed by date
+        return { status: 'ok', computed_at: `${range[range.length - 1]}T00:00:00`, results };
+      }
+
+      case 'GET /funnels': {
+        const range = dates();
+        const funnel = SAMPLE_FUNNELS.find((f) => String(f.funnel_id) === query.funnel_id);
+        if (!funnel) throw new FakeHttpError(400, `Funnel ${query.funnel_id} not found`);
+
+        const data = Object.fromEntries(
+          range.map((date) => {
+            const first = dailyCount(funnel.steps[0], date);
+            let previous = first;
+            const steps = funnel.steps.map((event, index) => {
+              const count =
+                index === 0 ? first : Math.round(previous * (0.35 + seededRandom(`${date}|${index}`) * 0.4));
+              const step = {
+                count,
+                step_conv_ratio: previous ? count / previous : 0,
+                overall_conv_ratio: first ? count / first : 0,
+                avg_time: index === 0 ? null : Math.round(600 + seededRandom(`${event}|${date}`) * 3000),
+                event,
+                ...(funnel.selectors?.[index] && { selector: funnel.selectors[index] }),
+              };
+              previous = count;
+              return step;
+            });
+            return [date, { steps }];
+          })
+        );
+        return { meta: { dates: range }, data };
+      }
+
+      case 'GET /funnels/list':
+        return SAMPLE_FUNNELS.map(({ funnel_id, name }) => ({ funnel_id, name }));
+
+      case 'GET /retention': {
+        const range = dates();
+        const event = query.born_event ?? 'Sign Up';
+        return Object.fromEntries(
+          range.map((date, index) => {
+            const first = dailyCount(event, date);
+            const periods = Math.min(range.length - index, Number(query.interval_count) || 8);
+            const counts = Array.from({ length: periods }, (_, period) =>
+              Math.round(first * 0.85 ** period * (period === 0 ? 1 : 0.45))
+            );
+            return [date, { first, counts }];
+          })
+        );
+      }
+
+      case 'GET /retention/frequency': {
+        const range = dates();
+        requireParams(query, ['event']);
+        return {
+          unit: 'day',
+          data: Object.fromEntries(
+            range.map((date) => [
+              date,
+              Array.from({ length: 7 }, (_, days) =>
+                Math.round(dailyCount(query.event, date) * 0.6 ** (days + 1))
+              ),
+            ])
+          ),
+        };
+      }
+
+      case 'POST /engage': {
+        if (post.distinct_id) {
+          const properties = profiles.get(String(post.distinct_id));
+          return {
+            page: 0,
+            session_id: 'fake-session',
+            total: properties ? 1 : 0,
+            results: properties
+              ? [{ $distinct_id: post.distinct_id, $properties: properties }]
+              : [],
+          };
+        }
+
+        const page = Number(post.page) || 0;
+        let all = [...profiles.entries()];
+
+        if (post.filter_by_cohort) {
+          const id = requireCohort(String(post.filter_by_cohort));
+          const asOf =
+            typeof post.as_of_timestamp === 'number'
+              ? new Date(post.as_of_timestamp * 1000).toISOString().slice(0, 10)
+              : undefined;
+          all = all.filter(([distinctId]) => isCohortMember(id, distinctId, asOf));
+        }
+
+        const outputProperties = post.output_properties as string[] | undefined;
+        return {
+          page,
+          session_id: (post.session_id as string | undefined) ?? 'fake-session',
+          total: all.length,
+          results: all.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map(([id, properties]) => ({
+            $distinct_id: id,
+            $properties: outputProperties
+              ? Object.fromEntries(outputProperties.map((name) => [name, properties[name]]))
+              : properties,
+          })),
+        };
+      }
+
+      case 'GET /engage/activity': {
+        requireParams(query, ['distinct_id']);
+        const events = sampleEventsForDate('2024-01-31')
+          .filter((event) => event.properties.distinct_id === query.distinct_id)
+          .slice(0, Number(query.limit) || 100);
+        return { events };
+      }
+
+      case 'GET /events/top': {
+        const today = new Date().toISOString().slice(0, 10);
+        const limit = Number(query.limit) || 10;
+        return {
+          type: query.type,
+          events: Object.fromEntries(
+            SAMPLE_EVENTS.slice(0, limit).map((event) => [
+              event,
+              {
+                amount: dailyCount(event, today),
+                percent_change: Math.round((seededRandom(`${event}|${today}`) - 0.5) * 100) / 100,
+              },
+            ])
+          ),
+        };
+      }
+
+      case 'GET /events/names': {
+        const names = [...new Set([...SAMPLE_EVENTS, ...ingested.map((e) => e.event)])];
+        return names.slice(0, Number(query.limit) || 255);
+      }
+
+      // Both forms answer { key: { count } }, like Mixpanel
+      case 'GET /events/properties/top': {
+        requireParams(query, ['event']);
+        if (!query.name) {
+          const names = new Set(Object.keys(SAMPLE_PROPERTIES));
+          if (query.event === 'Purchase') names.add('amount');
+          for (const event of ingested.filter((e) => e.event === query.event)) {
+            for (const name of Object.keys(event.properties)) names.add(name);
+          }
+          return Object.fromEntries(
+            [...names]
+              .slice(0, Number(query.limit) || 10)
+              .map((name) => [name, { count: dailyCount(query.event, '1970-01-01', name) }])
+          );
+        }
+
+        const values = SAMPLE_PROPERTIES[query.name] ?? [];
+        return Object.fromEntries(
+          values
+            .slice(0, Number(query.limit) || 100)
+            .map((value) => [value, { count: dailyCount(query.event, '1970-01-01', value) }])
+        );
+      }
+
+      case 'GET /events/properties/values': {
+        requireParams(query, ['event', 'name']);
+        return (SAMPLE_PROPERTIES[query.name] ?? []).slice(0, Number(query.limit) || 100);
+      }
+
+      case 'POST /cohorts/list':
+        return SAMPLE_COHORTS.map((cohort) => ({
+          ...cohort,
+          created: '2023-11-02 10:15:00',
+          is_visible: true,
+          project_id: Number(credentials.projectId),
+        }));
+
+      case 'POST /jql': {
+        if (typeof post.script !== 'string' || !post.script.includes('function main')) {
+          throw new FakeHttpError(400, 'JQL script must define function main()');
+        }
+        if (post.script === FUNNEL_JQL_SCRIPT) {
+          return funnelRows(parseJsonParam<FunnelJqlParams | null>(String(post.params), null));
+        }
+        if (post.script === FUNNEL_ANALYSIS_JQL_SCRIPT) {
+          return [funnelAnalysis(parseJsonParam<FunnelJqlParams | null>(String(post.params), null))];
+        }
+        return SAMPLE_EVENTS.map((event) => ({
+          key: [event],
+          value: dateRange('2024-01-01', '2024-01-07').reduce(
+            (sum, date) => sum + dailyCount(event, date),
+            0
+          ),
+        }));
+      }
+    }
+
+    throw new FakeHttpError(404, `Unknown Query API endpoint: ${method} ${path}`);
+  }
+
+  /**
+   * Ad-hoc funnel results: each step keeps 40-80% of the previous one
+   */
+  function funnelRows(params: FunnelJqlParams | null): FunnelJqlRow[] {
+    if (!params || params.steps.length < 2) {
+      throw new FakeHttpError(400, 'Funnel params must define at least two steps');
+    }
+
+    const breakdowns = (params.breakdown && SAMPLE_PROPERTIES[params.breakdown]) || [
+      FUNNEL_BREAKDOWN_NONE,
+    ];
+    return dateRange(params.fromDate, params.toDate).flatMap((date) =>
+      breakdowns.map((value): FunnelJqlRow => {
+        const counts = [Math.max(1, Math.round(dailyCount(params.steps[0].event, date, value) / 10))];
+        const timeSums = [0];
+        for (let i = 1; i < params.steps.length; i++) {
+          const seed = `${date}|${value}|${i}`;
+          counts.push(Math.round(counts[i - 1] * (0.4 + seededRandom(seed) * 0.4)));
+          timeSums.push(Math.round(counts[i] * (300 + seededRandom(`${seed}|time`) * 3000)));
+        }
+        return { key: [date, value], value: { counts, timeSums } };
+      })
+    );
+  }
+
+  /**
+   * Ad-hoc funnel analysis: the funnelRows totals, with step times spread
+   * around a few minutes and each property value dropping at its own rate
+   */
+  function funnelAnalysis(params: FunnelJqlParams | null): FunnelAnalysisJqlResult {
+    const rows = funnelRows(params);
+    const { steps, properties = [], bucketBounds = [] } = params as FunnelJqlParams;
+
+    const reached = steps.map((_, i) => rows.reduce((sum, row) => sum + row.value.counts[i], 0));
+    const histogram = (users: number, seed: string): number[] => {
+      const weights = [...bucketBounds, 0].map((_, b) =>
+        Math.exp(-((b - 3) ** 2) / 4) * (0.5 + seededRandom(`${seed}|${b}`))
+      );
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      return weights.map((weight) => Math.round((users * weight) / total));
+    };
+
+    return {
+      reached,
+      transitions: reached.slice(1).map((users, i) => histogram(users, `transition|${i}`)),
+      conversion: histogram(reached[reached.length - 1], 'conversion'),
+      properties: reached.slice(0, -1).map((users, i) => {
+        const continueRate = reached[i + 1] / Math.max(1, users);
+        const byProperty: Record<string, Record<string, [number, number]>> = {};
+        for (const property of properties) {
+          const values = SAMPLE_PROPERTIES[property] ?? [FUNNEL_BREAKDOWN_NONE];
+          byProperty[property] = {};
+          for (const value of values) {
+            const valueUsers = Math.round(users / values.length);
+            const rate = Math.min(1, continueRate * (0.7 + seededRandom(`${property}|${value}|${i}`) * 0.6));
+            const continued = Math.round(valueUsers * rate);
+            byProperty[property][value] = [continued, valueUsers - continued];
+          }
+        }
+        return byProperty;
+      }),
+    };
+  }
+
+  // ===========================================================================
+  // Export API
+  // ===========================================================================
+
+  function handleExport(path: string, query: Record<string, string>): Response {
+    if (path !== '/export') throw new FakeHttpError(404, `Unknown Export API endpoint: ${path}`);
+    requireProject(query.project_id);
+    requireParams(query, ['from_date', 'to_date']);
+
+    const wanted = parseJsonParam<string[] | undefined>(query.event, undefined);
+    const from = Date.parse(`${query.from_date}T00:00:00Z`) / 1000;
+    const to = Date.parse(`${query.to_date}T00:00:00Z`) / 1000 + 86400;
+
+    const extra = ingested.filter((event) => {
+      const time = Number(event.properties.time);
+      return time >= from && time < to;
+    });
+    let events = dateRange(query.from_date, query.to_date)
+      .flatMap(sampleEventsForDate)
+      .concat(extra)
+      .sort((a, b) => Number(a.properties.time) - Number(b.properties.time));
+
+    if (wanted) events = events.filter((event) => wanted.includes(event.event));
+    if (query.limit) events = events.slice(0, Number(query.limit));
+
+    const body = events.map((event) => JSON.stringify(event)).join('\n');
+    return new Response(body ? `${body}\n` : '', {
+      headers: { 'Content-Type': 'application/x-ndjson' },
+    });
+  }
+
+  // ===========================================================================
+  // Ingestion API
+  // ===========================================================================
+
+  const insertKeys = new Set<string>();
+
+  /**
+   * Store an accepted event unless an event with the same name, distinct_id,
+   * time and $insert_id is already stored
+   */
+  function ingest(event: string, properties: Record<string, unknown>): void {
+    if (typeof properties.$insert_id === 'string') {
+      const { distinct_id, time, $insert_id } = properties;
+      const key = stableStringify([event, distinct_id, time, $insert_id]);
+      if (insertKeys.has(key)) return;
+      insertKeys.add(key);
+    }
+    ingested.push({ event, properties });
+  }
+
+  function applyOperations(target: Record<string, unknown>, record: Record<string, unknown>): void {
+    const set = record.$set as Record<string, unknown> | undefined;
+    const setOnce = record.$set_once as Record<string, unknown> | undefined;
+    const add = record.$add as Record<string, number> | undefined;
+    const append = record.$append as Record<string, unknown> | undefined;
+    const union = record.$union as Record<string, unknown[]> | undefined;
+    const remove = record.$remove as Record<string, unknown> | undefined;
+    const unset = record.$unset as string[] | undefined;
+
+    Object.assign(target, set);
+    for (const [key, value] of Object.entries(setOnce ?? {})) {
+      if (!(key in target)) target[key] = value;
+    }
+    for (const [key, value] of Object.entries(add ?? {})) {
+      target[key] = Number(target[key] ?? 0) + value;
+    }
+    for (const [key, value] of Object.entries(append ?? {})) {
+      target[key] = [...((target[key] as unknown[]) ?? []), value];
+    }
+    for (const [key, values] of Object.entries(union ?? {})) {
+      target[key] = [...new Set([...((target[key] as unknown[]) ?? []), ...values])];
+    }
+    for (const [key, value] of Object.entries(remove ?? {})) {
+      target[key] = ((target[key] as unknown[]) ?? []).filter((item) => item !== value);
+    }
+    for (const key of unset ?? []) delete target[key];
+  }
+
+  function handleIngestion(
+    request: Request,
+    method: string,
+    path: string,
+    query: Record<string, string>,
+    body: unknown
+  ) {
+    if (path === '/lookup_tables' && method === 'GET') {
+      requireServiceAccount(request);
+      requireProject(query.project_id);
+      return [...lookupTables.values()];
+    }
+
+    const lookupTable = path.match(/^\/lookup_tables\/([^/]+)$/);
+    if (lookupTable && method === 'PUT') {
+      requireServiceAccount(request);
+      requireProject(query.project_id);
+      const rows = String(body ?? '').split('\n').filter(Boolean);
+      if (rows.length < 2) throw new FakeHttpError(400, 'CSV must have a header and at least one row');
+      const name = decodeURIComponent(lookupTable[1]);
+      lookupTables.set(name, { id: `lt-${name}`, name, rowCount: rows.length - 1 });
+      return { code: 200, status: 'OK' };
+    }
+
+    if (method !== 'POST' || !Array.isArray(body)) {
+      throw new FakeHttpError(400, 'Expected a JSON array of records');
+    }
+    const records = body as Array<Record<string, unknown>>;
+
+    switch (path) {
+      case '/track': {
+        for (const record of records) {
+          const properties = (record.properties ?? {}) as Record<string, unknown>;
+          if (properties.token !== credentials.projectToken) {
+            return { status: 0, error: 'token, missing or empty' };
+          }
+          if (!record.event) return { status: 0, error: "'event' must be a non-empty string" };
+        }
+        for (const record of records) {
+          const { token: _token, ...properties } = record.properties as Record<string, unknown>;
+          ingest(String(record.event), properties);
+        }
+        return { status: 1, error: null };
+      }
+
+      case '/engage':
+      case '/groups': {
+        for (const record of records) {
+          if (record.$token !== credentials.projectToken) {
+            return { status: 0, error: '$token, missing or empty' };
+          }
+        }
+        for (const record of records) {
+          const store = path === '/engage' ? profiles : groups;
+          const key =
+            path === '/engage'
+              ? String(record.$distinct_id)
+              : `${record.$group_key}/${record.$group_id}`;
+          if ('$delete' in record) {
+            store.delete(key);
+            continue;
+          }
+          const target = store.get(key) ?? {};
+          applyOperations(target, record);
+          store.set(key, target);
+        }
+        return { status: 1, error: null };
+      }
+
+      case '/import': {
+        requireServiceAccount(request);
+        requireProject(query.project_id);
+
+        const strict = query.strict === '1';
+        const nowSeconds = Date.now() / 1000;
+        const failed: Array<Record<string, unknown>> = [];
+
+        records.forEach((record, index) => {
+          const properties = (record.properties ?? {}) as Record<string, unknown>;
+          const fail = (field: string, message: string) =>
+            failed.push({ index, $insert_id: properties.$insert_id, field, message });
+
+          if (typeof record.event !== 'string' || !record.event) {
+            fail('event', "'event' must be a non-empty string");
+          } else if (typeof properties.time !== 'number' || properties.time <= 0) {
+            fail('properties.time', "'properties.time' must be specified as seconds since epoch");
+          } else if (properties.time > nowSeconds + 3600) {
+            fail('properties.time', "'properties.time' must not be in the future");
+          } else if (typeof properties.distinct_id !== 'string') {
+            fail('properties.distinct_id', "'properties.distinct_id' must be a string");
+          } else if (strict && typeof properties.$insert_id !== 'string') {
+            fail('properties.$insert_id', "'properties.$insert_id' is required in strict mode");
+          }
+        });
+
+        const rejected = new Set(failed.map((record) => record.index));
+        records.forEach((record, index) => {
+          if (rejected.has(index)) return;
+          const { token: _token, ...properties } = record.properties as Record<string, unknown>;
+          ingest(String(record.event), properties);
+        });
+
+        const imported = records.length - failed.length;
+        if (failed.length) {
+          return json(
+            {
+              code: 400,
+              error: 'some data points in the request failed validation',
+              failed_records: failed,
+              num_records_imported: imported,
+              status: 'Bad Request',
+            },
+            400
+          );
+        }
+        return { code: 200, num_records_imported: imported, status: 'OK' };
+      }
+    }
+
+    throw new FakeHttpError(404, `Unknown Ingestion API endpoint: ${method} ${path}`);
+  }
+
+  // ===========================================================================
+  // App (Management) and GDPR APIs
+  // ===========================================================================
+
+  function handleGdpr(method: string, path: string, query: Record<string, string>, body: unknown) {
+    if (query.token !== credentials.projectToken) {
+      throw new FakeHttpError(401, 'Invalid project token');
+    }
+
+    const match = path.match(/^\/(data-retrievals|data-deletions)\/v3\.0(?:\/([^/]+))?$/);
+    if (!match) throw new FakeHttpError(404, `Unknown GDPR endpoint: ${path}`);
+    const [, type, requestId] = match;
+
+    if (!requestId && method === 'POST') {
+      const distinctIds = (body as { distinct_ids?: string[] } | undefined)?.distinct_ids;
+      if (!distinctIds?.length) throw new FakeHttpError(400, 'distinct_ids must not be empty');
+      const id = `gdpr-${nextId++}`;
+      gdprRequests.set(id, { type, status: 'PENDING', distinctIds });
+      return { status: 'ok', request_id: id };
+    }
+
+    const gdprRequest = requestId ? gdprRequests.get(requestId) : undefined;
+    if (!gdprRequest || gdprRequest.type !== type) {
+      throw new FakeHttpError(404, `Request ${requestId} not found`);
+    }
+
+    if (method === 'GET') {
+      return {
+        status: gdprRequest.status,
+        results: { distinct_ids: gdprRequest.distinctIds },
+      };
+    }
+    if (method === 'DELETE' && type === 'data-deletions') {
+      if (gdprRequest.status !== 'PENDING') {
+        throw new FakeHttpError(400, 'Only pending deletions can be cancelled');
+      }
+      gdprRequest.status = 'CANCELLED';
+      return { status: 'ok' };
+    }
+
+    throw new FakeHttpError(405, `${method} not allowed on ${path}`);
+  }
+
+  function handleApp(request: Request, method: string, path: string, query: Record<string, string>, body: unknown) {
+    if (path.startsWith('/data-retrievals') || path.startsWith('/data-deletions')) {
+      return handleGdpr(method, path, query, body);
+    }
+
+    requireServiceAccount(request);
+    const project = path.match(/^\/projects\/([^/]+)(\/.*)$/);
+    if (!project) throw new FakeHttpError(404, `Unknown App API endpoint: ${path}`);
+    requireProject(project[1]);
+    const resource = project[2];
+    const input = (body ?? {}) as Record<string, unknown>;
+
+    if (resource === '/annotations') {
+      if (method === 'GET') {
+        const from = query.from_date ?? '0000-00-00';
+        const to = `${query.to_date ?? '9999-99-99'} 99`;
+        return {
+          annotations: [...annotations.values()].filter(
+            (annotation) => String(annotation.date) >= from && String(annotation.date) <= to
+          ),
+        };
+      }
+      if (method === 'POST') {
+        if (!input.date || !input.description) {
+          throw new FakeHttpError(400, 'date and description are required');
+        }
+        const annotation = {
+          id: nextId++,
+          date: input.date,
+          description: input.description,
+          created: new Date().toISOString(),
+          user: credentials.username,
+        };
+        annotations.set(annotation.id, annotation);
+        return annotation;
+      }
+    }
+
+    const annotationMatch = resource.match(/^\/annotations\/(\d+)$/);
+    if (annotationMatch) {
+      const id = Number(annotationMatch[1]);
+      const annotation = annotations.get(id);
+      if (!annotation) throw new FakeHttpError(404, `Annotation ${id} not found`);
+
+      if (method === 'GET') return annotation;
+      if (method === 'PATCH') {
+        Object.assign(annotation, input, { updated: new Date().toISOString() });
+        return annotation;
+      }
+      if (method === 'DELETE') {
+        annotations.delete(id);
+        return { status: 'ok' };
+      }
+    }
+
+    const schemaMatch = resource.match(/^\/schemas(?:\/([^/]+))?(?:\/([^/]+))?$/);
+    if (schemaMatch) {
+      const [, entityType, encodedName] = schemaMatch;
+      if (!encodedName) {
+        return [...schemas.entries()]
+          .filter(([key]) => !entityType || key.startsWith(`${entityType}/`))
+          .map(([, schema]) => schema);
+      }
+
+      const name = decodeURIComponent(encodedName);
+      const key = `${entityType}/${name}`;
+      if (method === 'GET') {
+        const schema = schemas.get(key);
+        if (!schema) throw new FakeHttpError(404, `Schema ${key} not found`);
+        return schema;
+      }
+      if (method === 'POST') {
+        schemas.set(key, { name, schema_json: input.schema_json ?? {} });
+        return { status: 'ok' };
+      }
+      if (method === 'DELETE') {
+        if (!schemas.delete(key)) throw new FakeHttpError(404, `Schema ${key} not found`);
+        return { status: 'ok' };
+      }
+    }
+
+    throw new FakeHttpError(404, `Unknown App API endpoint: ${method} ${path}`);
+  }
+
+  // ===========================================================================
+  // Routing
+  // ===========================================================================
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const route = describeApiUrl(request.url, baseUrl);
+    if (!route) {
+      return json({ error: `Fake Mixpanel does not serve ${url.origin}${url.pathname}` }, 404);
+    }
+
+    const { kind, path } = route;
+    const method = request.method.toUpperCase();
+    const query = Object.fromEntries(url.searchParams);
+
+    try {
+      const body = await readBody(request);
+      requests.push({ kind, method, path, query, body });
+
+      const failure = failures.find((f) => !f.kind || f.kind === kind);
+      if (failure) {
+        failure.count = (failure.count ?? 1) - 1;
+        if (failure.count <= 0) failures.splice(failures.indexOf(failure), 1);
+
+        let retryAfter: number | null = null;
+        if (failure.status === 429) {
+          retryAfter = failure.retryAfterSeconds === undefined ? 1 : failure.retryAfterSeconds;
+        }
+        return json(
+          { error: failure.status === 429 ? 'Too many requests' : 'Injected failure' },
+          failure.status,
+          retryAfter === null ? {} : { 'Retry-After': String(retryAfter) }
+        );
+      }
+
+      let result: unknown;
+      if (kind === 'query') {
+        requireServiceAccount(request);
+        result = handleQuery(method, path, query, body);
+      } else if (kind === 'export') {
+        requireServiceAccount(request);
+        return handleExport(path, query);
+      } else if (kind === 'ingestion') {
+        result = handleIngestion(request, method, path, query, body);
+      } else {
+        result = handleApp(request, method, path, query, body);
+      }
+
+      return result instanceof Response ? result : json(result);
+    } catch (error) {
+      if (error instanceof FakeHttpError) {
+        return json({ error: error.message, status: 0 }, error.status);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    baseUrl,
+    credentials,
+    fetch: async (input, init) => handle(new Request(input, init)),
+    requests,
+    ingested,
+    profiles,
+    groups,
+    failNext: (failure) => failures.push({ ...failure }),
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Fake Mixpanel Fixtures
+ *
+ * Deterministic sample data for the in-process fake Mixpanel: a small
+ * e-commerce project whose daily counts depend only on the event and the
+ * date, so the same query always returns the same numbers.
+ */
+
+// =============================================================================
+// Sample Project
+// =============================================================================
+
+export const SAMPLE_EVENTS = ['Sign Up', 'Login', 'View Item', 'Add To Cart', 'Purchase'];
+
+/** Typical daily volume per event */
+const BASE_DAILY_COUNTS: Record<string, number> = {
+  'Sign Up': 120,
+  Login: 900,
+  'View Item': 2400,
+  'Add To Cart': 640,
+  Purchase: 210,
+};
+
+export const SAMPLE_PROPERTIES: Record<string, string[]> = {
+  $browser: ['Chrome', 'Safari', 'Firefox', 'Edge'],
+  $city: ['San Francisco', 'New York', 'London', 'Berlin', 'Tokyo'],
+  mp_country_code: ['US', 'GB', 'DE', 'JP'],
+  plan: ['free', 'pro', 'enterprise'],
+};
+
+export const SAMPLE_FUNNELS = [
+  { funnel_id: 7001, name: 'Signup to Purchase', steps: ['Sign Up', 'View Item', 'Purchase'] },
+  {
+    funnel_id: 7002,
+    name: 'Cart Checkout',
+    steps: ['Add To Cart', 'Purchase'],
+    /** Step filters, by step index, as Mixpanel reports them */
+    selectors: { 1: 'properties["plan"] == "pro"' } as Record<number, string>,
+  },
+];
+
+export const SAMPLE_COHORTS = [
+  { id: 5101, name: 'Power Users', description: 'Logged in 5+ days last week', count: 842 },
+  { id: 5102, name: 'Recent Purchasers', description: 'Purchased in the last 30 days', count: 1312 },
+  { id: 5103, name: 'Churn Risk', description: 'No login in 14 days', count: 477 },
+];
+
+/** Share of sample users in each cohort */
+const COHORT_SHARES: Record<number, number> = { 5101: 0.3, 5102: 0.45, 5103: 0.15 };
+
+export const SAMPLE_USER_COUNT = 50;
+
+// =============================================================================
+// Deterministic Randomness
+// =============================================================================
+
+/**
+ * FNV-1a hash of a string, as a float in [0, 1). A final avalanche step
+ * (from MurmurHash3) keeps seeds that differ only in their last characters,
+ * such as sequential distinct IDs, uncorrelated.
+ */
+export function seededRandom(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 2 ** 32;
+}
+
+function pick<T>(values: T[], seed: string): T {
+  return values[Math.floor(seededRandom(seed) * values.length)];
+}
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest range the fake will expand into daily points */
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Every date from `fromDate` to `toDate` inclusive (yyyy-mm-dd)
+ */
+export function dateRange(fromDate: string, toDate: string): string[] {
+  const start = Date.parse(`${fromDate}T00:00:00Z`);
+  const end = Date.parse(`${toDate}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end)) return [];
+
+  const dates: string[] = [];
+  for (let t = start; t <= end && dates.length < MAX_RANGE_DAYS; t += DAY_MS) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+// =============================================================================
+// Counts
+// =============================================================================
+
+/**
+ * Daily count for an event, with a weekly cycle (weekends are quieter) and
+ * +/-15% noise. Events outside the sample project get a small volume.
+ */
+export function dailyCount(event: string, date: string, segment = ''): number {
+  const base = BASE_DAILY_COUNTS[event] ?? 50;
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const weekly = weekday === 0 || weekday === 6 ? 0.7 : 1.1;
+  const noise = 0.85 + seededRandom(`${event}|${date}|${segment}`) * 0.3;
+  const share = segment ? 0.15 + seededRandom(`${event}|${segment}`) * 0.35 : 1;
+  return Math.round(base * weekly * noise * share);
+}
+
+// =============================================================================
+// Raw Events and Profiles
+// =============================================================================
+
+export interface FixtureEvent {
+  event: string;
+  properties: Record<string, unknown>;
+}
+
+export function sampleDistinctId(index: number): string {
+  return `user-${String(index).padStart(4, '0')}`;
+}
+
+/**
+ * Raw events for one day, in ascending time order. Volume is scaled down
+ * from dailyCount so exports stay small.
+ */
+export function sampleEventsForDate(date: string): FixtureEvent[] {
+  const dayStart = Date.parse(`${date}T00:00:00Z`) / 1000;
+  const events: FixtureEvent[] = [];
+
+  for (const name of SAMPLE_EVENTS) {
+    const count = Math.max(1, Math.round(dailyCount(name, date) / 100));
+    for (let i = 0; i < count; i++) {
+      const seed = `${name}|${date}|${i}`;
+      const user = Math.floor(seededRandom(`${seed}|user`) * SAMPLE_USER_COUNT);
+      const properties: Record<string, unknown> = {
+        time: dayStart + Math.floor(seededRandom(`${seed}|time`) * 86400),
+        distinct_id: sampleDistinctId(user),
+        $insert_id: `fx${Math.floor(seededRandom(`${seed}|id`) * 2 ** 32).toString(16)}${i}`,
+      };
+      for (const [property, values] of Object.entries(SAMPLE_PROPERTIES)) {
+        properties[property] = pick(values, `${seed}|${property}`);
+      }
+      if (name === 'Purchase') {
+        properties.amount = Math.round(seededRandom(`${seed}|amount`) * 20000) / 100;
+      }
+      events.push({ event: name, properties });
+    }
+  }
+
+  return events.sort((a, b) => (a.properties.time as number) - (b.properties.time as number));
+}
+
+export function sampleProfile(index: number): {
+  $distinct_id: string;
+  $properties: Record<string, unknown>;
+} {
+  const distinctId = sampleDistinctId(index);
+  return {
+    $distinct_id: distinctId,
+    $properties: {
+      $name: `Sample User ${index}`,
+      $email: `${distinctId}@example.com`,
+      $city: pick(SAMPLE_PROPERTIES.$city, `${distinctId}|city`),
+      plan: pick(SAMPLE_PROPERTIES.plan, `${distinctId}|plan`),
+      $last_seen: '2024-01-31T12:00:00',
+    },
+  };
+}
+
+/**
+ * Whether a user belongs to a sample cohort, optionally as of a date
+ * (yyyy-mm-dd). Membership drifts by up to +/-10% from day to day.
+ */
+export function isCohortMember(cohortId: number, distinctId: string, asOfDate?: string): boolean {
+  const share = COHORT_SHARES[cohortId] ?? 0;
+  const drift = asOfDate ? 0.9 + seededRandom(`${cohortId}|${asOfDate}`) * 0.2 : 1;
+  return seededRandom(`${cohortId}|${distinctId}`) < share * drift;
+}
@@ -0,0 +1,10 @@
+/**
+ * Mock Index
+ *
+ * Re-exports the in-process fake Mixpanel, its sample data and fixture
+ * record/replay.
+ */
+
+export * from './fake-mixpanel.js';
+export * from './fixtures.js';
+export * from './recording.js';
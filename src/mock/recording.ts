@@ -0,0 +1,492 @@
+/**
+ * Recorded Fixtures
+ *
+ * Record/replay for Mixpanel HTTP traffic. A fixture recorder wraps the
+ * server context's fetch and captures every request/response pair the client
+ * makes; a fixture replay serves those pairs back, in order, without network
+ * access.
+ *
+ * Traffic is scrubbed as it is recorded: service account credentials and
+ * project tokens become placeholders, the project ID is replaced, Mixpanel's
+ * contact properties and the values of custom event and profile properties
+ * are redacted, and distinct IDs become stable salted pseudonyms.
+ * Replay scrubs incoming requests the same way before matching, so a fixture
+ * file replays under any credentials. Free-form text such as `where`
+ * expressions and JQL scripts is only checked for the credentials themselves.
+ */
+
+import { type ApiKind, describeApiUrl } from '../client.js';
+import type { TenantCredentials } from '../types/env.js';
+import { ValidationError } from '../utils/errors.js';
+import { sha256Hex, stableStringify } from '../utils/hashing.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const FIXTURE_FILE_VERSION = 1;
+
+export interface RecordedRequest {
+  method: string;
+  /** API the request targeted (absent for non-Mixpanel URLs) */
+  kind?: ApiKind;
+  /** Path below the API's base URL, e.g. /segmentation */
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON body, or the raw text for other content types */
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  /** Content-Type and Retry-After, when present */
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface FixtureEntry {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface FixtureFile {
+  version: number;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+export interface ScrubberOptions {
+  /** Credentials of the recorded (or replaying) tenant */
+  credentials: TenantCredentials;
+
+  /**
+   * Salt for distinct ID pseudonyms (required to record). Recording and
+   * replay must use the same salt for requests naming a distinct ID to match.
+   */
+  salt?: string;
+}
+
+// =============================================================================
+// Scrubbing
+// =============================================================================
+
+const SCRUBBED_USERNAME = 'SCRUBBED_USERNAME';
+const SCRUBBED_SECRET = 'SCRUBBED_SECRET';
+const SCRUBBED_PROJECT_ID = 'SCRUBBED_PROJECT_ID';
+const SCRUBBED_PROJECT_TOKEN = 'SCRUBBED_PROJECT_TOKEN';
+const REDACTED = 'REDACTED';
+
+/** Keys whose values are distinct IDs (strings or arrays of strings) */
+const DISTINCT_ID_KEYS = new Set([
+  'distinct_id',
+  'distinct_ids',
+  '$distinct_id',
+  '$distinct_ids',
+  '$device_id',
+  '$user_id',
+  '$identified_id',
+  '$anon_id',
+  'alias',
+]);
+
+const TOKEN_KEYS = new Set(['token', '$token']);
+
+/** Mixpanel's reserved contact and name properties */
+const REDACTED_KEYS = new Set([
+  '$email',
+  '$phone',
+  '$ip',
+  'ip',
+  '$name',
+  '$first_name',
+  '$last_name',
+]);
+
+/**
+ * Keys holding event or profile property maps. Custom properties in them
+ * can hold anything, so their values are redacted.
+ */
+const PROPERTY_MAP_KEYS = new Set([
+  'properties',
+  '$properties',
+  '$set',
+  '$set_once',
+  '$append',
+  '$union',
+  '$remove',
+]);
+
+const PSEUDONYM_PATTERN = /^anon-[0-9a-f]{12}$/;
+
+/** Response headers worth keeping */
+const RECORDED_HEADERS = ['Content-Type', 'Retry-After'];
+
+class Scrubber {
+  private pseudonyms = new Map<string, Promise<string>>();
+  private secrets: Array<[string, string]>;
+
+  constructor(private options: ScrubberOptions) {
+    const { username, secret, projectToken } = options.credentials;
+    this.secrets = (
+      [
+        [username, SCRUBBED_USERNAME],
+        [secret, SCRUBBED_SECRET],
+        [projectToken, SCRUBBED_PROJECT_TOKEN],
+      ] as Array<[string | undefined, string]>
+    ).filter((pair): pair is [string, string] => !!pair[0]);
+  }
+
+  async request(request: Request): Promise<RecordedRequest> {
+    const url = new URL(request.url);
+    const route = describeApiUrl(request.url);
+
+    const query: Record<string, string> = {};
+    for (const key of [...url.searchParams.keys()].sort()) {
+      query[key] = await this.queryValue(key, url.searchParams.get(key) ?? '');
+    }
+
+    const text = await readRequestText(request);
+    let body: unknown;
+    if (text) {
+      const parsed = parseJson(text);
+      body = parsed === undefined ? this.text(text) : await this.value(parsed);
+    }
+
+    return {
+      method: request.method.toUpperCase(),
+      ...(route && { kind: route.kind }),
+      path: this.path(route?.path ?? url.pathname),
+      query,
+      ...(body !== undefined && { body }),
+    };
+  }
+
+  async response(response: Response): Promise<RecordedResponse> {
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) headers[name] = value;
+    }
+
+    return { status: response.status, headers, body: await this.body(await response.text()) };
+  }
+
+  /**
+   * Scrub a JSON or NDJSON document; other text only has credentials removed
+   */
+  private async body(text: string): Promise<string> {
+    const parsed = parseJson(text);
+    if (parsed !== undefined) return JSON.stringify(await this.value(parsed));
+
+    const lines = text.split('\n');
+    const records = lines.map((line) => (line.trim() ? parseJson(line) : null));
+    if (records.some((record) => record === undefined)) return this.text(text);
+
+    const scrubbed = await Promise.all(
+      records.map(async (record, i) =>
+        record === null ? lines[i] : JSON.stringify(await this.value(record))
+      )
+    );
+    return scrubbed.join('\n');
+  }
+
+  /**
+   * Scrub a parsed JSON value; `custom` marks values of a custom property,
+   * whose strings are all redacted
+   */
+  private async value(value: unknown, key = '', custom = false): Promise<unknown> {
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => this.value(item, key, custom)));
+    }
+    if (value && typeof value === 'object') {
+      const properties = PROPERTY_MAP_KEYS.has(key);
+      const entries = await Promise.all(
+        Object.entries(value).map(
+          async ([k, v]) =>
+            [k, await this.value(v, k, custom || (properties && isCustomProperty(k)))] as const
+        )
+      );
+      return Object.fromEntries(entries);
+    }
+
+    if (key === 'project_id') return SCRUBBED_PROJECT_ID;
+    if (typeof value !== 'string') return value;
+    if (DISTINCT_ID_KEYS.has(key)) return this.pseudonym(value);
+    if (TOKEN_KEYS.has(key)) return SCRUBBED_PROJECT_TOKEN;
+    if (custom || REDACTED_KEYS.has(key)) return REDACTED;
+    return this.text(value);
+  }
+
+  private async queryValue(key: string, value: string): Promise<string> {
+    if (key === 'project_id') return SCRUBBED_PROJECT_ID;
+    if (TOKEN_KEYS.has(key)) return SCRUBBED_PROJECT_TOKEN;
+    if (DISTINCT_ID_KEYS.has(key)) {
+      // distinct_ids is a JSON array of IDs
+      const parsed = parseJson(value);
+      return Array.isArray(parsed)
+        ? JSON.stringify(await this.value(parsed, key))
+        : this.pseudonym(value);
+    }
+    return this.text(value);
+  }
+
+  private path(path: string): string {
+    const projectId = this.options.credentials.projectId;
+    const scrubbed = projectId
+      ? path.replace(`/projects/${projectId}/`, `/projects/${SCRUBBED_PROJECT_ID}/`)
+      : path;
+    return this.text(scrubbed);
+  }
+
+  private text(value: string): string {
+    let text = value;
+    for (const [secret, placeholder] of this.secrets) {
+      text = text.split(secret).join(placeholder);
+    }
+    return text;
+  }
+
+  /**
+   * Stable pseudonym for a distinct ID. Pseudonyms map to themselves, so IDs
+   * read from a scrubbed response can be used in later requests.
+   */
+  private pseudonym(distinctId: string): Promise<string> {
+    if (!distinctId || PSEUDONYM_PATTERN.test(distinctId)) {
+      return Promise.resolve(distinctId);
+    }
+
+    let pseudonym = this.pseudonyms.get(distinctId);
+    if (!pseudonym) {
+      pseudonym = sha256Hex(`${this.options.salt ?? ''}:${distinctId}`).then(
+        (hash) => `anon-${hash.slice(0, 12)}`
+      );
+      this.pseudonyms.set(distinctId, pseudonym);
+    }
+    return pseudonym;
+  }
+}
+
+/**
+ * Whether a property is the project's own rather than one Mixpanel defines
+ * ($-prefixed, mp_-prefixed, distinct IDs, the token and the event time)
+ */
+function isCustomProperty(key: string): boolean {
+  return (
+    !key.startsWith('$') &&
+    !key.startsWith('mp_') &&
+    !DISTINCT_ID_KEYS.has(key) &&
+    !TOKEN_KEYS.has(key) &&
+    key !== 'time'
+  );
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+async function readRequestText(request: Request): Promise<string> {
+  if (!request.body) return '';
+
+  const stream =
+    request.headers.get('Content-Encoding') === 'gzip'
+      ? request.body.pipeThrough(new DecompressionStream('gzip'))
+      : request.body;
+  return new Response(stream).text();
+}
+
+/** Keys the client fills in per call, ignored when matching replayed requests */
+const VOLATILE_KEYS = new Set(['time', '$time', '$insert_id']);
+
+function withoutVolatileKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutVolatileKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !VOLATILE_KEYS.has(key))
+        .map(([key, v]) => [key, withoutVolatileKeys(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Key two requests share when one is a replay of the other
+ */
+function requestKey(request: RecordedRequest): string {
+  return stableStringify([
+    request.method,
+    request.kind ?? null,
+    request.path,
+    request.query,
+    withoutVolatileKeys(request.body ?? null),
+  ]);
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+export interface FixtureRecorder {
+  /** Fetch that records every exchange, for the server context */
+  fetch: typeof fetch;
+
+  /** Wait for in-flight exchanges and return everything recorded so far */
+  finish(): Promise<FixtureFile>;
+}
+
+/**
+ * Record the traffic sent through `inner`.
+ *
+ * Responses are returned to the caller unchanged (the recorded copy is
+ * scrubbed separately), but each one is read in full for the recording, so
+ * streamed exports are buffered while recording. Recording requires a salt:
+ * unsalted pseudonyms of guessable distinct IDs could be reversed.
+ */
+export function createFixtureRecorder(
+  inner: typeof fetch,
+  options: ScrubberOptions
+): FixtureRecorder {
+  if (!options.salt) {
+    throw new ValidationError('Recording requires a pseudonym salt', {
+      salt: ['Set the FIXTURE_SCRUB_SALT secret'],
+    });
+  }
+
+  const scrubber = new Scrubber(options);
+  const recordedAt = new Date().toISOString();
+  const entries: Array<Promise<FixtureEntry>> = [];
+
+  return {
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const recordedRequest = scrubber.request(request.clone());
+
+      const response = await inner(request);
+      entries.push(
+        Promise.all([recordedRequest, scrubber.response(response.clone())]).then(
+          ([request, response]) => ({ request, response })
+        )
+      );
+      return response;
+    },
+
+    finish: async () => ({
+      version: FIXTURE_FILE_VERSION,
+      recordedAt,
+      entries: await Promise.all(entries),
+    }),
+  };
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+export interface FixtureReplayOptions extends ScrubberOptions {
+  /** Serves requests with no recorded response (default: a 404 response) */
+  fallback?: typeof fetch;
+}
+
+export interface FixtureReplay {
+  /** Fetch that answers from the fixture file, for the server context */
+  fetch: typeof fetch;
+
+  /** Requests that had no recorded response */
+  misses: RecordedRequest[];
+}
+
+/**
+ * Replay a fixture file. Identical requests are answered with their
+ * recorded responses in order, and the last one repeats once they run out.
+ */
+export function createFixtureReplay(
+  file: FixtureFile,
+  options: FixtureReplayOptions
+): FixtureReplay {
+  const scrubber = new Scrubber(options);
+  const misses: RecordedRequest[] = [];
+
+  const recorded = new Map<string, { responses: RecordedResponse[]; served: number }>();
+  for (const entry of file.entries) {
+    const key = requestKey(entry.request);
+    const slot = recorded.get(key) ?? { responses: [], served: 0 };
+    slot.responses.push(entry.response);
+    recorded.set(key, slot);
+  }
+
+  return {
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const replayed = await scrubber.request(request.clone());
+
+      const slot = recorded.get(requestKey(replayed));
+      if (!slot) {
+        misses.push(replayed);
+        if (options.fallback) return options.fallback(request);
+
+        const api = replayed.kind ? ` (${replayed.kind} API)` : '';
+        const target = `${replayed.method} ${replayed.path}${api}`;
+        return new Response(JSON.stringify({ error: `No recorded response for ${target}` }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const response = slot.responses[Math.min(slot.served, slot.responses.length - 1)];
+      slot.served++;
+
+      const empty = response.status === 204 || response.status === 304;
+      return new Response(empty ? null : response.body, {
+        status: response.status,
+        headers: response.headers,
+      });
+    },
+    misses,
+  };
+}
+
+// =============================================================================
+// Fixture Files
+// =============================================================================
+
+/**
+ * Parse a fixture file, rejecting files written by another format version
+ */
+export function parseFixtureFile(text: string): FixtureFile {
+  const file = parseJson(text) as Partial<FixtureFile> | undefined;
+  if (!file || !Array.isArray(file.entries)) {
+    throw new ValidationError('Invalid fixture file', { entries: ['Expected an array'] });
+  }
+  if (file.version !== FIXTURE_FILE_VERSION) {
+    throw new ValidationError('Unsupported fixture file version', {
+      version: [`Expected ${FIXTURE_FILE_VERSION}, got ${String(file.version)}`],
+    });
+  }
+  return file as FixtureFile;
+}
+
+/**
+ * Load a fixture file stored in KV, if there is one
+ */
+export async function loadFixtureFile(
+  kv: KVNamespace,
+  key: string
+): Promise<FixtureFile | undefined> {
+  const text = await kv.get(key);
+  return text === null ? undefined : parseFixtureFile(text);
+}
+
+/**
+ * Store a fixture file in KV
+ */
+export async function saveFixtureFile(
+  kv: KVNamespace,
+  key: string,
+  file: FixtureFile
+): Promise<void> {
+  await kv.put(key, JSON.stringify(file, null, 2));
+}
@@ -0,0 +1,7 @@
+/**
+ * Prompts Index
+ *
+ * Re-exports all prompt registration functions.
+ */
+
+export { registerWorkflowPrompts } from './workflows.js';
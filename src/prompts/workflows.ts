@@ -0,0 +1,282 @@
+/**
+ * Workflow Prompts
+ *
+ * MCP prompts for recurring analyses. Each prompt fills in its arguments
+ * and returns instructions that walk the model through the existing tools
+ * in order, so the same review runs the same way every time. Event and
+ * funnel arguments complete from the project's metadata.
+ */
+
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { MixpanelClient } from '../client.js';
+import { createCompleters } from '../utils/completions.js';
+
+const DAY_MS = 86_400_000;
+
+/** Date arguments, which prompts receive as strings */
+const dateArgument = (description: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+    .optional()
+    .describe(description);
+
+/** Comma-separated list argument, trimmed and without empty entries */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** YYYY-MM-DD, `days` after `date` (or after yesterday, UTC) */
+function shiftDate(date: string | undefined, days: number): string {
+  const base = date ? Date.parse(`${date}T00:00:00Z`) : Date.now() - DAY_MS;
+  return new Date(base + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The range of `days` days ending at `toDate` (default: yesterday)
+ */
+function dateRange(fromDate: string | undefined, toDate: string | undefined, days: number) {
+  const to = toDate ?? shiftDate(undefined, 0);
+  return { fromDate: fromDate ?? shiftDate(to, 1 - days), toDate: to };
+}
+
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/**
+ * Register all workflow prompts
+ */
+export function registerWorkflowPrompts(server: McpServer, client: MixpanelClient): void {
+  const completers = createCompleters(client);
+
+  // ===========================================================================
+  // Weekly Metrics Review
+  // ===========================================================================
+  server.registerPrompt(
+    'mixpanel_weekly_metrics_review',
+    {
+      title: 'Weekly metrics review',
+      description: 'Review key events for a week against the week before, with anomalies explained',
+      argsSchema: {
+        events: completable(
+          z.string().optional().describe('Comma-separated event names (default: the top five events)'),
+          completers.eventNameList
+        ),
+        weekEnding: dateArgument('Last day of the week, YYYY-MM-DD (default: yesterday)'),
+      },
+    },
+    ({ events, weekEnding }) => {
+      const { fromDate, toDate } = dateRange(undefined, weekEnding, 7);
+      const names = splitList(events);
+      const history = shiftDate(toDate, -27);
+      const pickEvents = names.length
+        ? `The events to review are: ${names.map((name) => `"${name}"`).join(', ')}.`
+        : 'Call mixpanel_get_top_events (type: general, limit: 5) and review those five events.';
+
+      return userMessage(`Run a weekly metrics review for ${fromDate} to ${toDate}.
+
+1. ${pickEvents}
+2. Call mixpanel_query_events with the events, fromDate: "${fromDate}", toDate: "${toDate}",
+   type: general, unit: day and compareTo: previous_period. Repeat with type: unique for
+   active users.
+3. For each event, call mixpanel_detect_anomalies with fromDate: "${history}" and
+   toDate: "${toDate}" (four weeks, so the weekday pattern is modelled), and keep the
+   anomalies that fall in the review week.
+4. Call mixpanel_list_annotations for the review week to find releases or campaigns.
+
+Report a table of each event's weekly total, the previous week's total and the percent
+change, then one line per notable change or anomaly with its likely cause (cite annotations
+when they match). Flag changes beyond 10% either way, and say plainly when nothing stands out.`);
+    }
+  );
+
+  // ===========================================================================
+  // Funnel Drop-off Investigation
+  // ===========================================================================
+  server.registerPrompt(
+    'mixpanel_funnel_dropoff_investigation',
+    {
+      title: 'Funnel drop-off investigation',
+      description: 'Find where users leave a funnel, how long they take and which segments stop',
+      argsSchema: {
+        funnelId: completable(
+          z.string().optional().describe('Saved funnel ID (or give steps)'),
+          completers.funnelId
+        ),
+        steps: completable(
+          z.string().optional().describe('Comma-separated step events, for an ad-hoc funnel'),
+          completers.eventNameList
+        ),
+        fromDate: dateArgument('Start date, YYYY-MM-DD (default: 30 days before toDate)'),
+        toDate: dateArgument('End date, YYYY-MM-DD (default: yesterday)'),
+      },
+    },
+    ({ funnelId, steps, fromDate: from, toDate: to }) => {
+      const { fromDate, toDate } = dateRange(from, to, 30);
+      const days = Math.round((Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS) + 1;
+      const stepNames = splitList(steps);
+
+      let funnel: string;
+      if (funnelId) {
+        funnel =
+          `Call mixpanel_get_funnel with funnelId: ${funnelId}, fromDate: "${fromDate}", ` +
+          `toDate: "${toDate}" and analyze: true.`;
+      } else if (stepNames.length >= 2) {
+        const stepList = stepNames.map((name) => `{ "event": "${name}" }`).join(', ');
+        funnel =
+          `Call mixpanel_build_funnel with steps: [${stepList}], fromDate: "${fromDate}", ` +
+          `toDate: "${toDate}" and analyze: true.`;
+      } else {
+        funnel =
+          'Call mixpanel_list_funnels and ask which funnel to investigate (or which events form ' +
+          `its steps), then run it for ${fromDate} to ${toDate} with analyze: true ` +
+          '(mixpanel_get_funnel for a saved funnel, mixpanel_build_funnel for steps).';
+      }
+
+      return userMessage(`Investigate drop-off in a funnel from ${fromDate} to ${toDate}.
+
+1. ${funnel}
+2. Find the step with the largest drop-off and the slowest transition (median and p90
+   times in the analysis).
+3. Re-run the steps with mixpanel_build_funnel, with breakdown set to each property among
+   the top drop-off drivers, to confirm which segments convert worse.
+4. Run the funnel for ${shiftDate(fromDate, -days)} to ${shiftDate(fromDate, -1)} (the
+   previous ${days} days) to tell whether the drop-off is new.
+
+Report overall conversion, the worst step and its drop rate, the segments most associated
+with dropping (with their lift over the step's average) and two or three concrete
+hypotheses to test. Say when a driver rests on fewer than 50 users.`);
+    }
+  );
+
+  // ===========================================================================
+  // Retention Health Check
+  // ===========================================================================
+  server.registerPrompt(
+    'mixpanel_retention_health_check',
+    {
+      title: 'Retention health check',
+      description: 'Check whether new users keep coming back, and how often',
+      argsSchema: {
+        bornEvent: completable(
+          z.string().describe('Event that starts a user cohort (e.g., Sign Up)'),
+          completers.eventName
+        ),
+        returnEvent: completable(
+          z.string().optional().describe('Event that counts as a return (default: any event)'),
+          completers.eventName
+        ),
+        fromDate: dateArgument('First cohort date, YYYY-MM-DD (default: 8 weeks before toDate)'),
+        toDate: dateArgument('Last cohort date, YYYY-MM-DD (default: yesterday)'),
+      },
+    },
+    ({ bornEvent, returnEvent, fromDate: from, toDate: to }) => {
+      const { fromDate, toDate } = dateRange(from, to, 56);
+      const returning = returnEvent ? `event: "${returnEvent}"` : 'no event (any event is a return)';
+      const frequencyEvent = returnEvent ?? bornEvent;
+
+      return userMessage(`Run a retention health check for users who did "${bornEvent}" \
+between ${fromDate} and ${toDate}.
+
+1. Call mixpanel_get_retention with bornEvent: "${bornEvent}", ${returning},
+   fromDate: "${fromDate}", toDate: "${toDate}", unit: week and retentionType: birth.
+2. Call mixpanel_get_frequency with event: "${frequencyEvent}", fromDate: "${fromDate}" and
+   toDate: "${toDate}" to see how many days a week returning users are active.
+3. Call mixpanel_query_events for "${bornEvent}" over the same range (unit: week) to check
+   whether cohort sizes changed.
+
+Report retention in week 1, week 4 and the latest complete week, whether recent cohorts
+retain better or worse than earlier ones, and where the retention curve flattens. Call out
+cohorts much smaller than the rest, since their rates are noisy.`);
+    }
+  );
+
+  // ===========================================================================
+  // Tracking Plan Audit
+  // ===========================================================================
+  server.registerPrompt(
+    'mixpanel_tracking_plan_audit',
+    {
+      title: 'Tracking plan audit',
+      description: 'Compare what is tracked with the Lexicon schemas and find gaps',
+      argsSchema: {
+        events: completable(
+          z
+            .string()
+            .optional()
+            .describe('Comma-separated event names to audit (default: all tracked events)'),
+          completers.eventNameList
+        ),
+      },
+    },
+    ({ events }) => {
+      const names = splitList(events);
+      const scope = names.length
+        ? `Audit these events: ${names.map((name) => `"${name}"`).join(', ')}.`
+        : 'Call mixpanel_get_event_names (type: general) and audit every tracked event.';
+
+      return userMessage(`Audit the project's tracking plan.
+
+1. ${scope}
+2. Call mixpanel_list_schemas with entityType: event to read the documented events and
+   their properties.
+3. For each audited event, call mixpanel_get_event_properties, then
+   mixpanel_get_top_property_values for properties whose values may be inconsistent
+   (mixed casing, typos, several spellings of one value).
+
+Report events tracked but not documented, documented events no longer tracked, properties
+sent but not documented (and the reverse), names that break the project's naming
+convention, and inconsistent property values. End with a prioritized list of fixes. Do not
+create or change schemas unless asked.`);
+    }
+  );
+
+  // ===========================================================================
+  // GDPR Request Handling
+  // ===========================================================================
+  server.registerPrompt(
+    'mixpanel_gdpr_request',
+    {
+      title: 'GDPR request',
+      description: "Handle a data subject's request to access or delete their data",
+      argsSchema: {
+        requestType: z.enum(['retrieval', 'deletion']).describe('retrieval (access) or deletion'),
+        distinctIds: z.string().describe('Comma-separated distinct IDs of the data subject'),
+        completionEmail: z
+          .string()
+          .optional()
+          .describe('Email notified when a retrieval completes'),
+      },
+    },
+    ({ requestType, distinctIds, completionEmail }) => {
+      const ids = splitList(distinctIds);
+      const idList = `[${ids.map((id) => `"${id}"`).join(', ')}]`;
+      const create =
+        requestType === 'retrieval'
+          ? `Call mixpanel_create_data_retrieval with distinctIds: ${idList}${
+              completionEmail ? `, completionEmail: "${completionEmail}"` : ''
+            }, then check progress with mixpanel_get_data_retrieval_status.`
+          : 'Show the user the IDs and profiles found and get explicit confirmation, since ' +
+            `deletion cannot be undone. Then call mixpanel_create_data_deletion with distinctIds: ${idList} ` +
+            'and check progress with mixpanel_get_data_deletion_status.';
+
+      return userMessage(`Handle a GDPR data ${requestType} request for ${ids.length} \
+distinct ID(s): ${ids.join(', ')}.
+
+1. Call mixpanel_get_profile for each ID to confirm it exists, and note other IDs in its
+   properties that may belong to the same person (ask before including them).
+2. ${create}
+3. Record the request ID and status for the compliance log.
+
+Report each request ID, its status and what happens next. Do not show the subject's profile
+properties beyond what is needed to confirm identity.`);
+    }
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Resources Index
+ *
+ * Re-exports all resource registration functions.
+ */
+
+export { registerMetadataResources } from './metadata.js';
@@ -0,0 +1,210 @@
+/**
+ * Project Metadata Resources
+ *
+ * MCP resources describing the project (event names and properties,
+ * cohorts, funnels and Lexicon schemas), so clients can load them as
+ * context instead of calling the list tools at the start of a conversation.
+ * Template variables complete from the same metadata.
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { MixpanelClient, SchemaEntity } from '../client.js';
+import { SCHEMA_ENTITY_TYPES, createCompleters } from '../utils/completions.js';
+import { ValidationError } from '../utils/errors.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Serialize a read result as a single JSON document
+ */
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+/**
+ * A single (unexploded) template variable, decoded
+ */
+function variable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+function schemaEntityType(value: string): SchemaEntity['entityType'] {
+  const entityType = SCHEMA_ENTITY_TYPES.find((type) => type === value);
+  if (!entityType) {
+    throw new ValidationError('Invalid schema entity type', {
+      type: [`Expected one of: ${SCHEMA_ENTITY_TYPES.join(', ')}`],
+    });
+  }
+  return entityType;
+}
+
+/**
+ * Register the project metadata resources
+ */
+export function registerMetadataResources(server: McpServer, client: MixpanelClient): void {
+  const completers = createCompleters(client);
+
+  // Hints on an empty read (such as a misspelled event) go in the document
+  const withHints = <T extends object>(data: T) => {
+    const hints = client.takeHints();
+    return hints.length ? { ...data, hints } : data;
+  };
+  const listEventNames = () => client.getEventNames({ type: 'general' });
+
+  const listAllSchemas = async () =>
+    (await Promise.all(SCHEMA_ENTITY_TYPES.map((type) => client.listSchemas(type)))).flat();
+
+  // ===========================================================================
+  // Events
+  // ===========================================================================
+  server.registerResource(
+    'events',
+    'mixpanel://events',
+    {
+      title: 'Event names',
+      description: 'Names of the events tracked in the project',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri) => jsonContents(uri, await listEventNames())
+  );
+
+  server.registerResource(
+    'event-properties',
+    new ResourceTemplate('mixpanel://events/{name}/properties', {
+      list: async () => ({
+        resources: (await listEventNames()).map((name) => ({
+          uri: `mixpanel://events/${encodeURIComponent(name)}/properties`,
+          name: `${name} properties`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: { name: completers.eventName },
+    }),
+    {
+      title: 'Event properties',
+      description: 'Property names seen on an event',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const name = variable(variables, 'name');
+      const properties = await client.getEventProperties(name);
+      return jsonContents(uri, withHints({ event: name, properties }));
+    }
+  );
+
+  server.registerResource(
+    'property-values',
+    new ResourceTemplate('mixpanel://events/{name}/properties/{property}', {
+      list: undefined,
+      complete: { name: completers.eventName, property: completers.propertyName('name') },
+    }),
+    {
+      title: 'Property values',
+      description: 'Values seen for an event property',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const event = variable(variables, 'name');
+      const property = variable(variables, 'property');
+      const values = await client.getPropertyValues(event, property);
+      return jsonContents(uri, withHints({ event, property, values }));
+    }
+  );
+
+  // ===========================================================================
+  // Cohorts
+  // ===========================================================================
+  server.registerResource(
+    'cohorts',
+    'mixpanel://cohorts',
+    {
+      title: 'Cohorts',
+      description: 'Saved cohorts with their IDs, names and sizes',
+      mimeType: JSON_MIME_TYPE,
+    },
+    // Reads skip the response cache, which can be an hour behind the project
+    async (uri) => jsonContents(uri, await client.listCohorts({ bypassCache: true }))
+  );
+
+  server.registerResource(
+    'cohort',
+    new ResourceTemplate('mixpanel://cohorts/{id}', {
+      list: async () => ({
+        resources: (await client.listCohorts()).map((cohort) => ({
+          uri: `mixpanel://cohorts/${cohort.id}`,
+          name: cohort.name,
+          description: cohort.description,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: { id: completers.cohortId },
+    }),
+    {
+      title: 'Cohort',
+      description: 'A saved cohort and its metadata',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = Number(variable(variables, 'id'));
+      if (!Number.isInteger(id)) {
+        throw new ValidationError('Invalid cohort ID', { id: ['Cohort IDs are integers'] });
+      }
+      return jsonContents(uri, await client.getCohort(id, { bypassCache: true }));
+    }
+  );
+
+  // ===========================================================================
+  // Funnels
+  // ===========================================================================
+  server.registerResource(
+    'funnels',
+    'mixpanel://funnels',
+    {
+      title: 'Funnels',
+      description: 'Saved funnels with their IDs and names',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri) => jsonContents(uri, await client.listFunnels({ bypassCache: true }))
+  );
+
+  // ===========================================================================
+  // Schemas
+  // ===========================================================================
+  server.registerResource(
+    'schemas',
+    'mixpanel://schemas',
+    {
+      title: 'Lexicon schemas',
+      description: 'Schemas of every entity type defined in Lexicon',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri) => jsonContents(uri, await listAllSchemas())
+  );
+
+  server.registerResource(
+    'schema',
+    new ResourceTemplate('mixpanel://schemas/{type}/{name}', {
+      list: async () => ({
+        resources: (await listAllSchemas()).map((schema) => ({
+          uri: `mixpanel://schemas/${schema.entityType}/${encodeURIComponent(schema.name)}`,
+          name: `${schema.entityType} ${schema.name}`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: { type: completers.schemaEntityType, name: completers.schemaName('type') },
+    }),
+    {
+      title: 'Lexicon schema',
+      description: 'The Lexicon schema of one event, profile, group or lookup table',
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const entityType = schemaEntityType(variable(variables, 'type'));
+      return jsonContents(uri, await client.getSchema(entityType, variable(variables, 'name')));
+    }
+  );
+}
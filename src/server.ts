@@ -0,0 +1,122 @@
+/**
+ * MCP Server Assembly
+ *
+ * Builds the MCP server: every tool category, the metadata resources and the
+ * workflow prompts, registered against one tenant's client. Kept apart from
+ * the Worker entry point (index.ts) so it can be loaded outside the Workers
+ * runtime.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createMixpanelClient } from './client.js';
+import { registerWorkflowPrompts } from './prompts/index.js';
+import { registerMetadataResources } from './resources/index.js';
+import {
+  registerAnalyticsTools,
+  registerFunnelTools,
+  registerProfileTools,
+  registerEventTools,
+  registerGroupTools,
+  registerIdentityTools,
+  registerCohortTools,
+  registerManagementTools,
+  registerGDPRTools,
+  registerSessionTools,
+} from './tools/index.js';
+import { resultSchema } from './tools/schemas.js';
+import type { ServerContext } from './types/context.js';
+
+// =============================================================================
+// MCP Server Configuration
+// =============================================================================
+
+export const SERVER_NAME = 'primrose-mcp-mixpanel';
+export const SERVER_VERSION = '1.0.0';
+
+// =============================================================================
+// Tool Registration
+// =============================================================================
+
+/**
+ * Registers the full tool set, the metadata resources and the workflow
+ * prompts on a server. Shared by the stateless server and the stateful agent
+ * so both modes expose the same tools.
+ *
+ * @param server - MCP server to register tools on
+ * @param context - Server context with tenant credentials, env and limits
+ */
+export function registerServerTools(server: McpServer, context: ServerContext): void {
+  // Create client with tenant-specific credentials
+  const client = createMixpanelClient(context);
+
+  // Register all tool categories
+  registerAnalyticsTools(server, client, context);
+  registerFunnelTools(server, client, context);
+  registerProfileTools(server, client, context);
+  registerEventTools(server, client, context);
+  registerGroupTools(server, client, context);
+  registerIdentityTools(server, client, context);
+  registerCohortTools(server, client, context);
+  registerManagementTools(server, client, context);
+  registerGDPRTools(server, client, context);
+  registerSessionTools(server, client, context);
+
+  // Project metadata resources
+  registerMetadataResources(server, client);
+
+  // Workflow prompts
+  registerWorkflowPrompts(server, client);
+
+  // Test connection tool
+  server.registerTool(
+    'mixpanel_test_connection',
+    {
+      description: 'Test the connection to the Mixpanel API',
+      inputSchema: {},
+      outputSchema: resultSchema(z.object({ connected: z.boolean(), message: z.string() })),
+    },
+    async () => {
+      try {
+        const result = await client.testConnection();
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          structuredContent: { result },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Stateless MCP Server (Recommended - no Durable Objects needed)
+// =============================================================================
+
+/**
+ * Creates a stateless MCP server instance with tenant-specific credentials.
+ *
+ * MULTI-TENANT: Each request provides credentials via headers, allowing
+ * a single server deployment to serve multiple tenants.
+ *
+ * @param context - Server context with tenant credentials, env and limits
+ */
+export function createStatelessServer(context: ServerContext): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  registerServerTools(server, context);
+
+  return server;
+}
@@ -7,44 +7,147 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { annotateAnomalies, detectAnomalies } from '../utils/anomalies.js';
+import { type ForecastUnit, forecastSeries, isPartialBucket } from '../utils/forecasting.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import {
+  annotationSchema,
+  anomalyPointSchema,
+  eventSeriesSchema,
+  forecastModelSchema,
+  forecastPointSchema,
+  insightsResultSchema,
+  resultSchema,
+  segmentationResultSchema,
+  topEventSchema,
+  whereSchema,
+} from './schemas.js';
+
+/**
+ * Whether a series' last bucket is still filling up (the range reaches the
+ * current bucket)
+ */
+function endsInPartialBucket(points: Record<string, number>, unit: ForecastUnit): boolean {
+  const last = Object.keys(points).sort().pop();
+  return last !== undefined && isPartialBucket(last, unit);
+}
+
+/**
+ * Period-over-period option shared by the time-series tools
+ */
+const compareToSchema = z
+  .union([
+    z.enum(['previous_period', 'previous_year']),
+    z.object({
+      fromDate: z.string().describe('Comparison start date (YYYY-MM-DD)'),
+      toDate: z.string().describe('Comparison end date (YYYY-MM-DD)'),
+    }),
+  ])
+  .optional()
+  .describe('Period to compare against');
+
+const anomalyReportSchema = z.object({
+  event: z.string(),
+  unit: z.enum(['hour', 'day', 'week', 'month']),
+  threshold: z.number(),
+  series: z.array(
+    z.object({
+      name: z.string(),
+      points: z.number(),
+      period: z.number(),
+      anomalies: z.array(anomalyPointSchema.extend({ annotations: z.array(annotationSchema) })),
+      partialBucket: z.object({ date: z.string(), value: z.number() }).optional(),
+    })
+  ),
+});
+
+const forecastReportSchema = z.object({
+  event: z.string(),
+  unit: z.enum(['hour', 'day', 'week', 'month']),
+  horizon: z.number(),
+  confidence: z.number(),
+  series: z.array(
+    z.object({
+      name: z.string(),
+      model: forecastModelSchema,
+      points: z.array(forecastPointSchema),
+      partialBucket: z.object({ date: z.string(), value: z.number() }).optional(),
+    })
+  ),
+});
+
+/** Season length used for anomaly detection and forecasting, per time unit */
+const SEASON_PERIODS = { hour: 24, day: 7, week: 1, month: 1 };
+
+/** Default robust z-score threshold for anomalies */
+const ANOMALY_DEFAULT_THRESHOLD = 3.5;
+
+/** Default forecast length, in buckets */
+const FORECAST_DEFAULT_HORIZON = 14;
+
+/** Longest forecast, in buckets */
+const FORECAST_MAX_HORIZON = 90;
+
+/** Default prediction interval coverage */
+const FORECAST_DEFAULT_CONFIDENCE = 0.8;
 
 /**
  * Register all analytics-related tools
  */
-export function registerAnalyticsTools(server: McpServer, client: MixpanelClient): void {
+export function registerAnalyticsTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
   // ===========================================================================
   // Query Insights
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_insights',
-    `Query event analytics from Mixpanel (counts, trends, breakdowns).
+    {
+      description: `Query event analytics from Mixpanel (counts, trends, breakdowns).
 
 Args:
   - fromDate: Start date (YYYY-MM-DD)
   - toDate: End date (YYYY-MM-DD)
   - event: Event name to query (optional, queries all if not specified)
   - groupBy: Properties to group by (optional)
-  - where: Filter expression (optional)
+  - where: Filter expression or structured filter (optional)
   - interval: Time interval (minute, hour, day, week, month)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Time series data with event counts grouped by the specified dimensions.`,
-    {
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      event: z.string().optional().describe('Event name to query'),
-      groupBy: z.array(z.string()).optional().describe('Properties to group by'),
-      where: z.string().optional().describe('Filter expression (e.g., properties["country"] == "US")'),
-      interval: z
-        .enum(['minute', 'hour', 'day', 'week', 'month'])
-        .optional()
-        .describe('Time interval for grouping'),
+  Time series data with event counts grouped by the specified dimensions.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        event: z.string().optional().describe('Event name to query'),
+        groupBy: z.array(z.string()).optional().describe('Properties to group by'),
+        where: whereSchema,
+        interval: z
+          .enum(['minute', 'hour', 'day', 'week', 'month'])
+          .optional()
+          .describe('Time interval for grouping'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(insightsResultSchema),
     },
     async (params) => {
       try {
         const result = await client.queryInsights(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_insights', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -54,9 +157,10 @@ Returns:
   // ===========================================================================
   // Query Segmentation
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_segmentation',
-    `Query segmentation data for an event, optionally broken down by a property.
+    {
+      description: `Query segmentation data for an event, optionally broken down by a property.
 
 Args:
   - event: Event name to segment
@@ -64,24 +168,37 @@ Args:
   - toDate: End date (YYYY-MM-DD)
   - type: Query type (general, unique, average)
   - unit: Time unit (minute, hour, day, week, month)
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
   - on: Property to segment by
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Segmented event data over time.`,
-    {
-      event: z.string().describe('Event name to segment'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      type: z.enum(['general', 'unique', 'average']).optional().describe('Query type'),
-      unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
-      where: z.string().optional().describe('Filter expression'),
-      on: z.string().optional().describe('Property to segment by (e.g., properties["browser"])'),
+  Segmented event data over time.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        event: z.string().describe('Event name to segment'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        type: z.enum(['general', 'unique', 'average']).optional().describe('Query type'),
+        unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
+        where: whereSchema,
+        on: z.string().optional().describe('Property to segment by (e.g., properties["browser"])'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(segmentationResultSchema),
     },
     async (params) => {
       try {
         const result = await client.querySegmentation(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_segmentation', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -91,9 +208,10 @@ Returns:
   // ===========================================================================
   // Query Segmentation Numeric
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_segmentation_numeric',
-    `Query segmentation data with numeric bucketing for a property.
+    {
+      description: `Query segmentation data with numeric bucketing for a property.
 
 Args:
   - event: Event name
@@ -102,24 +220,37 @@ Args:
   - on: Numeric property to bucket
   - buckets: Number of buckets (optional)
   - type: Query type (general, unique, average)
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Segmented data with numeric buckets.`,
-    {
-      event: z.string().describe('Event name'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      on: z.string().describe('Numeric property to bucket'),
-      buckets: z.number().optional().describe('Number of buckets'),
-      type: z.enum(['general', 'unique', 'average']).optional().describe('Query type'),
-      unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
-      where: z.string().optional().describe('Filter expression'),
+  Segmented data with numeric buckets.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        on: z.string().describe('Numeric property to bucket'),
+        buckets: z.number().optional().describe('Number of buckets'),
+        type: z.enum(['general', 'unique', 'average']).optional().describe('Query type'),
+        unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
+        where: whereSchema,
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(segmentationResultSchema),
     },
     async (params) => {
       try {
         const result = await client.querySegmentationNumeric(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_segmentation_numeric', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -129,31 +260,45 @@ Returns:
   // ===========================================================================
   // Query Segmentation Sum
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_segmentation_sum',
-    `Query the sum of a numeric property for an event over time.
+    {
+      description: `Query the sum of a numeric property for an event over time.
 
 Args:
   - event: Event name
   - fromDate: Start date (YYYY-MM-DD)
   - toDate: End date (YYYY-MM-DD)
   - on: Numeric property to sum
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Sum of the property value over time.`,
-    {
-      event: z.string().describe('Event name'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      on: z.string().describe('Numeric property to sum'),
-      unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
-      where: z.string().optional().describe('Filter expression'),
+  Sum of the property value over time.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        on: z.string().describe('Numeric property to sum'),
+        unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
+        where: whereSchema,
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(segmentationResultSchema),
     },
     async (params) => {
       try {
         const result = await client.querySegmentationSum(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_segmentation_sum', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -163,31 +308,45 @@ Returns:
   // ===========================================================================
   // Query Segmentation Average
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_segmentation_average',
-    `Query the average of a numeric property for an event over time.
+    {
+      description: `Query the average of a numeric property for an event over time.
 
 Args:
   - event: Event name
   - fromDate: Start date (YYYY-MM-DD)
   - toDate: End date (YYYY-MM-DD)
   - on: Numeric property to average
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Average of the property value over time.`,
-    {
-      event: z.string().describe('Event name'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      on: z.string().describe('Numeric property to average'),
-      unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
-      where: z.string().optional().describe('Filter expression'),
+  Average of the property value over time.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        on: z.string().describe('Numeric property to average'),
+        unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
+        where: whereSchema,
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(segmentationResultSchema),
     },
     async (params) => {
       try {
         const result = await client.querySegmentationAverage(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_segmentation_average', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -197,24 +356,29 @@ Returns:
   // ===========================================================================
   // Get Top Events
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_top_events',
-    `Get the top events by volume for the current day.
+    {
+      description: `Get the top events by volume for the current day.
 
 Args:
   - type: Query type (general = total, unique = unique users, average = per user)
   - limit: Maximum number of events to return
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   List of top events with counts and percent change.`,
-    {
-      type: z.enum(['general', 'average', 'unique']).describe('Query type'),
-      limit: z.number().optional().describe('Maximum number of events to return (default: 10)'),
+      inputSchema: {
+        type: z.enum(['general', 'average', 'unique']).describe('Query type'),
+        limit: z.number().optional().describe('Maximum number of events to return (default: 10)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(topEventSchema)),
     },
     async (params) => {
       try {
         const result = await client.getTopEvents(params);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -224,24 +388,29 @@ Returns:
   // ===========================================================================
   // Get Event Names
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_event_names',
-    `Get a list of event names in the project.
+    {
+      description: `Get a list of event names in the project.
 
 Args:
   - type: Query type (general or unique)
   - limit: Maximum number of events to return
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   List of event names.`,
-    {
-      type: z.enum(['general', 'unique']).describe('Query type'),
-      limit: z.number().optional().describe('Maximum number of events (default: 255)'),
+      inputSchema: {
+        type: z.enum(['general', 'unique']).describe('Query type'),
+        limit: z.number().optional().describe('Maximum number of events (default: 255)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(z.string())),
     },
     async (params) => {
       try {
         const result = await client.getEventNames(params);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -251,9 +420,10 @@ Returns:
   // ===========================================================================
   // Query Events
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_events',
-    `Query aggregate event counts over a time range.
+    {
+      description: `Query aggregate event counts over a time range.
 
 Args:
   - event: Array of event names to query
@@ -261,23 +431,267 @@ Args:
   - toDate: End date (YYYY-MM-DD)
   - type: Query type (general, unique, average)
   - unit: Time unit
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
+  - compareTo: Period to compare against (optional): previous_period (the
+    same number of days just before), previous_year, or { fromDate, toDate }
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Event counts grouped by time.`,
-    {
-      event: z.array(z.string()).describe('Event names to query'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      type: z.enum(['general', 'unique', 'average']).describe('Query type'),
-      unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
-      interval: z.number().optional().describe('Interval count'),
-      where: z.string().optional().describe('Filter expression'),
+  series: event counts by event name, then by date.
+  With compareTo, also a comparison with each series' totals in both
+  periods, the change and percent change, and the same per bucket, with
+  buckets aligned by position in the period.`,
+      inputSchema: {
+        event: z.array(z.string()).describe('Event names to query'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        type: z.enum(['general', 'unique', 'average']).describe('Query type'),
+        unit: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional().describe('Time unit'),
+        interval: z.number().optional().describe('Interval count'),
+        where: whereSchema,
+        compareTo: compareToSchema,
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(eventSeriesSchema),
     },
     async (params) => {
       try {
         const result = await client.queryEvents(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_query_events', params);
+        return respond(result);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Detect Anomalies
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_detect_anomalies',
+    {
+      description: `Find unusual spikes or drops in an event's volume over time.
+
+Each bucket is compared with what its trend and seasonality predict (the
+weekday pattern for daily data, the hour-of-day pattern for hourly data)
+using a robust z-score. Seasonality needs at least two weeks of daily or two
+days of hourly data; at least 7 buckets are needed in any case.
+
+Args:
+  - event: Event name
+  - fromDate: Start date (YYYY-MM-DD)
+  - toDate: End date (YYYY-MM-DD)
+  - unit: Bucket size (hour, day, week, month; default: day)
+  - type: Query type (general, unique, average; default: general)
+  - where: Filter expression or structured filter (optional)
+  - on: Property to segment by; each segment is scanned separately (optional)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - threshold: Robust z-score to flag at (optional, default: 3.5; lower
+    flags more buckets)
+  - direction: Only flag spikes or drops (optional, default: both)
+  - includeAnnotations: Label anomalies with project annotations dated in
+    the same or the previous bucket (optional, default: true)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
+
+Returns:
+  Per series: the number of buckets scanned, the seasonal period used, and
+  the flagged buckets with their value, expected value, expected range
+  (lower/upper), z-score, direction and matching annotations. When toDate
+  reaches the current bucket, that bucket is still filling up: it is not
+  scanned and is reported as partialBucket instead.`,
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        unit: z.enum(['hour', 'day', 'week', 'month']).optional().describe('Bucket size'),
+        type: z.enum(['general', 'unique', 'average']).optional().describe('Query type'),
+        where: whereSchema,
+        on: z.string().optional().describe('Property to segment by'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        threshold: z.number().positive().optional().describe('Robust z-score to flag at (default: 3.5)'),
+        direction: z.enum(['spike', 'drop']).optional().describe('Only flag spikes or drops'),
+        includeAnnotations: z
+          .boolean()
+          .optional()
+          .describe('Label anomalies with project annotations (default: true)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(anomalyReportSchema),
+    },
+    async ({ event, unit = 'day', type = 'general', threshold = ANOMALY_DEFAULT_THRESHOLD, ...params }) => {
+      try {
+        const { fromDate, toDate, where, on, cohortId, bypassCache } = params;
+        const values =
+          on || cohortId !== undefined
+            ? (
+                await client.querySegmentation({
+                  event,
+                  fromDate,
+                  toDate,
+                  type,
+                  unit,
+                  where,
+                  on,
+                  cohortId,
+                  bypassCache,
+                })
+              ).data.values
+            : (
+                await client.queryEvents({
+                  event: [event],
+                  fromDate,
+                  toDate,
+                  type,
+                  unit,
+                  where,
+                  bypassCache,
+                })
+              ).series;
+        const annotations =
+          params.includeAnnotations === false ? [] : await client.listAnnotations({ fromDate, toDate });
+
+        const series = Object.entries(values).map(([name, points]) => {
+          const scan = detectAnomalies(points, {
+            period: SEASON_PERIODS[unit],
+            threshold,
+            direction: params.direction,
+            partialLast: endsInPartialBucket(points, unit),
+          });
+          return {
+            name,
+            points: scan.points,
+            period: scan.period,
+            anomalies: annotateAnomalies(scan.anomalies, points, annotations),
+            ...(scan.partialBucket && { partialBucket: scan.partialBucket }),
+          };
+        });
+
+        context.session?.recordQuery('mixpanel_detect_anomalies', {
+          event,
+          fromDate,
+          toDate,
+          unit,
+          on,
+          cohortId,
+        });
+        return respond({ event, unit, threshold, series });
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Forecast Metric
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_forecast_metric',
+    {
+      description: `Project an event metric forward from its history.
+
+Fits a Holt-Winters model (level, trend, and the weekday pattern for daily
+data or hour-of-day pattern for hourly data) to the history range and
+returns forecasts with a prediction interval. Seasonality needs at least two
+seasons of history (14 days, or 48 hours); shorter histories are fitted with
+trend only. At least 7 buckets of history are needed. Forecasts assume the
+recent trend continues; use a history range without known one-off events.
+When the history reaches the current bucket, that bucket is still filling
+up: it is left out of the fit and forecast in full instead.
+
+Args:
+  - event: Event name
+  - fromDate: History start date (YYYY-MM-DD)
+  - toDate: History end date (YYYY-MM-DD)
+  - horizon: Buckets to forecast (optional, default: 14, max: 90)
+  - unit: Bucket size (hour, day, week, month; default: day)
+  - on: Numeric property to aggregate instead of counting events, e.g.
+    properties["amount"] (optional)
+  - aggregation: How to aggregate on: sum or average (optional, default: sum)
+  - type: Count type when on is not set (general, unique; default: general)
+  - where: Filter expression or structured filter (optional)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - confidence: Prediction interval coverage, 0.5-0.99 (optional, default: 0.8)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
+
+Returns:
+  Per series: the fitted model (method, seasonal period, smoothing
+  parameters, one-step RMSE), the forecast buckets with value, lower and
+  upper bounds, and the incomplete bucket left out (partialBucket), if any.`,
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        fromDate: z.string().describe('History start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('History end date (YYYY-MM-DD)'),
+        horizon: z
+          .number()
+          .int()
+          .min(1)
+          .max(FORECAST_MAX_HORIZON)
+          .optional()
+          .describe('Buckets to forecast (default: 14)'),
+        unit: z.enum(['hour', 'day', 'week', 'month']).optional().describe('Bucket size'),
+        on: z.string().optional().describe('Numeric property to aggregate (e.g., properties["amount"])'),
+        aggregation: z.enum(['sum', 'average']).optional().describe('How to aggregate on'),
+        type: z.enum(['general', 'unique']).optional().describe('Count type'),
+        where: whereSchema,
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        confidence: z
+          .number()
+          .min(0.5)
+          .max(0.99)
+          .optional()
+          .describe('Prediction interval coverage (default: 0.8)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(forecastReportSchema),
+    },
+    async ({
+      event,
+      horizon = FORECAST_DEFAULT_HORIZON,
+      unit = 'day',
+      aggregation = 'sum',
+      type = 'general',
+      confidence = FORECAST_DEFAULT_CONFIDENCE,
+      ...params
+    }) => {
+      try {
+        const { fromDate, toDate, on, where, cohortId, bypassCache } = params;
+        const query = { event, fromDate, toDate, unit, where, cohortId, bypassCache };
+
+        let values: Record<string, Record<string, number>>;
+        if (on) {
+          const result =
+            aggregation === 'average'
+              ? await client.querySegmentationAverage({ ...query, on })
+              : await client.querySegmentationSum({ ...query, on });
+          values = result.data.values;
+        } else if (cohortId !== undefined) {
+          values = (await client.querySegmentation({ ...query, type })).data.values;
+        } else {
+          values = (await client.queryEvents({ ...query, event: [event], type })).series;
+        }
+
+        const series = Object.entries(values).map(([name, points]) => ({
+          name,
+          ...forecastSeries(points, unit, {
+            horizon,
+            period: SEASON_PERIODS[unit],
+            confidence,
+            nonNegative: !on,
+            partialLast: endsInPartialBucket(points, unit),
+          }),
+        }));
+
+        context.session?.recordQuery('mixpanel_forecast_metric', {
+          event,
+          fromDate,
+          toDate,
+          unit,
+          on,
+          aggregation: on ? aggregation : undefined,
+          cohortId,
+        });
+        return respond({ event, unit, horizon, confidence, series });
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -287,22 +701,27 @@ Returns:
   // ===========================================================================
   // Get Event Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_event_properties',
-    `Get the top properties for an event.
+    {
+      description: `Get the top properties for an event.
 
 Args:
   - eventName: Name of the event
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   List of property names for the event.`,
-    {
-      eventName: z.string().describe('Event name'),
+      inputSchema: {
+        eventName: z.string().describe('Event name'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(z.string())),
     },
-    async ({ eventName }) => {
+    async ({ eventName, bypassCache }) => {
       try {
-        const result = await client.getEventProperties(eventName);
-        return formatResponse(result);
+        const result = await client.getEventProperties(eventName, { bypassCache });
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -312,26 +731,31 @@ Returns:
   // ===========================================================================
   // Get Property Values
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_property_values',
-    `Get distinct values for an event property.
+    {
+      description: `Get distinct values for an event property.
 
 Args:
   - event: Event name
   - property: Property name
   - limit: Maximum number of values to return
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   List of distinct property values.`,
-    {
-      event: z.string().describe('Event name'),
-      property: z.string().describe('Property name'),
-      limit: z.number().optional().describe('Maximum number of values (default: 100)'),
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        property: z.string().describe('Property name'),
+        limit: z.number().optional().describe('Maximum number of values (default: 100)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(z.string())),
     },
-    async ({ event, property, limit }) => {
+    async ({ event, property, limit, bypassCache }) => {
       try {
-        const result = await client.getPropertyValues(event, property, { limit });
-        return formatResponse(result);
+        const result = await client.getPropertyValues(event, property, { limit, bypassCache });
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -341,26 +765,34 @@ Returns:
   // ===========================================================================
   // Get Top Property Values
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_top_property_values',
-    `Get the top values for an event property with counts.
+    {
+      description: `Get the top values for an event property with counts.
 
 Args:
   - event: Event name
   - property: Property name
   - limit: Maximum number of values to return
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   List of property values with their counts.`,
-    {
-      event: z.string().describe('Event name'),
-      property: z.string().describe('Property name'),
-      limit: z.number().optional().describe('Maximum number of values (default: 100)'),
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        property: z.string().describe('Property name'),
+        limit: z.number().optional().describe('Maximum number of values (default: 100)'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(z.object({ value: z.string(), count: z.number() }))),
     },
-    async ({ event, property, limit }) => {
+    async ({ event, property, limit, bypassCache }) => {
       try {
-        const result = await client.getTopPropertyValues(event, property, { limit });
-        return formatResponse(result);
+        const result = await client.getTopPropertyValues(event, property, {
+          limit,
+          bypassCache,
+        });
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -370,9 +802,10 @@ Returns:
   // ===========================================================================
   // Execute JQL
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_execute_jql',
-    `Execute a JQL (JavaScript Query Language) query against Mixpanel data.
+    {
+      description: `Execute a JQL (JavaScript Query Language) query against Mixpanel data.
 
 JQL allows complex, custom queries using JavaScript-like syntax.
 See Mixpanel JQL documentation for query syntax.
@@ -382,13 +815,15 @@ Args:
 
 Returns:
   Query results.`,
-    {
-      script: z.string().describe('JQL script to execute'),
+      inputSchema: {
+        script: z.string().describe('JQL script to execute'),
+      },
+      outputSchema: resultSchema(z.unknown()),
     },
     async ({ script }) => {
       try {
         const result = await client.executeJQL(script);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
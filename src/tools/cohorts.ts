@@ -5,29 +5,330 @@
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { toCsv, toCsvRow } from '../utils/csv.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import {
+  cohortCountPointSchema,
+  cohortOverlapSchema,
+  cohortSchema,
+  profileQueryResultSchema,
+  resultSchema,
+} from './schemas.js';
+
+/** Characters reserved for the export envelope around the exported data */
+const EXPORT_ENVELOPE_RESERVE = 1000;
+
+const cohortCountHistorySchema = z.object({
+  cohortId: z.number(),
+  counts: z.array(cohortCountPointSchema),
+  change: z.number(),
+  percentChange: z.number().nullable(),
+  queryCalls: z.number(),
+  note: z.string(),
+});
+
+const cohortExportSchema = z.object({
+  cohortId: z.number(),
+  format: z.enum(['csv', 'ndjson']),
+  total: z.number(),
+  exported: z.number(),
+  truncated: z.boolean(),
+  data: z.string(),
+});
+
+/**
+ * Keep whole records of `records` while the joined text, once escaped as a
+ * JSON string, fits in `limit`. A record may span several lines (a quoted
+ * CSV field with line breaks); a header is always kept.
+ */
+function fitRecords(
+  records: string[],
+  limit: number,
+  header?: string
+): { text: string; kept: number } {
+  const lines = header === undefined ? [] : [header];
+  let length = JSON.stringify(lines.join('')).length - 2;
+  let kept = 0;
+  while (kept < records.length) {
+    const recordLength = JSON.stringify(`${records[kept]}\n`).length - 2;
+    if (length + recordLength > limit) break;
+    length += recordLength;
+    lines.push(records[kept]);
+    kept++;
+  }
+  return { text: lines.join('\n'), kept };
+}
 
 /**
  * Register all cohort-related tools
  */
-export function registerCohortTools(server: McpServer, client: MixpanelClient): void {
+export function registerCohortTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
   // ===========================================================================
   // List Cohorts
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_list_cohorts',
-    `List all saved cohorts in the Mixpanel project.
+    {
+      description: `List all saved cohorts in the Mixpanel project.
 
 Cohorts are saved groups of users based on their behavior or properties.
 
+Args:
+  - bypassCache: Skip cached results and fetch fresh data (optional)
+
 Returns:
   Array of cohorts with their IDs, names, and metadata.`,
-    {},
-    async () => {
+      inputSchema: {
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(cohortSchema)),
+    },
+    async ({ bypassCache }) => {
+      try {
+        const result = await client.listCohorts({ bypassCache });
+        return respond(result);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Cohort
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_get_cohort',
+    {
+      description: `Get a saved cohort by ID.
+
+Args:
+  - cohortId: Cohort ID (from mixpanel_list_cohorts)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
+
+Returns:
+  The cohort's name, description, creation date and current size.`,
+      inputSchema: {
+        cohortId: z.number().int().describe('Cohort ID'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(cohortSchema),
+    },
+    async ({ cohortId, bypassCache }) => {
+      try {
+        const result = await client.getCohort(cohortId, { bypassCache });
+        return respond(result);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Cohort Members
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_get_cohort_members',
+    {
+      description: `Get one page of the user profiles in a cohort.
+
+Args:
+  - cohortId: Cohort ID (from mixpanel_list_cohorts)
+  - sessionId: Session ID for pagination (from previous response)
+  - page: Page number for pagination (requires sessionId after page 0)
+  - outputProperties: List of properties to include in response
+
+Returns:
+  Paginated list of member profiles, the page number, the session ID for the
+  next page and the cohort's total size.`,
+      inputSchema: {
+        cohortId: z.number().int().describe('Cohort ID'),
+        sessionId: z.string().optional().describe('Session ID for pagination'),
+        page: z.number().int().min(0).optional().describe('Page number'),
+        outputProperties: z.array(z.string()).optional().describe('Properties to include'),
+      },
+      outputSchema: resultSchema(profileQueryResultSchema),
+    },
+    async (params) => {
+      try {
+        const result = await client.getCohortMembers(params);
+        return respond(result);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Cohort Count History
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_get_cohort_count_history',
+    {
+      description: `Count a cohort's members at points over a date range.
+
+Each point is one profile query (Query API budget: 60 per hour), so use a
+larger unit for long ranges; at most 8 points. Only behavioral criteria are
+evaluated as of the end of each date: property criteria use current profile
+values, so a cohort defined by properties alone shows the same count at
+every point.
+
+Args:
+  - cohortId: Cohort ID (from mixpanel_list_cohorts)
+  - fromDate: Start date (YYYY-MM-DD)
+  - toDate: End date (YYYY-MM-DD)
+  - unit: Spacing between points: day, week, or month (default: day)
+
+Returns:
+  Member counts by date, ending at toDate, the change over the range, the
+  number of Query API calls spent (queryCalls) and a note on how historical
+  the counts are.`,
+      inputSchema: {
+        cohortId: z.number().int().describe('Cohort ID'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        unit: z.enum(['day', 'week', 'month']).optional().describe('Spacing between points'),
+      },
+      outputSchema: resultSchema(cohortCountHistorySchema),
+    },
+    async (params) => {
+      try {
+        const counts = await client.getCohortCountHistory(params);
+        const first = counts[0]?.count ?? 0;
+        const last = counts[counts.length - 1]?.count ?? 0;
+        return respond({
+          cohortId: params.cohortId,
+          counts,
+          change: last - first,
+          percentChange: first === 0 ? null : ((last - first) / first) * 100,
+          queryCalls: counts.length,
+          note:
+            'Behavioral criteria are evaluated as of each date; property criteria use ' +
+            'current profile values.',
+        });
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Export Cohort Members
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_export_cohort_members',
+    {
+      description: `Export a cohort's members as CSV or NDJSON.
+
+CSV has a distinct_id column followed by one column per property; NDJSON has
+one {"distinctId", "properties"} object per line. Output that does not fit
+the response size limit is cut at a line boundary and marked truncated.
+
+Args:
+  - cohortId: Cohort ID (from mixpanel_list_cohorts)
+  - format: csv or ndjson (default: csv)
+  - outputProperties: Properties to include (recommended; default: all)
+  - maxMembers: Maximum members to fetch (default: 1000, max: 10000)
+
+Returns:
+  The cohort size, the number of members exported and the exported text.`,
+      inputSchema: {
+        cohortId: z.number().int().describe('Cohort ID'),
+        format: z.enum(['csv', 'ndjson']).optional().describe('Export format'),
+        outputProperties: z.array(z.string()).optional().describe('Properties to include'),
+        maxMembers: z
+          .number()
+          .int()
+          .min(1)
+          .max(10000)
+          .optional()
+          .describe('Maximum members to fetch'),
+      },
+      outputSchema: resultSchema(cohortExportSchema),
+    },
+    async ({ cohortId, format = 'csv', outputProperties, maxMembers }) => {
+      try {
+        const result = await client.getAllCohortMembers({
+          cohortId,
+          outputProperties,
+          maxMembers,
+        });
+
+        const budget = context.limits.characterLimit - EXPORT_ENVELOPE_RESERVE;
+        let fitted: { text: string; kept: number };
+        if (format === 'csv') {
+          const columns = [
+            'distinct_id',
+            ...(outputProperties ??
+              [...new Set(result.members.flatMap((m) => Object.keys(m.properties)))].sort()),
+          ];
+          const rows = result.members.map((m) =>
+            toCsvRow({ ...m.properties, distinct_id: m.distinctId }, columns)
+          );
+          fitted = fitRecords(rows, budget, toCsv([], columns));
+        } else {
+          fitted = fitRecords(result.members.map((m) => JSON.stringify(m)), budget);
+        }
+        const { text, kept: exported } = fitted;
+
+        return respond({
+          cohortId,
+          format,
+          total: result.total,
+          exported,
+          truncated: result.truncated || exported < result.members.length,
+          data: text,
+        });
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Compare Cohorts
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_compare_cohorts',
+    {
+      description: `Compare the membership of two cohorts.
+
+Args:
+  - cohortA: First cohort ID
+  - cohortB: Second cohort ID
+  - maxMembers: Maximum members to fetch per cohort (default: 1000, max: 10000)
+  - sampleSize: Number of shared distinct IDs to return (default: 20)
+
+Returns:
+  Each cohort's size, the number of members in both, in only one of them,
+  the Jaccard similarity and a sample of shared distinct IDs. truncated is
+  true when a cohort had more members than maxMembers.`,
+      inputSchema: {
+        cohortA: z.number().int().describe('First cohort ID'),
+        cohortB: z.number().int().describe('Second cohort ID'),
+        maxMembers: z
+          .number()
+          .int()
+          .min(1)
+          .max(10000)
+          .optional()
+          .describe('Maximum members to fetch per cohort'),
+        sampleSize: z.number().int().min(0).max(100).optional().describe('Shared IDs to return'),
+      },
+      outputSchema: resultSchema(cohortOverlapSchema),
+    },
+    async (params) => {
       try {
-        const result = await client.listCohorts();
-        return formatResponse(result);
+        const result = await client.compareCohorts(params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -7,41 +7,100 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { ValidationError } from '../utils/errors.js';
+import {
+  createResponseFormatter,
+  describeIngestion,
+  formatErrorResponse,
+} from '../utils/formatters.js';
+import {
+  exportPageSchema,
+  importResultSchema,
+  ingestionResultSchema,
+  resultSchema,
+  whereSchema,
+} from './schemas.js';
+
+/**
+ * Describe a submitted event by its position in the batch
+ */
+function describeEventAt(events: Array<{ event: string; properties: { distinct_id: string } }>) {
+  return (index: number) => ({
+    event: events[index]?.event,
+    distinct_id: events[index]?.properties.distinct_id,
+  });
+}
 
 /**
  * Register all event-related tools
  */
-export function registerEventTools(server: McpServer, client: MixpanelClient): void {
+export function registerEventTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
   // ===========================================================================
   // Export Events
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_export_events',
-    `Export raw event data from Mixpanel.
+    {
+      description: `Export raw event data from Mixpanel.
 
 Returns individual events with all properties. Useful for detailed analysis.
+The export is streamed and returned one page at a time; when hasMore is true,
+call again with the same arguments plus the returned cursor to get the next page.
+In a stateful (/sse) session, resume: true continues from the saved cursor instead.
+A cursor resumes after the last returned timestamp, relying on the export's time
+order; events sharing that second are matched by $insert_id, or by position when
+they have none.
 
 Args:
   - fromDate: Start date (YYYY-MM-DD)
   - toDate: End date (YYYY-MM-DD)
   - event: Array of event names to filter (optional)
-  - where: Filter expression (optional)
-  - limit: Maximum number of events to return
+  - where: Filter expression or structured filter (optional)
+  - limit: Maximum number of events per page (default: server page size)
+  - cursor: Cursor from a previous page to resume after (optional)
+  - resume: Continue after the last page returned for the same filters (stateful sessions only)
 
 Returns:
-  Array of raw events with their properties.`,
-    {
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      event: z.array(z.string()).optional().describe('Event names to filter'),
-      where: z.string().optional().describe('Filter expression'),
-      limit: z.number().optional().describe('Maximum events to return'),
+  A page of raw events with their properties, hasMore, and a cursor when more
+  events remain.`,
+      inputSchema: {
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        event: z.array(z.string()).optional().describe('Event names to filter'),
+        where: whereSchema,
+        limit: z.number().optional().describe('Maximum events per page'),
+        cursor: z.string().optional().describe('Cursor from a previous page'),
+        resume: z.boolean().optional().describe('Continue from the cursor saved in this session'),
+      },
+      outputSchema: resultSchema(exportPageSchema),
     },
-    async (params) => {
+    async ({ resume, ...params }) => {
       try {
-        const result = await client.exportEvents(params);
-        return formatResponse(result);
+        const { session } = context;
+        const filters = {
+          fromDate: params.fromDate,
+          toDate: params.toDate,
+          event: params.event,
+          where: params.where,
+        };
+
+        if (resume && !session) {
+          throw new ValidationError('resume requires a stateful session', {
+            resume: ['Connect through /sse, or pass the cursor from the previous page'],
+          });
+        }
+
+        const cursor = params.cursor ?? (resume ? session?.getCursor(filters) : undefined);
+        const result = await client.exportEvents({ ...params, cursor });
+        session?.setCursor(filters, result.cursor);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -51,9 +110,10 @@ Returns:
   // ===========================================================================
   // Track Event
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_track_event',
-    `Track a single event to Mixpanel.
+    {
+      description: `Track a single event to Mixpanel.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -65,16 +125,20 @@ Args:
 
 Returns:
   Status of the tracking operation.`,
-    {
-      event: z.string().describe('Event name'),
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.record(z.string(), z.unknown()).optional().describe('Additional event properties'),
-      time: z.number().optional().describe('Unix timestamp'),
+      inputSchema: {
+        event: z.string().describe('Event name'),
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.record(z.string(), z.unknown()).optional().describe('Additional event properties'),
+        time: z.number().optional().describe('Unix timestamp'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async (params) => {
       try {
         const result = await client.trackEvent(params);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(
+          describeIngestion(result, () => ({ event: params.event, distinct_id: params.distinctId }))
+        );
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -84,9 +148,10 @@ Returns:
   // ===========================================================================
   // Track Multiple Events
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_track_events',
-    `Track multiple events to Mixpanel in a single request.
+    {
+      description: `Track multiple events to Mixpanel in a single request.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -94,29 +159,41 @@ Args:
   - events: Array of events, each with:
     - event: Event name
     - properties: Object with distinct_id and optional properties/time
+  - generateInsertIds: Derive a stable $insert_id for events without one, so
+    re-running the same call is deduplicated by Mixpanel (optional). Every
+    event must then set time, which Mixpanel also deduplicates on.
+  - insertIdFields: Fields hashed into the $insert_id; "event" is the event
+    name, anything else a property (default: event, distinct_id, time)
 
 Returns:
-  Status of the tracking operation.`,
-    {
-      events: z
-        .array(
-          z.object({
-            event: z.string().describe('Event name'),
-            properties: z
-              .object({
-                distinct_id: z.string().describe('User distinct ID'),
-                time: z.number().optional().describe('Unix timestamp'),
-              })
-              .passthrough()
-              .describe('Event properties'),
-          })
-        )
-        .describe('Array of events to track'),
+  Status of the tracking operation. Rejected records are listed with their
+  index, event, distinct_id and Mixpanel's reason.`,
+      inputSchema: {
+        events: z
+          .array(
+            z.object({
+              event: z.string().describe('Event name'),
+              properties: z
+                .object({
+                  distinct_id: z.string().describe('User distinct ID'),
+                  time: z.number().optional().describe('Unix timestamp'),
+                })
+                .passthrough()
+                .describe('Event properties'),
+            })
+          )
+          .describe('Array of events to track'),
+        generateInsertIds: z.boolean().optional().describe('Derive stable $insert_ids'),
+        insertIdFields: z.array(z.string()).optional().describe('Fields hashed into $insert_id'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
-    async ({ events }) => {
+    async ({ events, generateInsertIds, insertIdFields }) => {
       try {
-        const result = await client.trackEvents(events);
-        return formatResponse({ success: result.status === 1, ...result });
+        const result = await client.trackEvents(events, {
+          insertIds: generateInsertIds ? { fields: insertIdFields } : undefined,
+        });
+        return respond(describeIngestion(result, describeEventAt(events)));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -126,41 +203,69 @@ Returns:
   // ===========================================================================
   // Import Events (Historical)
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_import_events',
-    `Import historical events to Mixpanel.
+    {
+      description: `Import historical events to Mixpanel.
 
 Use this for backfilling historical data. Events must have a time property.
-Requires X-Mixpanel-Project-Token header.
+Large batches are split into chunks of at most 2000 events / 10MB, gzipped
+and sent in parallel. Set $insert_id on each event so a partially failed
+import can be resumed by re-sending only the failed chunks.
+Authenticates with the service account; no project token is needed.
 
 Args:
   - events: Array of events, each with:
     - event: Event name
     - properties: Object with distinct_id, time, and optional $insert_id
+  - strict: Validate events before sending (timestamps, property names,
+    reserved "$"/"mp_" keys, value sizes, nesting depth) and have Mixpanel
+    report per-record validation errors (optional)
+  - generateInsertIds: Derive a stable $insert_id for events without one, so
+    re-running the import after a partial failure cannot double-count (optional)
+  - insertIdFields: Fields hashed into the $insert_id; "event" is the event
+    name, anything else a property (default: event, distinct_id, time)
 
 Returns:
-  Import status with count of records imported.`,
-    {
-      events: z
-        .array(
-          z.object({
-            event: z.string().describe('Event name'),
-            properties: z
-              .object({
-                distinct_id: z.string().describe('User distinct ID'),
-                time: z.number().describe('Unix timestamp (required for imports)'),
-                $insert_id: z.string().optional().describe('Unique ID for deduplication'),
-              })
-              .passthrough()
-              .describe('Event properties'),
-          })
-        )
-        .describe('Array of events to import'),
+  Import status with the total count of records imported and the number of
+  chunks sent. Rejected records are listed with their index, $insert_id,
+  event, distinct_id and Mixpanel's reason; failed_chunks gives each failed
+  chunk's offset, size, error and the $insert_ids to re-send. In strict mode,
+  local validation failures are reported by input index before anything is
+  sent, and warnings for values Mixpanel would truncate are included.`,
+      inputSchema: {
+        events: z
+          .array(
+            z.object({
+              event: z.string().min(1).max(255).describe('Event name'),
+              properties: z
+                .object({
+                  distinct_id: z.string().describe('User distinct ID'),
+                  time: z.number().positive().describe('Unix timestamp (required for imports)'),
+                  $insert_id: z
+                    .string()
+                    .max(36)
+                    .optional()
+                    .describe('Unique ID for deduplication (max 36 characters)'),
+                })
+                .passthrough()
+                .describe('Event properties'),
+            })
+          )
+          .describe('Array of events to import'),
+        strict: z.boolean().optional().describe('Validate events strictly before and during import'),
+        generateInsertIds: z.boolean().optional().describe('Derive stable $insert_ids'),
+        insertIdFields: z.array(z.string()).optional().describe('Fields hashed into $insert_id'),
+      },
+      outputSchema: resultSchema(importResultSchema),
     },
-    async ({ events }) => {
+    async ({ events, strict, generateInsertIds, insertIdFields }) => {
       try {
-        const result = await client.importEvents(events);
-        return formatResponse(result);
+        const result = await client.importEvents(events, {
+          strict,
+          insertIds: generateInsertIds ? { fields: insertIdFields } : undefined,
+        });
+        return respond(describeIngestion(result, describeEventAt(events)));
       } catch (error) {
         return formatErrorResponse(error);
       }
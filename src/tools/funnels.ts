@@ -7,26 +7,63 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import {
+  adHocFunnelDataSchema,
+  funnelAnalysisSchema,
+  funnelDataSchema,
+  funnelListItemSchema,
+  resultSchema,
+  retentionDataSchema,
+  whereSchema,
+} from './schemas.js';
+
+/**
+ * A funnel report, with the analysis and what it could not reproduce of the
+ * saved funnel when analyze was set
+ */
+const analyzedFunnelSchema = funnelDataSchema.extend({
+  analysis: funnelAnalysisSchema.optional(),
+  analysisNotes: z.array(z.string()).optional(),
+});
+
+const analyzedAdHocFunnelSchema = adHocFunnelDataSchema.extend({
+  analysis: funnelAnalysisSchema.optional(),
+});
 
 /**
  * Register all funnel and retention related tools
  */
-export function registerFunnelTools(server: McpServer, client: MixpanelClient): void {
+export function registerFunnelTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
   // ===========================================================================
   // List Funnels
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_list_funnels',
-    `List all saved funnels in the Mixpanel project.
+    {
+      description: `List all saved funnels in the Mixpanel project.
+
+Args:
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   Array of funnels with their IDs and names.`,
-    {},
-    async () => {
+      inputSchema: {
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(z.array(funnelListItemSchema)),
+    },
+    async ({ bypassCache }) => {
       try {
-        const result = await client.listFunnels();
-        return formatResponse(result);
+        const result = await client.listFunnels({ bypassCache });
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -36,9 +73,10 @@ Returns:
   // ===========================================================================
   // Get Funnel
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_funnel',
-    `Get conversion data for a saved funnel.
+    {
+      description: `Get conversion data for a saved funnel.
 
 Args:
   - funnelId: ID of the saved funnel
@@ -47,18 +85,50 @@ Args:
   - interval: Time interval for grouping (day, week, month)
   - length: Conversion window length
   - lengthUnit: Conversion window unit (day, hour, minute, week)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - analyze: Add time-to-convert and drop-off diagnostics (optional).
+    Recomputes the funnel's steps with JQL, so it is slower. cohortId (up to
+    5000 members) and length apply; the saved funnel's step filters do not
+  - analysisProperties: Event properties to compare between users who
+    dropped and users who continued (optional, default: $browser, $os,
+    mp_country_code, utm_source)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
-  Funnel conversion data with step-by-step metrics.`,
-    {
-      funnelId: z.number().describe('Funnel ID'),
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      interval: z.enum(['day', 'week', 'month']).optional().describe('Time interval'),
-      length: z.number().optional().describe('Conversion window length'),
-      lengthUnit: z.enum(['day', 'hour', 'minute', 'week']).optional().describe('Conversion window unit'),
+  Funnel conversion data with step-by-step metrics. With analyze, also an
+  analysis with the median and p90 time between steps, the time-to-convert
+  distribution, and per step the property values most associated with
+  dropping off (lift is the value's drop rate minus the step's), and
+  analysisNotes on where the analysis differs from the saved funnel.`,
+      inputSchema: {
+        funnelId: z.number().describe('Funnel ID'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        interval: z.enum(['day', 'week', 'month']).optional().describe('Time interval'),
+        length: z.number().optional().describe('Conversion window length'),
+        lengthUnit: z.enum(['day', 'hour', 'minute', 'week']).optional().describe('Conversion window unit'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        analyze: z.boolean().optional().describe('Add time-to-convert and drop-off diagnostics'),
+        analysisProperties: z
+          .array(z.string())
+          .optional()
+          .describe('Event properties to compare between dropped and continuing users'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(analyzedFunnelSchema),
     },
-    async ({ funnelId, fromDate, toDate, interval, length, lengthUnit }) => {
+    async ({
+      funnelId,
+      fromDate,
+      toDate,
+      interval,
+      length,
+      lengthUnit,
+      cohortId,
+      analyze,
+      analysisProperties,
+      bypassCache,
+    }) => {
       try {
         const result = await client.getFunnel(funnelId, {
           fromDate,
@@ -66,8 +136,150 @@ Returns:
           interval,
           length,
           lengthUnit,
+          cohortId,
+          bypassCache,
+        });
+        context.session?.recordQuery('mixpanel_get_funnel', {
+          funnelId,
+          fromDate,
+          toDate,
+          interval,
+          cohortId,
+        });
+        if (!analyze) return respond(result);
+
+        const firstDate = result.meta.dates[0] ?? Object.keys(result.data)[0];
+        const savedSteps = result.data[firstDate]?.steps ?? [];
+        const analysis = await client.analyzeFunnel({
+          steps: savedSteps.map((step) => ({ event: step.event })),
+          fromDate,
+          toDate,
+          length,
+          lengthUnit,
+          cohortId,
+          properties: analysisProperties,
+          bypassCache,
+        });
+
+        // Mixpanel does not report a saved funnel's window, and step filters
+        // come back only as selector expressions, which JQL cannot evaluate
+        const analysisNotes: string[] = [];
+        const filtered = savedSteps.flatMap((step, i) => (step.selector ? [i + 1] : []));
+        if (filtered.length > 0) {
+          analysisNotes.push(
+            `The filters on step${filtered.length > 1 ? 's' : ''} ${filtered.join(', ')} ` +
+              'were dropped: the analysis counts every matching event.'
+          );
+        }
+        if (length === undefined) {
+          analysisNotes.push(
+            "The analysis uses a 30-day conversion window, which may not be the saved funnel's; " +
+              'pass length and lengthUnit to set both.'
+          );
+        }
+        return respond({
+          ...result,
+          analysis,
+          ...(analysisNotes.length > 0 && { analysisNotes }),
         });
-        return formatResponse(result);
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Build Funnel
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_build_funnel',
+    {
+      description: `Compute a funnel from an ordered list of steps, without a saved funnel.
+
+Runs a JQL query over raw events, so it is slower than mixpanel_get_funnel
+and counts the funnel per user: a user enters on the first step and their
+furthest attempt within the conversion window is counted. Entry dates are UTC.
+
+Args:
+  - steps: 2-20 steps, each with:
+    - event: Event name
+    - filters: Event property filters, all of which must match (optional),
+      each { property, operator, value }. Operators: equals, not_equals,
+      contains, greater_than, less_than, is_set, is_not_set
+    - label: Step name in results (optional, default: event name)
+  - fromDate: Start date (YYYY-MM-DD)
+  - toDate: End date (YYYY-MM-DD)
+  - length: Conversion window length (default: 30 days)
+  - lengthUnit: Conversion window unit (day, hour, minute, week)
+  - order: sequential (steps in order, default) or any (steps in any order)
+  - breakdown: First-step event property to break results down by (optional)
+  - analyze: Add time-to-convert and drop-off diagnostics (optional)
+  - analysisProperties: Event properties to compare between users who
+    dropped and users who continued (optional, default: $browser, $os,
+    mp_country_code, utm_source)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
+
+Returns:
+  Funnel conversion data by entry date with step-by-step metrics (the same
+  shape as mixpanel_get_funnel), plus totals per breakdown value. With
+  analyze, also the same analysis as mixpanel_get_funnel.`,
+      inputSchema: {
+        steps: z
+          .array(
+            z.object({
+              event: z.string().describe('Event name'),
+              filters: z
+                .array(
+                  z.object({
+                    property: z.string().describe('Event property'),
+                    operator: z
+                      .enum([
+                        'equals',
+                        'not_equals',
+                        'contains',
+                        'greater_than',
+                        'less_than',
+                        'is_set',
+                        'is_not_set',
+                      ])
+                      .describe('Comparison'),
+                    value: z
+                      .union([z.string(), z.number(), z.boolean()])
+                      .optional()
+                      .describe('Compared value'),
+                  })
+                )
+                .optional()
+                .describe('Event property filters'),
+              label: z.string().optional().describe('Step name in results'),
+            })
+          )
+          .min(2)
+          .max(20)
+          .describe('Ordered funnel steps'),
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        length: z.number().optional().describe('Conversion window length'),
+        lengthUnit: z.enum(['day', 'hour', 'minute', 'week']).optional().describe('Conversion window unit'),
+        order: z.enum(['sequential', 'any']).optional().describe('Step ordering'),
+        breakdown: z.string().optional().describe('First-step property to break down by'),
+        analyze: z.boolean().optional().describe('Add time-to-convert and drop-off diagnostics'),
+        analysisProperties: z
+          .array(z.string())
+          .optional()
+          .describe('Event properties to compare between dropped and continuing users'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(analyzedAdHocFunnelSchema),
+    },
+    async ({ analyze, analysisProperties, ...params }) => {
+      try {
+        const result = await client.buildFunnel(params);
+        context.session?.recordQuery('mixpanel_build_funnel', params);
+        if (!analyze) return respond(result);
+
+        const analysis = await client.analyzeFunnel({ ...params, properties: analysisProperties });
+        return respond({ ...result, analysis });
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -77,9 +289,10 @@ Returns:
   // ===========================================================================
   // Get Retention
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_retention',
-    `Get retention cohort data.
+    {
+      description: `Get retention cohort data.
 
 Analyze how many users who performed a "born" event return to perform another event.
 
@@ -92,23 +305,30 @@ Args:
   - interval: Days between retention periods
   - intervalCount: Number of retention periods
   - unit: Time unit (day, week, month)
+  - cohortId: Restrict to members of this saved cohort (optional)
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   Retention data showing percent of users returning over time.`,
-    {
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      bornEvent: z.string().optional().describe('Event that defines the cohort'),
-      event: z.string().optional().describe('Return event to track'),
-      retentionType: z.enum(['birth', 'compounding']).optional().describe('Retention type'),
-      interval: z.number().optional().describe('Days between retention periods'),
-      intervalCount: z.number().optional().describe('Number of retention periods'),
-      unit: z.enum(['day', 'week', 'month']).optional().describe('Time unit'),
+      inputSchema: {
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        bornEvent: z.string().optional().describe('Event that defines the cohort'),
+        event: z.string().optional().describe('Return event to track'),
+        retentionType: z.enum(['birth', 'compounding']).optional().describe('Retention type'),
+        interval: z.number().optional().describe('Days between retention periods'),
+        intervalCount: z.number().optional().describe('Number of retention periods'),
+        unit: z.enum(['day', 'week', 'month']).optional().describe('Time unit'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(retentionDataSchema),
     },
     async (params) => {
       try {
         const result = await client.getRetention(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_get_retention', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -118,9 +338,10 @@ Returns:
   // ===========================================================================
   // Get Frequency
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_frequency',
-    `Get frequency analysis for an event.
+    {
+      description: `Get frequency analysis for an event.
 
 Shows how often users perform an event within the time period.
 
@@ -128,22 +349,27 @@ Args:
   - fromDate: Start date (YYYY-MM-DD)
   - toDate: End date (YYYY-MM-DD)
   - event: Event name to analyze
-  - where: Filter expression
+  - where: Filter expression or structured filter (optional)
   - on: Property to segment by
+  - bypassCache: Skip cached results and fetch fresh data (optional)
 
 Returns:
   Frequency distribution data.`,
-    {
-      fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
-      toDate: z.string().describe('End date (YYYY-MM-DD)'),
-      event: z.string().describe('Event name to analyze'),
-      where: z.string().optional().describe('Filter expression'),
-      on: z.string().optional().describe('Property to segment by'),
+      inputSchema: {
+        fromDate: z.string().describe('Start date (YYYY-MM-DD)'),
+        toDate: z.string().describe('End date (YYYY-MM-DD)'),
+        event: z.string().describe('Event name to analyze'),
+        where: whereSchema,
+        on: z.string().optional().describe('Property to segment by'),
+        bypassCache: z.boolean().optional().describe('Skip cached results and fetch fresh data'),
+      },
+      outputSchema: resultSchema(retentionDataSchema),
     },
     async (params) => {
       try {
         const result = await client.getFrequency(params);
-        return formatResponse(result);
+        context.session?.recordQuery('mixpanel_get_frequency', params);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -7,18 +7,35 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { createConfirmationGate } from '../utils/confirmation.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import {
+  confirmTokenSchema,
+  gdprRequestCreatedSchema,
+  gdprRequestSchema,
+  resultSchema,
+  successSchema,
+} from './schemas.js';
 
 /**
  * Register all GDPR-related tools
  */
-export function registerGDPRTools(server: McpServer, client: MixpanelClient): void {
+export function registerGDPRTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+  const confirm = createConfirmationGate(server, context.credentials);
+
   // ===========================================================================
   // Create Data Retrieval Request
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_data_retrieval',
-    `Create a GDPR data retrieval request.
+    {
+      description: `Create a GDPR data retrieval request.
 
 Request an export of all data for specific users.
 Requires X-Mixpanel-Project-Token header.
@@ -30,15 +47,17 @@ Args:
 
 Returns:
   Request ID and status.`,
-    {
-      distinctIds: z.array(z.string()).describe('User distinct IDs'),
-      dataType: z.enum(['events', 'people']).optional().describe('Data type to retrieve'),
-      completionEmail: z.string().email().optional().describe('Notification email'),
+      inputSchema: {
+        distinctIds: z.array(z.string()).describe('User distinct IDs'),
+        dataType: z.enum(['events', 'people']).optional().describe('Data type to retrieve'),
+        completionEmail: z.string().email().optional().describe('Notification email'),
+      },
+      outputSchema: resultSchema(gdprRequestCreatedSchema),
     },
     async ({ distinctIds, dataType, completionEmail }) => {
       try {
         const result = await client.createDataRetrieval(distinctIds, { dataType, completionEmail });
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -48,9 +67,10 @@ Returns:
   // ===========================================================================
   // Get Data Retrieval Status
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_data_retrieval_status',
-    `Check the status of a GDPR data retrieval request.
+    {
+      description: `Check the status of a GDPR data retrieval request.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -59,13 +79,15 @@ Args:
 
 Returns:
   Status and results (if complete).`,
-    {
-      requestId: z.string().describe('Retrieval request ID'),
+      inputSchema: {
+        requestId: z.string().describe('Retrieval request ID'),
+      },
+      outputSchema: resultSchema(gdprRequestSchema),
     },
     async ({ requestId }) => {
       try {
         const result = await client.getDataRetrievalStatus(requestId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -75,26 +97,50 @@ Returns:
   // ===========================================================================
   // Create Data Deletion Request
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_data_deletion',
-    `Create a GDPR data deletion request.
+    {
+      description: `Create a GDPR data deletion request.
 
 Request permanent deletion of all data for specific users.
 This action is irreversible once processing begins.
 Requires X-Mixpanel-Project-Token header.
+Asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - distinctIds: Array of user distinct IDs to delete data for
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Request ID and status.`,
-    {
-      distinctIds: z.array(z.string()).describe('User distinct IDs to delete'),
+      inputSchema: {
+        distinctIds: z.array(z.string()).describe('User distinct IDs to delete'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(gdprRequestCreatedSchema),
     },
-    async ({ distinctIds }) => {
+    async ({ distinctIds, confirmToken }, extra) => {
       try {
+        await confirm(
+          {
+            tool: 'mixpanel_create_data_deletion',
+            args: { distinctIds },
+            summarize: async () => {
+              const shown = distinctIds.slice(0, 10).map((id) => `"${id}"`);
+              const hidden = distinctIds.length - shown.length;
+              const more = hidden > 0 ? ` and ${hidden} more` : '';
+              return (
+                `Permanently delete all events and profile data of ${distinctIds.length} user(s): ` +
+                `${shown.join(', ')}${more}.`
+              );
+            },
+          },
+          confirmToken,
+          extra.requestId
+        );
         const result = await client.createDataDeletion(distinctIds);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -104,9 +150,10 @@ Returns:
   // ===========================================================================
   // Get Data Deletion Status
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_data_deletion_status',
-    `Check the status of a GDPR data deletion request.
+    {
+      description: `Check the status of a GDPR data deletion request.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -115,13 +162,15 @@ Args:
 
 Returns:
   Status of the deletion request.`,
-    {
-      requestId: z.string().describe('Deletion request ID'),
+      inputSchema: {
+        requestId: z.string().describe('Deletion request ID'),
+      },
+      outputSchema: resultSchema(gdprRequestSchema),
     },
     async ({ requestId }) => {
       try {
         const result = await client.getDataDeletionStatus(requestId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -131,9 +180,10 @@ Returns:
   // ===========================================================================
   // Cancel Data Deletion Request
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_cancel_data_deletion',
-    `Cancel a pending GDPR data deletion request.
+    {
+      description: `Cancel a pending GDPR data deletion request.
 
 Can only cancel requests that haven't started processing yet.
 Requires X-Mixpanel-Project-Token header.
@@ -143,13 +193,15 @@ Args:
 
 Returns:
   Success status.`,
-    {
-      requestId: z.string().describe('Deletion request ID to cancel'),
+      inputSchema: {
+        requestId: z.string().describe('Deletion request ID to cancel'),
+      },
+      outputSchema: resultSchema(successSchema),
     },
     async ({ requestId }) => {
       try {
         const result = await client.cancelDataDeletion(requestId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -7,18 +7,33 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { createConfirmationGate } from '../utils/confirmation.js';
+import {
+  createResponseFormatter,
+  describeIngestion,
+  formatErrorResponse,
+} from '../utils/formatters.js';
+import { confirmTokenSchema, ingestionResultSchema, resultSchema } from './schemas.js';
 
 /**
  * Register all group-related tools
  */
-export function registerGroupTools(server: McpServer, client: MixpanelClient): void {
+export function registerGroupTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+  const confirm = createConfirmationGate(server, context.credentials);
+
   // ===========================================================================
   // Set Group Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_set_group_properties',
-    `Set properties on a group profile.
+    {
+      description: `Set properties on a group profile.
 
 Groups are used for B2B/account-level analytics (e.g., companies, workspaces).
 Requires X-Mixpanel-Project-Token header.
@@ -30,15 +45,17 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      groupKey: z.string().describe('Group key (e.g., "company")'),
-      groupId: z.string().describe('Group ID'),
-      properties: z.record(z.string(), z.unknown()).describe('Properties to set'),
+      inputSchema: {
+        groupKey: z.string().describe('Group key (e.g., "company")'),
+        groupId: z.string().describe('Group ID'),
+        properties: z.record(z.string(), z.unknown()).describe('Properties to set'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ groupKey, groupId, properties }) => {
       try {
         const result = await client.setGroupProperties(groupKey, groupId, properties);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -48,9 +65,10 @@ Returns:
   // ===========================================================================
   // Set Group Properties Once
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_set_group_properties_once',
-    `Set properties on a group profile only if they don't already exist.
+    {
+      description: `Set properties on a group profile only if they don't already exist.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -61,15 +79,17 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      groupKey: z.string().describe('Group key'),
-      groupId: z.string().describe('Group ID'),
-      properties: z.record(z.string(), z.unknown()).describe('Properties to set if not existing'),
+      inputSchema: {
+        groupKey: z.string().describe('Group key'),
+        groupId: z.string().describe('Group ID'),
+        properties: z.record(z.string(), z.unknown()).describe('Properties to set if not existing'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ groupKey, groupId, properties }) => {
       try {
         const result = await client.setGroupPropertiesOnce(groupKey, groupId, properties);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -79,9 +99,10 @@ Returns:
   // ===========================================================================
   // Unset Group Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_unset_group_properties',
-    `Remove properties from a group profile.
+    {
+      description: `Remove properties from a group profile.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -92,15 +113,17 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      groupKey: z.string().describe('Group key'),
-      groupId: z.string().describe('Group ID'),
-      properties: z.array(z.string()).describe('Property names to remove'),
+      inputSchema: {
+        groupKey: z.string().describe('Group key'),
+        groupId: z.string().describe('Group ID'),
+        properties: z.array(z.string()).describe('Property names to remove'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ groupKey, groupId, properties }) => {
       try {
         const result = await client.unsetGroupProperties(groupKey, groupId, properties);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -110,26 +133,43 @@ Returns:
   // ===========================================================================
   // Delete Group
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_delete_group',
-    `Delete a group profile entirely.
+    {
+      description: `Delete a group profile entirely.
 
 Requires X-Mixpanel-Project-Token header.
+Asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - groupKey: The group key
   - groupId: The group ID
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Status of the operation.`,
-    {
-      groupKey: z.string().describe('Group key'),
-      groupId: z.string().describe('Group ID to delete'),
+      inputSchema: {
+        groupKey: z.string().describe('Group key'),
+        groupId: z.string().describe('Group ID to delete'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
-    async ({ groupKey, groupId }) => {
+    async ({ groupKey, groupId, confirmToken }, extra) => {
       try {
+        await confirm(
+          {
+            tool: 'mixpanel_delete_group',
+            args: { groupKey, groupId },
+            summarize: async () =>
+              `Delete the group profile "${groupId}" (${groupKey}) and all its properties.`,
+          },
+          confirmToken,
+          extra.requestId
+        );
         const result = await client.deleteGroup(groupKey, groupId);
-        return formatResponse({ success: result.status === 1, message: 'Group deleted', ...result });
+        return respond({ message: 'Group deleted', ...describeIngestion(result) });
       } catch (error) {
         return formatErrorResponse(error);
       }
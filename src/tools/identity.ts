@@ -7,18 +7,31 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import {
+  createResponseFormatter,
+  describeIngestion,
+  formatErrorResponse,
+} from '../utils/formatters.js';
+import { ingestionResultSchema, resultSchema } from './schemas.js';
 
 /**
  * Register all identity-related tools
  */
-export function registerIdentityTools(server: McpServer, client: MixpanelClient): void {
+export function registerIdentityTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
   // ===========================================================================
   // Create Identity
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_identity',
-    `Link an anonymous user ID to an identified user ID.
+    {
+      description: `Link an anonymous user ID to an identified user ID.
 
 Use this when a user logs in or signs up to connect their anonymous activity
 to their identified profile.
@@ -30,14 +43,18 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('Identified user ID'),
-      anonId: z.string().describe('Anonymous user ID to link'),
+      inputSchema: {
+        distinctId: z.string().describe('Identified user ID'),
+        anonId: z.string().describe('Anonymous user ID to link'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, anonId }) => {
       try {
         const result = await client.createIdentity(distinctId, anonId);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(
+          describeIngestion(result, () => ({ event: '$identify', distinct_id: distinctId }))
+        );
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -47,9 +64,10 @@ Returns:
   // ===========================================================================
   // Create Alias
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_alias',
-    `Create an alias for a user (legacy identity management).
+    {
+      description: `Create an alias for a user (legacy identity management).
 
 Note: For new projects, use mixpanel_create_identity instead.
 Aliases allow you to associate multiple IDs with the same user.
@@ -61,14 +79,18 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('Primary distinct ID'),
-      alias: z.string().describe('Alias to create'),
+      inputSchema: {
+        distinctId: z.string().describe('Primary distinct ID'),
+        alias: z.string().describe('Alias to create'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, alias }) => {
       try {
         const result = await client.createAlias(distinctId, alias);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(
+          describeIngestion(result, () => ({ event: '$create_alias', distinct_id: distinctId }))
+        );
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -78,9 +100,10 @@ Returns:
   // ===========================================================================
   // Merge Identities
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_merge_identities',
-    `Merge two user identities into one.
+    {
+      description: `Merge two user identities into one.
 
 All events and profile data from both IDs will be combined.
 This is useful when you discover two IDs belong to the same person.
@@ -92,14 +115,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId1: z.string().describe('First distinct ID'),
-      distinctId2: z.string().describe('Second distinct ID to merge'),
+      inputSchema: {
+        distinctId1: z.string().describe('First distinct ID'),
+        distinctId2: z.string().describe('Second distinct ID to merge'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId1, distinctId2 }) => {
       try {
         const result = await client.mergeIdentities(distinctId1, distinctId2);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ event: '$merge' })));
       } catch (error) {
         return formatErrorResponse(error);
       }
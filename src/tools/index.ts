@@ -13,3 +13,4 @@ export { registerIdentityTools } from './identity.js';
 export { registerCohortTools } from './cohorts.js';
 export { registerManagementTools } from './management.js';
 export { registerGDPRTools } from './gdpr.js';
+export { registerSessionTools } from './session.js';
@@ -7,18 +7,36 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { createConfirmationGate } from '../utils/confirmation.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import {
+  annotationSchema,
+  confirmTokenSchema,
+  lookupTableSchema,
+  resultSchema,
+  schemaEntitySchema,
+  successSchema,
+} from './schemas.js';
 
 /**
  * Register all management-related tools
  */
-export function registerManagementTools(server: McpServer, client: MixpanelClient): void {
+export function registerManagementTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+  const confirm = createConfirmationGate(server, context.credentials);
+
   // ===========================================================================
   // List Annotations
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_list_annotations',
-    `List annotations in the Mixpanel project.
+    {
+      description: `List annotations in the Mixpanel project.
 
 Annotations mark significant events like releases, campaigns, etc.
 
@@ -28,14 +46,16 @@ Args:
 
 Returns:
   Array of annotations.`,
-    {
-      fromDate: z.string().optional().describe('Start date filter (YYYY-MM-DD)'),
-      toDate: z.string().optional().describe('End date filter (YYYY-MM-DD)'),
+      inputSchema: {
+        fromDate: z.string().optional().describe('Start date filter (YYYY-MM-DD)'),
+        toDate: z.string().optional().describe('End date filter (YYYY-MM-DD)'),
+      },
+      outputSchema: resultSchema(z.array(annotationSchema)),
     },
     async (params) => {
       try {
         const result = await client.listAnnotations(params);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -45,9 +65,10 @@ Returns:
   // ===========================================================================
   // Create Annotation
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_annotation',
-    `Create an annotation to mark a significant event.
+    {
+      description: `Create an annotation to mark a significant event.
 
 Annotations appear on charts to help explain data changes.
 
@@ -57,14 +78,16 @@ Args:
 
 Returns:
   The created annotation.`,
-    {
-      date: z.string().describe('Date (YYYY-MM-DD)'),
-      description: z.string().describe('Annotation description'),
+      inputSchema: {
+        date: z.string().describe('Date (YYYY-MM-DD)'),
+        description: z.string().describe('Annotation description'),
+      },
+      outputSchema: resultSchema(annotationSchema),
     },
     async (params) => {
       try {
         const result = await client.createAnnotation(params);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -74,22 +97,25 @@ Returns:
   // ===========================================================================
   // Get Annotation
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_annotation',
-    `Get a specific annotation by ID.
+    {
+      description: `Get a specific annotation by ID.
 
 Args:
   - annotationId: The annotation ID
 
 Returns:
   The annotation details.`,
-    {
-      annotationId: z.number().describe('Annotation ID'),
+      inputSchema: {
+        annotationId: z.number().describe('Annotation ID'),
+      },
+      outputSchema: resultSchema(annotationSchema),
     },
     async ({ annotationId }) => {
       try {
         const result = await client.getAnnotation(annotationId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -99,9 +125,10 @@ Returns:
   // ===========================================================================
   // Update Annotation
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_update_annotation',
-    `Update an existing annotation.
+    {
+      description: `Update an existing annotation.
 
 Args:
   - annotationId: The annotation ID
@@ -110,15 +137,17 @@ Args:
 
 Returns:
   The updated annotation.`,
-    {
-      annotationId: z.number().describe('Annotation ID'),
-      date: z.string().optional().describe('New date (YYYY-MM-DD)'),
-      description: z.string().optional().describe('New description'),
+      inputSchema: {
+        annotationId: z.number().describe('Annotation ID'),
+        date: z.string().optional().describe('New date (YYYY-MM-DD)'),
+        description: z.string().optional().describe('New description'),
+      },
+      outputSchema: resultSchema(annotationSchema),
     },
     async ({ annotationId, date, description }) => {
       try {
         const result = await client.updateAnnotation(annotationId, { date, description });
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -128,22 +157,44 @@ Returns:
   // ===========================================================================
   // Delete Annotation
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_delete_annotation',
-    `Delete an annotation.
+    {
+      description: `Delete an annotation.
+
+Asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - annotationId: The annotation ID to delete
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Success status.`,
-    {
-      annotationId: z.number().describe('Annotation ID to delete'),
+      inputSchema: {
+        annotationId: z.number().describe('Annotation ID to delete'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(successSchema),
     },
-    async ({ annotationId }) => {
+    async ({ annotationId, confirmToken }, extra) => {
       try {
+        await confirm(
+          {
+            tool: 'mixpanel_delete_annotation',
+            args: { annotationId },
+            summarize: async () => {
+              const annotation = await client.getAnnotation(annotationId).catch(() => undefined);
+              return annotation
+                ? `Delete annotation ${annotationId} ("${annotation.description}", ${annotation.date}).`
+                : `Delete annotation ${annotationId} (no annotation was found).`;
+            },
+          },
+          confirmToken,
+          extra.requestId
+        );
         const result = await client.deleteAnnotation(annotationId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -153,19 +204,22 @@ Returns:
   // ===========================================================================
   // List Lookup Tables
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_list_lookup_tables',
-    `List all lookup tables in the project.
+    {
+      description: `List all lookup tables in the project.
 
 Lookup tables allow you to enrich event data with additional context.
 
 Returns:
   Array of lookup tables with their names and metadata.`,
-    {},
+      inputSchema: {},
+      outputSchema: resultSchema(z.array(lookupTableSchema)),
+    },
     async () => {
       try {
         const result = await client.listLookupTables();
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -175,27 +229,52 @@ Returns:
   // ===========================================================================
   // Create/Replace Lookup Table
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_lookup_table',
-    `Create or replace a lookup table.
+    {
+      description: `Create or replace a lookup table.
 
 Lookup tables enrich event data with additional context.
-The first column is used as the join key.
+The first column is used as the join key. Replacing an existing table
+asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - tableName: Name of the lookup table
   - data: Array of objects representing table rows
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Status of the operation.`,
-    {
-      tableName: z.string().describe('Lookup table name'),
-      data: z.array(z.record(z.string(), z.unknown())).describe('Array of row objects'),
+      inputSchema: {
+        tableName: z.string().describe('Lookup table name'),
+        data: z.array(z.record(z.string(), z.unknown())).describe('Array of row objects'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(z.looseObject({ status: z.string() })),
     },
-    async ({ tableName, data }) => {
+    async ({ tableName, data, confirmToken }, extra) => {
       try {
+        // Creating a table needs no confirmation; replacing one overwrites its rows
+        const existing = (await client.listLookupTables()).find((table) => table.name === tableName);
+        if (existing) {
+          await confirm(
+            {
+              tool: 'mixpanel_create_lookup_table',
+              args: { tableName, data },
+              summarize: async () =>
+                `Replace lookup table "${tableName}"` +
+                `${existing.rowCount !== undefined ? ` (${existing.rowCount} rows)` : ''} ` +
+                `with ${data.length} new rows; its current rows will be lost.`,
+            },
+            confirmToken,
+            extra.requestId
+          );
+        }
         const result = await client.createOrReplaceLookupTable(tableName, data);
-        return formatResponse(result);
+        // A new table adds a lookup_table schema (mixpanel://schemas/...)
+        if (!existing) server.sendResourceListChanged();
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -205,9 +284,10 @@ Returns:
   // ===========================================================================
   // List Schemas
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_list_schemas',
-    `List data schemas (Lexicon) in the project.
+    {
+      description: `List data schemas (Lexicon) in the project.
 
 Schemas define the structure and metadata for events, profiles, and groups.
 
@@ -216,16 +296,18 @@ Args:
 
 Returns:
   Array of schemas.`,
-    {
-      entityType: z
-        .enum(['event', 'profile', 'group', 'lookup_table'])
-        .optional()
-        .describe('Schema type to list'),
+      inputSchema: {
+        entityType: z
+          .enum(['event', 'profile', 'group', 'lookup_table'])
+          .optional()
+          .describe('Schema type to list'),
+      },
+      outputSchema: resultSchema(z.array(schemaEntitySchema)),
     },
     async ({ entityType }) => {
       try {
         const result = await client.listSchemas(entityType);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -235,9 +317,10 @@ Returns:
   // ===========================================================================
   // Get Schema
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_schema',
-    `Get a specific schema definition.
+    {
+      description: `Get a specific schema definition.
 
 Args:
   - entityType: Type of schema (event, profile, group, lookup_table)
@@ -245,14 +328,16 @@ Args:
 
 Returns:
   The schema definition.`,
-    {
-      entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
-      name: z.string().describe('Schema name'),
+      inputSchema: {
+        entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
+        name: z.string().describe('Schema name'),
+      },
+      outputSchema: resultSchema(schemaEntitySchema),
     },
     async ({ entityType, name }) => {
       try {
         const result = await client.getSchema(entityType, name);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -262,9 +347,10 @@ Returns:
   // ===========================================================================
   // Create/Update Schema
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_create_schema',
-    `Create or update a schema definition.
+    {
+      description: `Create or update a schema definition.
 
 Schemas help document and validate your tracking plan.
 
@@ -275,15 +361,19 @@ Args:
 
 Returns:
   Success status.`,
-    {
-      entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
-      name: z.string().describe('Schema name'),
-      schemaJson: z.record(z.string(), z.unknown()).describe('Schema definition'),
+      inputSchema: {
+        entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
+        name: z.string().describe('Schema name'),
+        schemaJson: z.record(z.string(), z.unknown()).describe('Schema definition'),
+      },
+      outputSchema: resultSchema(successSchema),
     },
     async ({ entityType, name, schemaJson }) => {
       try {
         const result = await client.createOrUpdateSchema(entityType, name, schemaJson);
-        return formatResponse(result);
+        // The schema resources (mixpanel://schemas/...) changed
+        server.sendResourceListChanged();
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -293,24 +383,51 @@ Returns:
   // ===========================================================================
   // Delete Schema
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_delete_schema',
-    `Delete a schema definition.
+    {
+      description: `Delete a schema definition.
+
+Asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - entityType: Type of schema (event, profile, group, lookup_table)
   - name: Name of the schema to delete
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Success status.`,
-    {
-      entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
-      name: z.string().describe('Schema name to delete'),
+      inputSchema: {
+        entityType: z.enum(['event', 'profile', 'group', 'lookup_table']).describe('Schema type'),
+        name: z.string().describe('Schema name to delete'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(successSchema),
     },
-    async ({ entityType, name }) => {
+    async ({ entityType, name, confirmToken }, extra) => {
       try {
+        await confirm(
+          {
+            tool: 'mixpanel_delete_schema',
+            args: { entityType, name },
+            summarize: async () => {
+              const schema = await client.getSchema(entityType, name).catch(() => undefined);
+              const properties = schema?.schemaJson.properties;
+              const count =
+                properties && typeof properties === 'object' ? Object.keys(properties).length : 0;
+              return schema
+                ? `Delete the Lexicon schema of ${entityType} "${name}"` +
+                    `${count ? ` and its ${count} property definitions` : ''}.`
+                : `Delete the Lexicon schema of ${entityType} "${name}" (no schema was found).`;
+            },
+          },
+          confirmToken,
+          extra.requestId
+        );
         const result = await client.deleteSchema(entityType, name);
-        return formatResponse(result);
+        server.sendResourceListChanged();
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
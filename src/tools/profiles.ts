@@ -7,37 +7,65 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { MixpanelClient } from '../client.js';
-import { formatResponse, formatErrorResponse } from '../utils/formatters.js';
+import type { ServerContext } from '../types/context.js';
+import { createConfirmationGate } from '../utils/confirmation.js';
+import {
+  createResponseFormatter,
+  describeIngestion,
+  formatErrorResponse,
+} from '../utils/formatters.js';
+import {
+  confirmTokenSchema,
+  ingestionResultSchema,
+  profileActivitySchema,
+  profileQueryResultSchema,
+  resultSchema,
+  userProfileSchema,
+  whereSchema,
+} from './schemas.js';
 
 /**
  * Register all profile-related tools
  */
-export function registerProfileTools(server: McpServer, client: MixpanelClient): void {
+export function registerProfileTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+  const confirm = createConfirmationGate(server, context.credentials);
+
   // ===========================================================================
   // Query Profiles
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_query_profiles',
-    `Query user profiles from Mixpanel.
+    {
+      description: `Query user profiles from Mixpanel.
 
 Args:
-  - where: Filter expression (e.g., properties["$country_code"] == "US")
+  - where: Filter expression (e.g., properties["$country_code"] == "US") or
+    structured filter (optional)
   - sessionId: Session ID for pagination (from previous response)
   - page: Page number for pagination
   - outputProperties: List of properties to include in response
+  - cohortId: Restrict to members of this saved cohort (optional)
 
 Returns:
   Paginated list of user profiles with their properties.`,
-    {
-      where: z.string().optional().describe('Filter expression'),
-      sessionId: z.string().optional().describe('Session ID for pagination'),
-      page: z.number().optional().describe('Page number'),
-      outputProperties: z.array(z.string()).optional().describe('Properties to include'),
+      inputSchema: {
+        where: whereSchema,
+        sessionId: z.string().optional().describe('Session ID for pagination'),
+        page: z.number().optional().describe('Page number'),
+        outputProperties: z.array(z.string()).optional().describe('Properties to include'),
+        cohortId: z.number().int().optional().describe('Restrict to members of this saved cohort'),
+      },
+      outputSchema: resultSchema(profileQueryResultSchema),
     },
     async (params) => {
       try {
         const result = await client.queryProfiles(params);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -47,22 +75,25 @@ Returns:
   // ===========================================================================
   // Get Profile
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_profile',
-    `Get a single user profile by distinct_id.
+    {
+      description: `Get a single user profile by distinct_id.
 
 Args:
   - distinctId: The user's distinct ID
 
 Returns:
   User profile with all properties.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+      },
+      outputSchema: resultSchema(userProfileSchema),
     },
     async ({ distinctId }) => {
       try {
         const result = await client.getProfile(distinctId);
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -72,9 +103,10 @@ Returns:
   // ===========================================================================
   // Get Profile Activity
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_get_profile_activity',
-    `Get recent event activity for a user profile.
+    {
+      description: `Get recent event activity for a user profile.
 
 Args:
   - distinctId: The user's distinct ID
@@ -84,16 +116,18 @@ Args:
 
 Returns:
   List of recent events for the user.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      limit: z.number().optional().describe('Maximum events to return'),
-      from: z.number().optional().describe('Start timestamp (Unix)'),
-      to: z.number().optional().describe('End timestamp (Unix)'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        limit: z.number().optional().describe('Maximum events to return'),
+        from: z.number().optional().describe('Start timestamp (Unix)'),
+        to: z.number().optional().describe('End timestamp (Unix)'),
+      },
+      outputSchema: resultSchema(profileActivitySchema),
     },
     async ({ distinctId, limit, from, to }) => {
       try {
         const result = await client.getProfileActivity(distinctId, { limit, from, to });
-        return formatResponse(result);
+        return respond(result);
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -103,9 +137,10 @@ Returns:
   // ===========================================================================
   // Set Profile Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_set_profile_properties',
-    `Set properties on a user profile. Overwrites existing values.
+    {
+      description: `Set properties on a user profile. Overwrites existing values.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -115,14 +150,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.record(z.string(), z.unknown()).describe('Properties to set'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.record(z.string(), z.unknown()).describe('Properties to set'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, properties }) => {
       try {
         const result = await client.setProfileProperties(distinctId, properties as Record<string, unknown>);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -132,9 +169,10 @@ Returns:
   // ===========================================================================
   // Set Profile Properties Once
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_set_profile_properties_once',
-    `Set properties on a user profile only if they don't already exist.
+    {
+      description: `Set properties on a user profile only if they don't already exist.
 
 Useful for setting properties like "First Seen" or "Sign Up Date".
 Requires X-Mixpanel-Project-Token header.
@@ -145,14 +183,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.record(z.string(), z.unknown()).describe('Properties to set if not existing'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.record(z.string(), z.unknown()).describe('Properties to set if not existing'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, properties }) => {
       try {
         const result = await client.setProfilePropertiesOnce(distinctId, properties as Record<string, unknown>);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -162,9 +202,10 @@ Returns:
   // ===========================================================================
   // Increment Profile Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_increment_profile_properties',
-    `Increment numeric properties on a user profile.
+    {
+      description: `Increment numeric properties on a user profile.
 
 Useful for counters like "Login Count" or "Purchase Count".
 Requires X-Mixpanel-Project-Token header.
@@ -175,14 +216,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.record(z.string(), z.number()).describe('Properties to increment (property: amount)'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.record(z.string(), z.number()).describe('Properties to increment (property: amount)'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, properties }) => {
       try {
         const result = await client.incrementProfileProperties(distinctId, properties as Record<string, number>);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -192,9 +235,10 @@ Returns:
   // ===========================================================================
   // Append to Profile List
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_append_to_profile_list',
-    `Append values to a list property on a user profile.
+    {
+      description: `Append values to a list property on a user profile.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -205,15 +249,17 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      property: z.string().describe('List property name'),
-      values: z.array(z.unknown()).describe('Values to append'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        property: z.string().describe('List property name'),
+        values: z.array(z.unknown()).describe('Values to append'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, property, values }) => {
       try {
         const result = await client.appendToProfileList(distinctId, property, values);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -223,9 +269,10 @@ Returns:
   // ===========================================================================
   // Remove from Profile List
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_remove_from_profile_list',
-    `Remove values from a list property on a user profile.
+    {
+      description: `Remove values from a list property on a user profile.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -236,15 +283,17 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      property: z.string().describe('List property name'),
-      values: z.array(z.unknown()).describe('Values to remove'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        property: z.string().describe('List property name'),
+        values: z.array(z.unknown()).describe('Values to remove'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, property, values }) => {
       try {
         const result = await client.removeFromProfileList(distinctId, property, values);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -254,9 +303,10 @@ Returns:
   // ===========================================================================
   // Union to Profile List
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_union_to_profile_list',
-    `Add values to list properties only if they don't already exist (set union).
+    {
+      description: `Add values to list properties only if they don't already exist (set union).
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -266,14 +316,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.record(z.string(), z.array(z.unknown())).describe('Properties with values to union'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.record(z.string(), z.array(z.unknown())).describe('Properties with values to union'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, properties }) => {
       try {
         const result = await client.unionToProfileList(distinctId, properties as Record<string, unknown[]>);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -283,9 +335,10 @@ Returns:
   // ===========================================================================
   // Unset Profile Properties
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_unset_profile_properties',
-    `Remove properties from a user profile.
+    {
+      description: `Remove properties from a user profile.
 
 Requires X-Mixpanel-Project-Token header.
 
@@ -295,14 +348,16 @@ Args:
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID'),
-      properties: z.array(z.string()).describe('Property names to remove'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID'),
+        properties: z.array(z.string()).describe('Property names to remove'),
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
     async ({ distinctId, properties }) => {
       try {
         const result = await client.unsetProfileProperties(distinctId, properties);
-        return formatResponse({ success: result.status === 1, ...result });
+        return respond(describeIngestion(result, () => ({ distinct_id: distinctId })));
       } catch (error) {
         return formatErrorResponse(error);
       }
@@ -312,25 +367,54 @@ Returns:
   // ===========================================================================
   // Delete Profile
   // ===========================================================================
-  server.tool(
+  server.registerTool(
     'mixpanel_delete_profile',
-    `Delete a user profile entirely.
+    {
+      description: `Delete a user profile entirely.
 
 This permanently removes the profile and all its properties.
 Requires X-Mixpanel-Project-Token header.
+Asks the user to confirm first. Clients without elicitation get a
+CONFIRMATION_REQUIRED error with a confirmToken to call again with.
 
 Args:
   - distinctId: The user's distinct ID
+  - confirmToken: Token from the CONFIRMATION_REQUIRED error, once the user agrees
 
 Returns:
   Status of the operation.`,
-    {
-      distinctId: z.string().describe('User distinct ID to delete'),
+      inputSchema: {
+        distinctId: z.string().describe('User distinct ID to delete'),
+        confirmToken: confirmTokenSchema,
+      },
+      outputSchema: resultSchema(ingestionResultSchema),
     },
-    async ({ distinctId }) => {
+    async ({ distinctId, confirmToken }, extra) => {
       try {
+        await confirm(
+          {
+            tool: 'mixpanel_delete_profile',
+            args: { distinctId },
+            summarize: async () => {
+              const profile = await client.getProfile(distinctId).catch(() => undefined);
+              const properties = profile?.properties ?? {};
+              const count = Object.keys(properties).length;
+              if (count === 0) return `Delete the profile of "${distinctId}" (no profile was found).`;
+              const who = [properties.$name, properties.$email].filter(Boolean).join(', ');
+              return (
+                `Delete the profile of "${distinctId}"${who ? ` (${who})` : ''} and its ` +
+                `${count} properties.`
+              );
+            },
+          },
+          confirmToken,
+          extra.requestId
+        );
         const result = await client.deleteProfile(distinctId);
-        return formatResponse({ success: result.status === 1, message: 'Profile deleted', ...result });
+        return respond({
+          message: 'Profile deleted',
+          ...describeIngestion(result, () => ({ distinct_id: distinctId })),
+        });
       } catch (error) {
         return formatErrorResponse(error);
       }
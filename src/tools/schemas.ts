@@ -0,0 +1,400 @@
+/**
+ * Shared Tool Schemas
+ *
+ * Zod schemas for arguments accepted by tools in several modules, and for
+ * the results tools return as structured content. Result schemas are
+ * checked against the client's types, so a change to a type that the
+ * schema does not follow fails to compile.
+ */
+
+import { z } from 'zod';
+import type {
+  AdHocFunnelData,
+  Annotation,
+  Cohort,
+  CohortCountPoint,
+  CohortOverlap,
+  DropOffDriver,
+  EventSeries,
+  ExportPage,
+  FunnelAnalysis,
+  FunnelData,
+  FunnelListItem,
+  FunnelStep,
+  GDPRRequest,
+  ImportResult,
+  IngestionResult,
+  InsightsResult,
+  LookupTable,
+  PeriodComparison,
+  ProfileQueryResult,
+  RetentionData,
+  SchemaEntity,
+  SegmentationResult,
+  TimeDistribution,
+  TopEvent,
+  UserProfile,
+  WithComparison,
+} from '../client.js';
+import type { AnomalyPoint } from '../utils/anomalies.js';
+import type { FailedRecord } from '../utils/errors.js';
+import type { ForecastModel, ForecastPoint } from '../utils/forecasting.js';
+import type { WhereCondition, WhereGroup } from '../utils/where.js';
+
+// =============================================================================
+// Arguments
+// =============================================================================
+
+const whereValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const whereConditionSchema: z.ZodType<WhereCondition> = z.object({
+  property: z.string().describe('Property name'),
+  operator: z
+    .enum([
+      'equals',
+      'not_equals',
+      'contains',
+      'not_contains',
+      'greater_than',
+      'greater_than_or_equal',
+      'less_than',
+      'less_than_or_equal',
+      'in',
+      'not_in',
+      'defined',
+      'not_defined',
+      'is_true',
+      'is_false',
+      'before',
+      'after',
+      'between',
+      'in_last',
+    ])
+    .describe('Comparison'),
+  value: z
+    .union([whereValueSchema, z.array(whereValueSchema)])
+    .optional()
+    .describe('Compared value; a list for in/not_in, [from, to] for between, a count for in_last'),
+  unit: z.enum(['hour', 'day', 'week']).optional().describe('Unit for in_last (default: day)'),
+});
+
+const whereGroupSchema: z.ZodType<WhereGroup> = z.object({
+  combine: z.enum(['and', 'or']).optional().describe('How the filters combine (default: and)'),
+  get filters() {
+    return z
+      .array(z.union([whereConditionSchema, whereGroupSchema]))
+      .describe('Conditions or nested groups');
+  },
+  negate: z.boolean().optional().describe('Match when the group does not'),
+});
+
+/**
+ * A `where` filter: a raw Mixpanel expression, one condition, or a group
+ */
+export const whereSchema = z
+  .union([z.string(), whereConditionSchema, whereGroupSchema])
+  .optional()
+  .describe(
+    'Filter: a Mixpanel expression (e.g., properties["country"] == "US"), a condition ' +
+      '{ property, operator, value }, or a group { combine, filters, negate }'
+  );
+
+/**
+ * Token confirming a destructive operation, for clients without elicitation
+ */
+export const confirmTokenSchema = z
+  .string()
+  .optional()
+  .describe('Token from the CONFIRMATION_REQUIRED error, once the user has agreed');
+
+// =============================================================================
+// Results
+// =============================================================================
+//
+// Objects passed through from Mixpanel's responses are loose: Mixpanel adds
+// fields the client does not model, and clients validating structured
+// content against the published JSON Schema must not reject them.
+
+/**
+ * A result cut down to the character limit (see formatResponse). Its data
+ * is summarized or shortened, so it no longer follows the tool's schema.
+ */
+export const truncatedResultSchema = z.object({
+  truncated: z.literal(true),
+  notice: z.string(),
+  omittedItems: z.number(),
+  summarizedSeries: z.number(),
+  data: z.unknown(),
+});
+
+/**
+ * Output schema for a tool whose structured content is `{ result }`, where
+ * the result is either whole or truncated
+ */
+export function resultSchema<T extends z.ZodType>(schema: T) {
+  return z.object({ result: z.union([schema, truncatedResultSchema]) });
+}
+
+/** Time series keyed by series name, then by bucket date */
+const seriesValuesSchema = z.record(z.string(), z.record(z.string(), z.number()));
+
+const dateRangeSchema = z.object({ fromDate: z.string(), toDate: z.string() });
+
+const nullableNumber = z.number().nullable();
+
+export const periodComparisonSchema = z.object({
+  range: dateRangeSchema,
+  compareRange: dateRangeSchema,
+  series: z.record(
+    z.string(),
+    z.object({
+      current: z.number(),
+      previous: z.number(),
+      change: z.number(),
+      percentChange: nullableNumber,
+      buckets: z.array(
+        z.object({
+          date: z.string(),
+          compareDate: z.string().nullable(),
+          current: z.number(),
+          previous: nullableNumber,
+          change: nullableNumber,
+          percentChange: nullableNumber,
+        })
+      ),
+    })
+  ),
+}) satisfies z.ZodType<PeriodComparison>;
+
+export const insightsResultSchema = z.looseObject({
+  series: seriesValuesSchema,
+  dates: z.array(z.string()).optional(),
+  comparison: periodComparisonSchema.optional(),
+}) satisfies z.ZodType<WithComparison<InsightsResult>>;
+
+export const segmentationResultSchema = z.looseObject({
+  legend_size: z.number(),
+  data: z.looseObject({ series: z.array(z.string()), values: seriesValuesSchema }),
+  comparison: periodComparisonSchema.optional(),
+}) satisfies z.ZodType<WithComparison<SegmentationResult>>;
+
+/** Series by event name, plus a comparison when one was requested */
+export const eventSeriesSchema = z.object({
+  series: z.record(z.string(), z.record(z.string(), z.number())),
+  comparison: periodComparisonSchema.optional(),
+}) satisfies z.ZodType<WithComparison<EventSeries>>;
+
+export const topEventSchema = z.object({
+  event: z.string(),
+  amount: z.number(),
+  percentChange: z.number(),
+}) satisfies z.ZodType<TopEvent>;
+
+export const anomalyPointSchema = z.object({
+  date: z.string(),
+  value: z.number(),
+  expected: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+  zScore: z.number(),
+  direction: z.enum(['spike', 'drop']),
+}) satisfies z.ZodType<AnomalyPoint>;
+
+export const forecastModelSchema = z.object({
+  method: z.enum(['holt-winters', 'holt']),
+  period: z.number(),
+  alpha: z.number(),
+  beta: z.number(),
+  gamma: nullableNumber,
+  rmse: z.number(),
+}) satisfies z.ZodType<ForecastModel>;
+
+export const forecastPointSchema = z.object({
+  date: z.string(),
+  value: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+}) satisfies z.ZodType<ForecastPoint>;
+
+export const exportPageSchema = z.object({
+  events: z.array(
+    z.object({
+      event: z.string(),
+      properties: z.record(z.string(), z.unknown()),
+      time: z.number(),
+      distinctId: z.string(),
+    })
+  ),
+  cursor: z.string().optional(),
+  hasMore: z.boolean(),
+}) satisfies z.ZodType<ExportPage>;
+
+const funnelStepSchema = z.looseObject({
+  count: z.number(),
+  step_conv_ratio: z.number(),
+  overall_conv_ratio: z.number(),
+  avg_time: nullableNumber,
+  event: z.string(),
+  selector: z.string().nullable().optional(),
+}) satisfies z.ZodType<FunnelStep>;
+
+const funnelStepsSchema = z.record(z.string(), z.looseObject({ steps: z.array(funnelStepSchema) }));
+
+const timeDistributionShape = {
+  users: z.number(),
+  medianSeconds: nullableNumber,
+  p90Seconds: nullableNumber,
+  buckets: z.array(z.object({ upToSeconds: nullableNumber, users: z.number() })),
+};
+
+const dropOffDriverSchema = z.object({
+  property: z.string(),
+  value: z.string(),
+  users: z.number(),
+  dropRate: z.number(),
+  lift: z.number(),
+}) satisfies z.ZodType<DropOffDriver>;
+
+export const funnelAnalysisSchema = z.object({
+  transitions: z.array(z.object({ from: z.string(), to: z.string(), ...timeDistributionShape })),
+  timeToConvert: z.object(timeDistributionShape) satisfies z.ZodType<TimeDistribution>,
+  dropOff: z.array(
+    z.object({
+      step: z.string(),
+      reached: z.number(),
+      dropped: z.number(),
+      dropRate: z.number(),
+      drivers: z.array(dropOffDriverSchema),
+    })
+  ),
+}) satisfies z.ZodType<FunnelAnalysis>;
+
+export const funnelDataSchema = z.looseObject({
+  meta: z.looseObject({ dates: z.array(z.string()) }),
+  data: funnelStepsSchema,
+}) satisfies z.ZodType<FunnelData>;
+
+export const adHocFunnelDataSchema = funnelDataSchema.extend({
+  breakdown: funnelStepsSchema.optional(),
+}) satisfies z.ZodType<AdHocFunnelData>;
+
+export const funnelListItemSchema = z.looseObject({
+  funnel_id: z.number(),
+  name: z.string(),
+}) satisfies z.ZodType<FunnelListItem>;
+
+/** Retention and frequency reports, as returned by Mixpanel */
+export const retentionDataSchema = z.record(z.string(), z.unknown()) satisfies z.ZodType<RetentionData>;
+
+export const userProfileSchema = z.object({
+  distinctId: z.string(),
+  properties: z.record(z.string(), z.unknown()),
+}) satisfies z.ZodType<UserProfile>;
+
+export const profileQueryResultSchema = z.object({
+  results: z.array(userProfileSchema),
+  page: z.number(),
+  sessionId: z.string(),
+  total: z.number(),
+}) satisfies z.ZodType<ProfileQueryResult>;
+
+export const profileActivitySchema = z.looseObject({
+  events: z.array(
+    z.looseObject({ event: z.string(), properties: z.record(z.string(), z.unknown()) })
+  ),
+});
+
+export const cohortSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().optional(),
+  created: z.string(),
+  count: z.number().optional(),
+  is_visible: z.boolean().optional(),
+  project_id: z.number().optional(),
+}) satisfies z.ZodType<Cohort>;
+
+export const cohortCountPointSchema = z.object({
+  date: z.string(),
+  count: z.number(),
+}) satisfies z.ZodType<CohortCountPoint>;
+
+export const cohortOverlapSchema = z.object({
+  cohortA: z.object({ id: z.number(), size: z.number() }),
+  cohortB: z.object({ id: z.number(), size: z.number() }),
+  overlap: z.number(),
+  onlyA: z.number(),
+  onlyB: z.number(),
+  jaccard: z.number(),
+  sample: z.array(z.string()),
+  truncated: z.boolean(),
+}) satisfies z.ZodType<CohortOverlap>;
+
+const failedRecordSchema = z.object({
+  index: z.number(),
+  insertId: z.string().optional(),
+  field: z.string().optional(),
+  message: z.string(),
+  // Attached by the batch tools from the submitted events
+  event: z.string().optional(),
+  distinct_id: z.string().optional(),
+}) satisfies z.ZodType<FailedRecord>;
+
+/** An ingestion result, with `success` (and a message for deletions) added by the tools */
+export const ingestionResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+  status: z.number(),
+  error: z.string().optional(),
+  num_records_imported: z.number().optional(),
+  failed_records: z.array(failedRecordSchema).optional(),
+}) satisfies z.ZodType<IngestionResult>;
+
+export const importResultSchema = ingestionResultSchema.extend({
+  num_records_imported: z.number(),
+  chunks: z.number(),
+  failed_chunks: z
+    .array(
+      z.object({
+        offset: z.number(),
+        size: z.number(),
+        error: z.string(),
+        insert_ids: z.array(z.string()),
+      })
+    )
+    .optional(),
+  validation_warnings: z.record(z.string(), z.array(z.string())).optional(),
+}) satisfies z.ZodType<ImportResult>;
+
+export const annotationSchema = z.looseObject({
+  id: z.number(),
+  date: z.string(),
+  description: z.string(),
+  created: z.string().optional(),
+  updated: z.string().optional(),
+  user: z.string().optional(),
+}) satisfies z.ZodType<Annotation>;
+
+export const lookupTableSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  rowCount: z.number().optional(),
+}) satisfies z.ZodType<LookupTable>;
+
+export const schemaEntitySchema = z.looseObject({
+  entityType: z.enum(['event', 'profile', 'group', 'lookup_table']),
+  name: z.string(),
+  schemaJson: z.record(z.string(), z.unknown()),
+}) satisfies z.ZodType<SchemaEntity>;
+
+export const gdprRequestSchema = z.looseObject({
+  status: z.string(),
+  results: z.record(z.string(), z.unknown()).optional(),
+}) satisfies z.ZodType<GDPRRequest>;
+
+export const gdprRequestCreatedSchema = z.looseObject({
+  status: z.string(),
+  request_id: z.string(),
+});
+
+export const successSchema = z.looseObject({ success: z.boolean() });
@@ -0,0 +1,65 @@
+/**
+ * Session Tools
+ *
+ * MCP tools for inspecting stateful (/sse) session state. Not registered
+ * for stateless requests, which have no session.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { MixpanelClient } from '../client.js';
+import type { ServerContext } from '../types/context.js';
+import { createResponseFormatter, formatErrorResponse } from '../utils/formatters.js';
+import { resultSchema } from './schemas.js';
+
+const sessionContextSchema = z.object({
+  lastQuery: z
+    .object({ tool: z.string(), params: z.record(z.string(), z.unknown()), at: z.string() })
+    .nullable(),
+  resumableExports: z.array(z.record(z.string(), z.unknown())),
+});
+
+/**
+ * Register session tools (stateful sessions only)
+ */
+export function registerSessionTools(
+  server: McpServer,
+  client: MixpanelClient,
+  context: ServerContext
+): void {
+  const { session } = context;
+  if (!session) return;
+
+  const respond = createResponseFormatter(client, context.limits.characterLimit);
+
+  // ===========================================================================
+  // Get Session Context
+  // ===========================================================================
+  server.registerTool(
+    'mixpanel_get_session_context',
+    {
+      description: `Get the state saved for this session.
+
+Use this to recover the parameters of the previous query (for follow-up
+questions such as "same thing, but last month") or to see which exports can be
+resumed with resume: true.
+
+Returns:
+  The last query (tool, arguments and time) and the filters of every export
+  with a saved cursor.`,
+      inputSchema: {},
+      outputSchema: resultSchema(sessionContextSchema),
+    },
+    async () => {
+      try {
+        const { lastQuery, cursors } = session.snapshot();
+        return respond({
+          lastQuery: lastQuery ?? null,
+          resumableExports: Object.keys(cursors).map((filters) => JSON.parse(filters)),
+        });
+      } catch (error) {
+        return formatErrorResponse(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Server Context
+ *
+ * Everything a server instance needs beyond the MCP server itself: the
+ * tenant's credentials, the deployment's environment and bindings, the
+ * Worker execution context, a logger and, for stateful sessions, the session
+ * store. Created once per request (or session) and threaded through the
+ * client and every tool registration function.
+ */
+
+import { type Logger, createLogger } from '../utils/logger.js';
+import {
+  type Env,
+  type TenantCredentials,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from './env.js';
+import type { SessionStore } from './session.js';
+
+export interface ServerLimits {
+  /** Maximum characters in a single tool response */
+  characterLimit: number;
+
+  /** Page size used when a list tool is called without a limit */
+  defaultPageSize: number;
+
+  /** Largest page size a list tool will honor */
+  maxPageSize: number;
+}
+
+export interface ServerContext {
+  credentials: TenantCredentials;
+  env: Env;
+
+  /** Worker execution context, for work that outlives the response (waitUntil) */
+  executionContext?: ExecutionContext;
+
+  logger: Logger;
+  limits: ServerLimits;
+
+  /** Fetch used for every Mixpanel request (replaceable with an in-process fake) */
+  fetch: typeof fetch;
+
+  /** Session state, only present in stateful (/sse) sessions */
+  session?: SessionStore;
+}
+
+/**
+ * Create a server context, resolving limits from the environment
+ */
+export function createServerContext(params: {
+  credentials: TenantCredentials;
+  env: Env;
+  executionContext?: ExecutionContext;
+  logger?: Logger;
+  session?: SessionStore;
+  fetch?: typeof fetch;
+}): ServerContext {
+  const { credentials, env, executionContext, session } = params;
+
+  return {
+    credentials,
+    env,
+    executionContext,
+    logger: params.logger ?? createLogger({ projectId: credentials.projectId }),
+    limits: {
+      characterLimit: getCharacterLimit(env),
+      defaultPageSize: getDefaultPageSize(env),
+      maxPageSize: getMaxPageSize(env),
+    },
+    fetch: params.fetch ?? ((input, init) => fetch(input, init)),
+    session,
+  };
+}
+
+/**
+ * Resolve a requested page size against the deployment's limits
+ */
+export function resolvePageSize(limits: ServerLimits, requested?: number): number {
+  return Math.min(requested || limits.defaultPageSize, limits.maxPageSize);
+}
@@ -84,6 +84,35 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /**
+   * Serve every Mixpanel API from this base URL instead of the real hosts
+   * (for a local mock or a proxy). Optional.
+   */
+  MIXPANEL_BASE_URL?: string;
+
+  /**
+   * Set to "true" to serve /mcp from sample data without credentials: the
+   * fixture file stored in FIXTURES_KV under "fixtures/demo" when present,
+   * and the in-process fake Mixpanel otherwise. Optional.
+   */
+  DEMO_MODE?: string;
+
+  /**
+   * Set to "true" to record scrubbed Mixpanel traffic from /mcp requests
+   * into FIXTURES_KV. Optional.
+   */
+  RECORD_FIXTURES?: string;
+
+  // ===========================================================================
+  // Secrets (from wrangler secret put)
+  // ===========================================================================
+
+  /** Key material for sealed session tokens (enables POST /sse/token) */
+  SESSION_TOKEN_SECRET?: string;
+
+  /** Salt for the distinct ID pseudonyms in recorded fixtures */
+  FIXTURE_SCRUB_SALT?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
@@ -91,6 +120,9 @@ export interface Env {
   /** KV namespace for caching */
   CACHE_KV?: KVNamespace;
 
+  /** KV namespace for recorded fixture files */
+  FIXTURES_KV?: KVNamespace;
+
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
@@ -114,6 +146,14 @@ export function getEnvNumber(env: Env, key: keyof Env, defaultValue: number): nu
   return defaultValue;
 }
 
+/**
+ * Whether a boolean environment flag is set to "true"
+ */
+export function getEnvFlag(env: Env, key: keyof Env): boolean {
+  const value = env[key];
+  return typeof value === 'string' && value.toLowerCase() === 'true';
+}
+
 /**
  * Get the character limit from environment
  */
@@ -5,3 +5,5 @@
  */
 
 export * from './env.js';
+export * from './context.js';
+export * from './session.js';
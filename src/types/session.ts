@@ -0,0 +1,87 @@
+/**
+ * Session State
+ *
+ * State kept for a stateful (/sse) session between tool calls: export
+ * cursors, so paging can resume without the client tracking them, and the
+ * most recent query, so follow-up questions can reuse its parameters.
+ * Persisted by the session's Durable Object; stateless requests have none.
+ */
+
+import { stableStringify } from '../utils/hashing.js';
+
+/** Oldest cursors are dropped beyond this many distinct exports */
+const MAX_SESSION_CURSORS = 20;
+
+export interface QueryContext {
+  /** Tool that ran the query */
+  tool: string;
+
+  /** Arguments the tool was called with */
+  params: Record<string, unknown>;
+
+  /** ISO timestamp of the call */
+  at: string;
+}
+
+export interface SessionState {
+  /** Next-page cursors keyed by the export's normalized filters */
+  cursors: Record<string, string>;
+
+  lastQuery?: QueryContext;
+}
+
+export const INITIAL_SESSION_STATE: SessionState = { cursors: {} };
+
+export interface SessionStore {
+  /** Cursor saved by the last page of an export with these filters */
+  getCursor(filters: Record<string, unknown>): string | undefined;
+
+  /** Save (or, with no cursor, clear) the next-page cursor for an export */
+  setCursor(filters: Record<string, unknown>, cursor?: string): void;
+
+  recordQuery(tool: string, params: Record<string, unknown>): void;
+
+  /** Current state, for inspection */
+  snapshot(): SessionState;
+}
+
+/**
+ * Create a session store over a state holder such as an Agent
+ */
+export function createSessionStore(holder: {
+  readonly state: SessionState;
+  setState(state: SessionState): void;
+}): SessionStore {
+  const cursorKey = (filters: Record<string, unknown>) =>
+    stableStringify(
+      Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined))
+    );
+
+  return {
+    getCursor: (filters) => holder.state.cursors[cursorKey(filters)],
+
+    setCursor: (filters, cursor) => {
+      const key = cursorKey(filters);
+      const { [key]: _previous, ...cursors } = holder.state.cursors;
+      if (cursor) {
+        cursors[key] = cursor;
+      }
+
+      const keys = Object.keys(cursors);
+      for (const stale of keys.slice(0, Math.max(0, keys.length - MAX_SESSION_CURSORS))) {
+        delete cursors[stale];
+      }
+
+      holder.setState({ ...holder.state, cursors });
+    },
+
+    recordQuery: (tool, params) => {
+      holder.setState({
+        ...holder.state,
+        lastQuery: { tool, params, at: new Date().toISOString() },
+      });
+    },
+
+    snapshot: () => holder.state,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Anomaly Detection Utilities
+ *
+ * Seasonality-aware outlier detection for a single time series. Each point
+ * is split into a trend (rolling median over one season), a seasonal offset
+ * (median deviation from trend for its weekday or hour) and a residual.
+ * Residuals are scored as robust z-scores (median absolute deviation), so
+ * the anomalies being looked for do not inflate the spread they are
+ * measured against.
+ */
+
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AnomalyDirection = 'spike' | 'drop';
+
+export interface AnomalyOptions {
+  /** Points per season (7 for daily data, 24 for hourly); 1 disables seasonality */
+  period: number;
+  /** Robust z-score beyond which a point is flagged */
+  threshold: number;
+  /** Only flag spikes or drops (default: both) */
+  direction?: AnomalyDirection;
+  /**
+   * The last bucket is still filling up, so it is left out rather than
+   * flagged as a drop
+   */
+  partialLast?: boolean;
+}
+
+export interface AnomalyPoint {
+  date: string;
+  value: number;
+  expected: number;
+  /** Expected range at the threshold; values outside it are flagged */
+  lower: number;
+  upper: number;
+  zScore: number;
+  direction: AnomalyDirection;
+}
+
+export interface AnomalyScan {
+  points: number;
+  /** Seasonality actually used (1 when the series is too short for its period) */
+  period: number;
+  anomalies: AnomalyPoint[];
+  /** The incomplete last bucket, when it was left out of the scan */
+  partialBucket?: { date: string; value: number };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/** Fewest buckets a series needs to be scanned */
+export const ANOMALY_MIN_POINTS = 7;
+
+/** Seasons of history needed before seasonality is modelled */
+const MIN_SEASONS = 2;
+
+/** Scales a median absolute deviation to a normal standard deviation */
+const MAD_SCALE = 1.4826;
+
+/** Scales a mean absolute deviation to a normal standard deviation */
+const MEAN_AD_SCALE = 1.2533;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Centered rolling median, with the window shrinking at the edges */
+function rollingMedian(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) =>
+    median(values.slice(Math.max(0, i - half), Math.min(values.length, i + half + 1)))
+  );
+}
+
+/**
+ * Robust spread of residuals. Falls back to the mean absolute deviation when
+ * more than half the residuals are identical (MAD is then 0).
+ */
+function robustScale(residuals: number[]): number {
+  const center = median(residuals);
+  const deviations = residuals.map((r) => Math.abs(r - center));
+  const mad = median(deviations) * MAD_SCALE;
+  if (mad > 0) return mad;
+  return (deviations.reduce((sum, d) => sum + d, 0) / deviations.length) * MEAN_AD_SCALE;
+}
+
+/**
+ * Flag points of a series (bucket date -> value) that fall outside their
+ * seasonal expectation. Series shorter than two periods are scanned without
+ * seasonality.
+ */
+export function detectAnomalies(
+  series: Record<string, number>,
+  options: AnomalyOptions
+): AnomalyScan {
+  const entries = Object.entries(series)
+    .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const partial = options.partialLast ? entries.pop() : undefined;
+  if (entries.length < ANOMALY_MIN_POINTS) {
+    throw new ValidationError('Series is too short', {
+      fromDate: [`At least ${ANOMALY_MIN_POINTS} buckets are needed; widen the date range`],
+    });
+  }
+
+  const values = entries.map(([, value]) => value);
+  const period = entries.length >= options.period * MIN_SEASONS ? options.period : 1;
+  const trend = rollingMedian(values, Math.max(period, ANOMALY_MIN_POINTS));
+
+  const seasonal = new Array<number>(period).fill(0);
+  if (period > 1) {
+    for (let phase = 0; phase < period; phase++) {
+      const detrended: number[] = [];
+      for (let i = phase; i < values.length; i += period) detrended.push(values[i] - trend[i]);
+      seasonal[phase] = median(detrended);
+    }
+  }
+
+  const expected = values.map((_, i) => trend[i] + seasonal[i % period]);
+  const residuals = values.map((value, i) => value - expected[i]);
+  const scale = robustScale(residuals);
+  const center = median(residuals);
+
+  const anomalies: AnomalyPoint[] = [];
+  if (scale > 0) {
+    entries.forEach(([date, value], i) => {
+      const zScore = (residuals[i] - center) / scale;
+      if (Math.abs(zScore) < options.threshold) return;
+      const direction: AnomalyDirection = zScore > 0 ? 'spike' : 'drop';
+      if (options.direction && options.direction !== direction) return;
+
+      const mid = expected[i] + center;
+      anomalies.push({
+        date,
+        value,
+        expected: mid,
+        lower: mid - options.threshold * scale,
+        upper: mid + options.threshold * scale,
+        zScore,
+        direction,
+      });
+    });
+  }
+
+  return {
+    points: entries.length,
+    period,
+    anomalies,
+    ...(partial && { partialBucket: { date: partial[0], value: partial[1] } }),
+  };
+}
+
+// =============================================================================
+// Annotations
+// =============================================================================
+
+/** Parse a bucket key ("2024-01-08" or "2024-01-08 10:00:00") as UTC */
+function bucketTime(date: string): number {
+  return Date.parse(date.length <= 10 ? `${date}T00:00:00Z` : `${date.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Attach to each anomaly the annotations dated within its bucket or the
+ * bucket before it, so a release shortly before a spike is picked up
+ */
+export function annotateAnomalies<A extends { date: string }>(
+  anomalies: AnomalyPoint[],
+  series: Record<string, number>,
+  annotations: A[]
+): Array<AnomalyPoint & { annotations: A[] }> {
+  const starts = Object.keys(series).sort().map(bucketTime);
+  const timed = annotations.map((annotation) => ({ annotation, time: bucketTime(annotation.date) }));
+
+  return anomalies.map((anomaly) => {
+    const start = bucketTime(anomaly.date);
+    const i = starts.indexOf(start);
+    const size = i > 0 ? start - starts[i - 1] : (starts[i + 1] ?? start) - start;
+    const from = i > 0 ? starts[i - 1] : start - size;
+    const to = starts[i + 1] ?? start + size;
+    return {
+      ...anomaly,
+      annotations: timed
+        .filter(({ time }) => time >= from && time < to)
+        .map(({ annotation }) => annotation),
+    };
+  });
+}
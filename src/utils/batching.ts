@@ -0,0 +1,79 @@
+/**
+ * Batching Utilities
+ *
+ * Helpers for splitting large payloads into API-compliant chunks, running
+ * them with bounded parallelism and compressing request bodies.
+ */
+
+export interface Chunk<T> {
+  /** Index of the chunk's first record in the original array */
+  offset: number;
+  records: T[];
+}
+
+/**
+ * Split records into chunks that stay within a record count and an
+ * uncompressed JSON byte size. A single oversized record gets its own chunk.
+ */
+export function chunkRecords<T>(
+  records: T[],
+  limits: { maxRecords: number; maxBytes: number }
+): Array<Chunk<T>> {
+  const encoder = new TextEncoder();
+  const chunks: Array<Chunk<T>> = [];
+  let current: Chunk<T> = { offset: 0, records: [] };
+  // Account for the enclosing brackets of the JSON array
+  let currentBytes = 2;
+
+  records.forEach((record, index) => {
+    // Record plus its separating comma
+    const size = encoder.encode(JSON.stringify(record)).byteLength + 1;
+    const full =
+      current.records.length >= limits.maxRecords ||
+      (current.records.length > 0 && currentBytes + size > limits.maxBytes);
+
+    if (full) {
+      chunks.push(current);
+      current = { offset: index, records: [] };
+      currentBytes = 2;
+    }
+
+    current.records.push(record);
+    currentBytes += size;
+  });
+
+  if (current.records.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Map over items with at most `limit` operations in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Gzip a string body
+ */
+export async function gzipText(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,136 @@
+/**
+ * Response Cache
+ *
+ * KV-backed cache for read-only Query API responses. Entries are scoped to a
+ * tenant (project ID plus a hash of the credentials), so one customer's
+ * results are never served to another, and keyed by normalized parameters.
+ */
+
+import type { TenantCredentials } from '../types/env.js';
+import { sha256Hex, stableStringify } from './hashing.js';
+import type { Logger } from './logger.js';
+
+// =============================================================================
+// TTLs
+// =============================================================================
+
+/** Ranges that ended before the reporting day: the numbers no longer change */
+export const CACHE_TTL_HISTORICAL = 24 * 60 * 60;
+
+/** Ranges that include today: still filling in */
+export const CACHE_TTL_LIVE = 5 * 60;
+
+/** Schema-like lookups (event names, properties, saved funnels and cohorts) */
+export const CACHE_TTL_METADATA = 60 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bump to invalidate every existing entry after a response shape change */
+const KEY_VERSION = 'v1';
+
+export interface CacheOptions {
+  /** Skip the cached response and fetch fresh data (the fresh result is still stored) */
+  bypassCache?: boolean;
+}
+
+/**
+ * Pick a TTL for a query ending on `toDate` (yyyy-mm-dd).
+ *
+ * Projects report in their own timezone, which can be up to a day behind
+ * UTC, so only ranges ending before yesterday (UTC) count as closed.
+ */
+export function ttlForDateRange(toDate: string, now: Date = new Date()): number {
+  const end = Date.parse(`${toDate}T00:00:00Z`);
+  if (Number.isNaN(end)) return CACHE_TTL_LIVE;
+
+  const todayUtc = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return end < todayUtc - DAY_MS ? CACHE_TTL_HISTORICAL : CACHE_TTL_LIVE;
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+export class ResponseCache {
+  private kv: KVNamespace;
+  private credentials: TenantCredentials;
+  private logger: Logger;
+  private executionContext?: ExecutionContext;
+  private scope?: Promise<string>;
+
+  constructor(
+    kv: KVNamespace,
+    credentials: TenantCredentials,
+    options: { logger: Logger; executionContext?: ExecutionContext }
+  ) {
+    this.kv = kv;
+    this.credentials = credentials;
+    this.logger = options.logger;
+    this.executionContext = options.executionContext;
+  }
+
+  /**
+   * Return the cached response for `name` + `params`, or run `load` and
+   * store its result for `ttlSeconds`.
+   *
+   * Cache failures never fail the call: they are logged and the request
+   * goes to Mixpanel.
+   */
+  async getOrLoad<T>(
+    name: string,
+    params: Record<string, unknown>,
+    ttlSeconds: number,
+    options: CacheOptions,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const key = await this.buildKey(name, params);
+
+    if (!options.bypassCache) {
+      try {
+        const hit = await this.kv.get<T>(key, 'json');
+        if (hit !== null) {
+          this.logger.debug('Cache hit', { name, ttlSeconds });
+          return hit;
+        }
+      } catch (error) {
+        this.logger.warn('Cache read failed', { name, error: String(error) });
+      }
+    }
+
+    const result = await load();
+
+    const write = this.kv
+      .put(key, JSON.stringify(result), { expirationTtl: ttlSeconds })
+      .catch((error) => this.logger.warn('Cache write failed', { name, error: String(error) }));
+
+    if (this.executionContext) {
+      this.executionContext.waitUntil(write);
+    } else {
+      await write;
+    }
+
+    return result;
+  }
+
+  /**
+   * Tenant prefix: the project ID in the clear (so entries can be listed per
+   * project) followed by a hash of the credentials
+   */
+  private tenantScope(): Promise<string> {
+    if (!this.scope) {
+      const { projectId, username, secret, euResident } = this.credentials;
+      this.scope = sha256Hex(stableStringify([projectId, username, secret, !!euResident])).then(
+        (digest) => `${projectId}:${digest.slice(0, 16)}`
+      );
+    }
+    return this.scope;
+  }
+
+  private async buildKey(name: string, params: Record<string, unknown>): Promise<string> {
+    const normalized = Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined && value !== '')
+    );
+    const digest = await sha256Hex(stableStringify(normalized));
+    return `mixpanel:${KEY_VERSION}:${await this.tenantScope()}:${name}:${digest.slice(0, 32)}`;
+  }
+}
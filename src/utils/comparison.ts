@@ -0,0 +1,168 @@
+/**
+ * Period Comparison Utilities
+ *
+ * Date range shifting and bucket-by-bucket deltas for comparing a time
+ * series against an earlier period.
+ */
+
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The period to compare against: the same-length range immediately before,
+ * the same dates a year earlier, or an explicit range
+ */
+export type CompareTo = 'previous_period' | 'previous_year' | { fromDate: string; toDate: string };
+
+export interface DateRange {
+  fromDate: string;
+  toDate: string;
+}
+
+/** Time series keyed by series name, then by bucket date */
+export type SeriesValues = Record<string, Record<string, number>>;
+
+export interface BucketDelta {
+  date: string;
+  /** Bucket at the same offset in the comparison range */
+  compareDate: string | null;
+  current: number;
+  previous: number | null;
+  change: number | null;
+  /** null when the previous value is missing or zero */
+  percentChange: number | null;
+}
+
+/** How a series' buckets combine into its period total */
+export type SeriesAggregate = 'sum' | 'mean';
+
+export interface SeriesDelta {
+  /** Period total (or mean of buckets, for averages) */
+  current: number;
+  previous: number;
+  change: number;
+  /** null when the previous total is zero */
+  percentChange: number | null;
+  buckets: BucketDelta[];
+}
+
+// =============================================================================
+// Ranges
+// =============================================================================
+
+const DAY_MS = 86_400_000;
+
+function parseDate(date: string, field: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(time)) {
+    throw new ValidationError('Invalid date', { [field]: ['Dates must be YYYY-MM-DD'] });
+  }
+  return time;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** The same calendar date a year earlier; Feb 29 maps to Feb 28 */
+function yearEarlier(time: number): number {
+  const date = new Date(time);
+  const shifted = new Date(Date.UTC(date.getUTCFullYear() - 1, date.getUTCMonth(), date.getUTCDate()));
+  if (shifted.getUTCMonth() !== date.getUTCMonth()) shifted.setUTCDate(0);
+  return shifted.getTime();
+}
+
+/**
+ * Resolve the comparison range for fromDate..toDate (inclusive)
+ */
+export function comparisonRange(range: DateRange, compareTo: CompareTo): DateRange {
+  const from = parseDate(range.fromDate, 'fromDate');
+  const to = parseDate(range.toDate, 'toDate');
+  if (from > to) {
+    throw new ValidationError('Invalid date range', {
+      fromDate: ['fromDate must be on or before toDate'],
+    });
+  }
+
+  if (compareTo === 'previous_period') {
+    const days = (to - from) / DAY_MS + 1;
+    return { fromDate: formatDate(from - days * DAY_MS), toDate: formatDate(from - DAY_MS) };
+  }
+  if (compareTo === 'previous_year') {
+    return { fromDate: formatDate(yearEarlier(from)), toDate: formatDate(yearEarlier(to)) };
+  }
+
+  const compareStart = parseDate(compareTo.fromDate, 'compareTo.fromDate');
+  const compareEnd = parseDate(compareTo.toDate, 'compareTo.toDate');
+  if (compareStart > compareEnd) {
+    throw new ValidationError('Invalid comparison range', {
+      compareTo: ['fromDate must be on or before toDate'],
+    });
+  }
+  return { fromDate: compareTo.fromDate, toDate: compareTo.toDate };
+}
+
+// =============================================================================
+// Deltas
+// =============================================================================
+
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : ((current - previous) / previous) * 100;
+}
+
+function sortedBuckets(values: Record<string, number> = {}): Array<[string, number]> {
+  return Object.entries(values)
+    .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function combine(buckets: Array<[string, number]>, aggregate: SeriesAggregate): number {
+  const sum = buckets.reduce((total, [, value]) => total + value, 0);
+  if (aggregate === 'sum') return sum;
+  return buckets.length ? sum / buckets.length : 0;
+}
+
+/**
+ * Compare each current series with the same-named previous series. Buckets
+ * are aligned by offset from the start of each range (the first day of this
+ * week against the first day of last week), not by date. Series that only
+ * exist in the previous period are reported with a current value of 0.
+ */
+export function compareSeries(
+  current: SeriesValues,
+  previous: SeriesValues,
+  aggregate: SeriesAggregate = 'sum'
+): Record<string, SeriesDelta> {
+  const names = [...new Set([...Object.keys(current), ...Object.keys(previous)])];
+  const result: Record<string, SeriesDelta> = {};
+
+  for (const name of names) {
+    const currentBuckets = sortedBuckets(current[name]);
+    const previousBuckets = sortedBuckets(previous[name]);
+    const currentTotal = combine(currentBuckets, aggregate);
+    const previousTotal = combine(previousBuckets, aggregate);
+
+    result[name] = {
+      current: currentTotal,
+      previous: previousTotal,
+      change: currentTotal - previousTotal,
+      percentChange: percentChange(currentTotal, previousTotal),
+      buckets: currentBuckets.map(([date, value], i) => {
+        const [compareDate, previousValue] = previousBuckets[i] ?? [null, null];
+        return {
+          date,
+          compareDate,
+          current: value,
+          previous: previousValue,
+          change: previousValue === null ? null : value - previousValue,
+          percentChange: previousValue === null ? null : percentChange(value, previousValue),
+        };
+      }),
+    };
+  }
+
+  return result;
+}
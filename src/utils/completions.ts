@@ -0,0 +1,115 @@
+/**
+ * Argument Completion
+ *
+ * Completion sources for prompt arguments and resource template variables,
+ * backed by the project's event names, event properties, saved cohorts,
+ * saved funnels and Lexicon schemas. Lookups go through the client's
+ * metadata cache; a failed lookup completes nothing rather than failing the
+ * request. Hints the lookups raise are dropped, so they do not show up on the
+ * next tool result.
+ */
+
+import type { MixpanelClient, SchemaEntity } from '../client.js';
+import { rankCompletions } from './fuzzy.js';
+
+/** Context of a completion request: the other arguments already filled in */
+export interface CompletionContext {
+  arguments?: Record<string, string>;
+}
+
+export type Completer = (value: string | undefined, context?: CompletionContext) => Promise<string[]>;
+
+export interface Completers {
+  eventName: Completer;
+  /** Comma-separated event names; completes the last one */
+  eventNameList: Completer;
+  /** Properties of the event named by the `eventArgument` argument */
+  propertyName(eventArgument: string): Completer;
+  cohortId: Completer;
+  funnelId: Completer;
+  schemaEntityType: Completer;
+  /** Schemas of the entity type named by the `typeArgument` argument */
+  schemaName(typeArgument: string): Completer;
+}
+
+export const SCHEMA_ENTITY_TYPES: Array<SchemaEntity['entityType']> = [
+  'event',
+  'profile',
+  'group',
+  'lookup_table',
+];
+
+/**
+ * Complete a saved item by ID prefix, or by name (returning IDs)
+ */
+function completeIds(value: string, items: Array<{ id: number; name: string }>): string[] {
+  const typed = value.trim();
+  if (/^\d+$/.test(typed)) {
+    return items.map((item) => String(item.id)).filter((id) => id.startsWith(typed));
+  }
+  const ranked = rankCompletions(typed, items.map((item) => item.name));
+  return ranked.map((name) => String(items.find((item) => item.name === name)?.id));
+}
+
+/**
+ * Create completion sources bound to a client
+ */
+export function createCompleters(client: MixpanelClient): Completers {
+  const safely =
+    (complete: (value: string, context?: CompletionContext) => Promise<string[]>): Completer =>
+    async (value, context) => {
+      try {
+        return await complete(value ?? '', context);
+      } catch {
+        return [];
+      } finally {
+        client.takeHints();
+      }
+    };
+
+  const eventNames = () => client.getEventNames({ type: 'general' });
+
+  return {
+    eventName: safely(async (value) => rankCompletions(value, await eventNames())),
+
+    eventNameList: safely(async (value) => {
+      const separator = value.lastIndexOf(',');
+      const head = separator >= 0 ? `${value.slice(0, separator + 1)} ` : '';
+      const listed = new Set(
+        value
+          .slice(0, Math.max(separator, 0))
+          .split(',')
+          .map((name) => name.trim())
+      );
+      const names = (await eventNames()).filter((name) => !listed.has(name));
+      return rankCompletions(value.slice(separator + 1), names).map((name) => `${head}${name}`);
+    }),
+
+    propertyName: (eventArgument) =>
+      safely(async (value, context) => {
+        const event = context?.arguments?.[eventArgument];
+        if (!event) return [];
+        return rankCompletions(value, await client.getEventProperties(event));
+      }),
+
+    cohortId: safely(async (value) => completeIds(value, await client.listCohorts())),
+
+    funnelId: safely(async (value) =>
+      completeIds(
+        value,
+        (await client.listFunnels()).map((funnel) => ({ id: funnel.funnel_id, name: funnel.name }))
+      )
+    ),
+
+    schemaEntityType: safely(async (value) => rankCompletions(value, SCHEMA_ENTITY_TYPES)),
+
+    schemaName: (typeArgument) =>
+      safely(async (value, context) => {
+        const typed = context?.arguments?.[typeArgument];
+        const entityType = SCHEMA_ENTITY_TYPES.find((type) => type === typed);
+        if (!entityType) return [];
+        const schemas = await client.listSchemas(entityType);
+        return rankCompletions(value, schemas.map((schema) => schema.name));
+      }),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Destructive Operation Confirmation
+ *
+ * Deleting profiles, groups, schemas and annotations, replacing lookup tables
+ * and requesting GDPR deletions cannot be undone, so these tools ask the user
+ * first. Clients that support form elicitation show the user a summary and a
+ * confirm prompt. Other clients get a two-step flow: the first call fails
+ * with a summary and a confirm token, and only a second call with the same
+ * arguments and that token runs the operation.
+ *
+ * Confirm tokens are stateless, so they work across stateless /mcp
+ * requests. A token is an HMAC, keyed with the tenant's service account
+ * secret, over the tool, its arguments and an expiry, so it confirms exactly
+ * one operation for a few minutes.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import type { TenantCredentials } from '../types/env.js';
+import { ConfirmationDeclinedError, ConfirmationRequiredError, ValidationError } from './errors.js';
+import { stableStringify } from './hashing.js';
+
+/** Confirm token lifetime (seconds) */
+export const CONFIRM_TOKEN_TTL = 5 * 60;
+
+export interface DestructiveOperation {
+  /** Tool name, bound into the confirm token */
+  tool: string;
+
+  /** Arguments the confirmation covers; a token confirms only these values */
+  args: Record<string, unknown>;
+
+  /** Describe what will be affected (called only when asking the user) */
+  summarize: () => Promise<string>;
+}
+
+/**
+ * Resolves once the user has confirmed the operation; throws
+ * ConfirmationRequiredError or ConfirmationDeclinedError otherwise
+ */
+export type ConfirmOperation = (
+  operation: DestructiveOperation,
+  confirmToken: string | undefined,
+  requestId: RequestId
+) => Promise<void>;
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Create the confirmation gate for a server's destructive tools
+ */
+export function createConfirmationGate(
+  server: McpServer,
+  credentials: TenantCredentials
+): ConfirmOperation {
+  const tokenFor = (operation: DestructiveOperation, exp: number) =>
+    sign(
+      credentials.secret,
+      stableStringify({
+        projectId: credentials.projectId,
+        tool: operation.tool,
+        args: operation.args,
+        exp,
+      })
+    ).then((signature) => `${exp}.${signature}`);
+
+  return async (operation, confirmToken, requestId) => {
+    // Elicitation, when the client supports it, is the only way to confirm:
+    // a token from an earlier call does not skip the prompt
+    if (server.server.getClientCapabilities()?.elicitation?.form) {
+      const summary = await operation.summarize();
+      const result = await server.server.elicitInput(
+        {
+          mode: 'form',
+          message: `${summary} This cannot be undone.`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: {
+                type: 'boolean',
+                title: 'Proceed',
+                description: 'Check to run the operation',
+              },
+            },
+            required: ['confirm'],
+          },
+        },
+        { relatedRequestId: requestId }
+      );
+      if (result.action !== 'accept' || result.content?.confirm !== true) {
+        throw new ConfirmationDeclinedError(summary);
+      }
+      return;
+    }
+
+    if (confirmToken) {
+      const exp = Number(confirmToken.split('.')[0]);
+      const valid = Number.isInteger(exp) && exp > Date.now();
+      if (valid && confirmToken === (await tokenFor(operation, exp))) return;
+
+      throw new ValidationError('Invalid or expired confirmToken', {
+        confirmToken: [
+          `Tokens expire after ${CONFIRM_TOKEN_TTL / 60} minutes and only confirm the arguments ` +
+            'they were issued for; call again without confirmToken to get a new one',
+        ],
+      });
+    }
+
+    const exp = Date.now() + CONFIRM_TOKEN_TTL * 1000;
+    throw new ConfirmationRequiredError(
+      await operation.summarize(),
+      await tokenFor(operation, exp),
+      new Date(exp).toISOString()
+    );
+  };
+}
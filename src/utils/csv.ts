@@ -0,0 +1,41 @@
+/**
+ * CSV Utilities
+ *
+ * Serialization of flat records to CSV, shared by lookup table uploads and
+ * cohort membership exports.
+ */
+
+/**
+ * Format one CSV field, quoting values that contain commas, quotes or
+ * newlines. Objects are written as JSON.
+ */
+export function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Format one record as a CSV row (without a line break)
+ */
+export function toCsvRow(row: Record<string, unknown>, columns: string[]): string {
+  return columns.map((column) => toCsvField(row[column])).join(',');
+}
+
+/**
+ * Format records as CSV with a header row. Columns default to the keys of
+ * the first record.
+ */
+export function toCsv(
+  rows: Array<Record<string, unknown>>,
+  columns: string[] = Object.keys(rows[0] ?? {})
+): string {
+  const lines = [columns.map(toCsvField).join(',')];
+  for (const row of rows) {
+    lines.push(toCsvRow(row, columns));
+  }
+  return lines.join('\n');
+}
@@ -11,6 +11,7 @@ export class ApiError extends Error {
   public statusCode?: number;
   public code: string;
   public retryable: boolean;
+  public attempts?: number;
 
   constructor(message: string, statusCode?: number, code?: string, retryable = false) {
     super(message);
@@ -25,9 +26,10 @@ export class ApiError extends Error {
  * Rate limit exceeded error
  */
 export class RateLimitError extends ApiError {
-  public retryAfterSeconds: number;
+  /** Server-requested delay, when the response carried a Retry-After */
+  public retryAfterSeconds?: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
+  constructor(message: string, retryAfterSeconds?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
     this.name = 'RateLimitError';
     this.retryAfterSeconds = retryAfterSeconds;
@@ -67,6 +69,64 @@ export class ValidationError extends ApiError {
   }
 }
 
+/**
+ * A single record rejected by the Ingestion API
+ */
+export interface FailedRecord {
+  /** Index of the record in the submitted batch */
+  index: number;
+  insertId?: string;
+  field?: string;
+  message: string;
+}
+
+/**
+ * Ingestion rejected error (the Ingestion API refused the payload)
+ */
+export class IngestionError extends ApiError {
+  public failedRecords: FailedRecord[];
+
+  constructor(message: string, statusCode = 400, failedRecords: FailedRecord[] = []) {
+    super(message, statusCode, 'INGESTION_REJECTED', false);
+    this.name = 'IngestionError';
+    this.failedRecords = failedRecords;
+  }
+}
+
+/**
+ * Confirmation required error (a destructive operation waits for the user to
+ * confirm it, by calling again with the confirm token)
+ */
+export class ConfirmationRequiredError extends ApiError {
+  public summary: string;
+  public confirmToken: string;
+  public expiresAt: string;
+
+  constructor(summary: string, confirmToken: string, expiresAt: string) {
+    super(
+      `Confirmation required. ${summary} Show this to the user and, only if they agree, ` +
+        'call the tool again with the same arguments and this confirmToken.',
+      428,
+      'CONFIRMATION_REQUIRED',
+      false
+    );
+    this.name = 'ConfirmationRequiredError';
+    this.summary = summary;
+    this.confirmToken = confirmToken;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Confirmation declined error (the user declined or dismissed the confirmation)
+ */
+export class ConfirmationDeclinedError extends ApiError {
+  constructor(summary: string) {
+    super(`Cancelled: the user did not confirm. ${summary}`, undefined, 'CONFIRMATION_DECLINED', false);
+    this.name = 'ConfirmationDeclinedError';
+  }
+}
+
 /**
  * Check if an error is retryable
  */
@@ -75,10 +135,11 @@ export function isRetryableError(error: unknown): boolean {
     return error.retryable;
   }
   if (error instanceof Error) {
+    const message = error.message.toLowerCase();
     return (
-      error.message.includes('network') ||
-      error.message.includes('timeout') ||
-      error.message.includes('ECONNRESET')
+      message.includes('network') ||
+      message.includes('timeout') ||
+      message.includes('econnreset')
     );
   }
   return false;
@@ -95,8 +156,14 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       code: error.code,
       statusCode: error.statusCode,
       retryable: error.retryable,
+      ...(error.attempts !== undefined && { attempts: error.attempts }),
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
       ...(error instanceof ValidationError && { details: error.details }),
+      ...(error instanceof IngestionError && { failedRecords: error.failedRecords }),
+      ...(error instanceof ConfirmationRequiredError && {
+        confirmToken: error.confirmToken,
+        expiresAt: error.expiresAt,
+      }),
     };
   }
   if (error instanceof Error) {
@@ -0,0 +1,265 @@
+/**
+ * Forecasting Utilities
+ *
+ * Additive Holt-Winters (level, trend and seasonal components) fitted to a
+ * single time series by grid search over the smoothing parameters, with
+ * prediction intervals from the model's one-step errors. Series shorter
+ * than two seasons are fitted without seasonality (Holt's linear method).
+ */
+
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ForecastUnit = 'hour' | 'day' | 'week' | 'month';
+
+export interface ForecastOptions {
+  /** Buckets to forecast */
+  horizon: number;
+  /** Points per season (7 for daily data, 24 for hourly); 1 disables seasonality */
+  period: number;
+  /** Prediction interval coverage, between 0.5 and 0.99 */
+  confidence: number;
+  /** Clamp forecasts and bounds at zero (for counts) */
+  nonNegative?: boolean;
+  /**
+   * The last bucket is still filling up (see isPartialBucket): it is left
+   * out of the fit and forecast like the buckets after it
+   */
+  partialLast?: boolean;
+}
+
+export interface ForecastModel {
+  method: 'holt-winters' | 'holt';
+  /** Seasonality actually used (1 when the series is too short for its period) */
+  period: number;
+  alpha: number;
+  beta: number;
+  gamma: number | null;
+  /** Root mean squared one-step-ahead error over the history */
+  rmse: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Forecast {
+  model: ForecastModel;
+  points: ForecastPoint[];
+  /** The incomplete last bucket, when it was left out of the fit */
+  partialBucket?: { date: string; value: number };
+}
+
+// =============================================================================
+// Model
+// =============================================================================
+
+/** Fewest buckets a series needs to be forecast */
+export const FORECAST_MIN_POINTS = 7;
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2, 0.3];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+interface Fit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  /** Seasonal offsets, indexed by position in the season */
+  seasonal: number[];
+  sse: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Run the smoothing recursions over the series, accumulating squared
+ * one-step errors after the initialization window
+ */
+function fitModel(values: number[], period: number, alpha: number, beta: number, gamma: number): Fit {
+  let level: number;
+  let trend: number;
+  let seasonal: number[];
+
+  if (period > 1) {
+    const first = mean(values.slice(0, period));
+    const second = mean(values.slice(period, 2 * period));
+    level = first;
+    trend = (second - first) / period;
+    seasonal = values.slice(0, period).map((value) => value - first);
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    seasonal = [0];
+  }
+
+  let sse = 0;
+  const start = period > 1 ? period : 1;
+  for (let i = start; i < values.length; i++) {
+    const phase = i % period;
+    const predicted = level + trend + seasonal[phase];
+    const error = values[i] - predicted;
+    sse += error * error;
+
+    const previousLevel = level;
+    level = alpha * (values[i] - seasonal[phase]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (period > 1) seasonal[phase] = gamma * (values[i] - level) + (1 - gamma) * seasonal[phase];
+  }
+
+  return { alpha, beta, gamma, level, trend, seasonal, sse };
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, accurate to
+ * about 1e-9 over the range used here)
+ */
+function normalQuantile(p: number): number {
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Forecast the buckets following a series (bucket date -> value). The
+ * interval for step h widens with the accumulated smoothing weights of the
+ * additive model: var(h) = sigma^2 * (1 + sum over j < h of c_j^2), where
+ * c_j = alpha * (1 + j * beta), plus gamma when j is a multiple of the season.
+ */
+export function forecastSeries(
+  series: Record<string, number>,
+  unit: ForecastUnit,
+  options: ForecastOptions
+): Forecast {
+  const entries = Object.entries(series)
+    .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const partial = options.partialLast ? entries.pop() : undefined;
+  if (entries.length < FORECAST_MIN_POINTS) {
+    throw new ValidationError('Series is too short', {
+      fromDate: [`At least ${FORECAST_MIN_POINTS} buckets of history are needed; widen the range`],
+    });
+  }
+
+  const values = entries.map(([, value]) => value);
+  const period = values.length >= options.period * 2 ? options.period : 1;
+
+  let best: Fit | undefined;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of period > 1 ? GAMMAS : [0]) {
+        const candidate = fitModel(values, period, alpha, beta, gamma);
+        if (!best || candidate.sse < best.sse) best = candidate;
+      }
+    }
+  }
+  const model = best as Fit;
+
+  const fitted = values.length - (period > 1 ? period : 1);
+  const sigma = Math.sqrt(model.sse / Math.max(1, fitted));
+  const z = normalQuantile(0.5 + options.confidence / 2);
+  const clamp = (value: number) => (options.nonNegative ? Math.max(0, value) : value);
+
+  const points: ForecastPoint[] = [];
+  let date = entries[entries.length - 1][0];
+  let variance = 0;
+  for (let h = 1; h <= options.horizon; h++) {
+    date = nextBucket(date, unit);
+    const phase = (values.length + h - 1) % period;
+    const value = model.level + h * model.trend + model.seasonal[phase];
+
+    if (h > 1) {
+      const j = h - 1;
+      const weight =
+        model.alpha * (1 + j * model.beta) + (period > 1 && j % period === 0 ? model.gamma : 0);
+      variance += weight * weight;
+    }
+    const margin = z * sigma * Math.sqrt(1 + variance);
+    points.push({
+      date,
+      value: clamp(value),
+      lower: clamp(value - margin),
+      upper: clamp(value + margin),
+    });
+  }
+
+  return {
+    model: {
+      method: period > 1 ? 'holt-winters' : 'holt',
+      period,
+      alpha: model.alpha,
+      beta: model.beta,
+      gamma: period > 1 ? model.gamma : null,
+      rmse: sigma,
+    },
+    points,
+    ...(partial && { partialBucket: { date: partial[0], value: partial[1] } }),
+  };
+}
+
+// =============================================================================
+// Bucket Dates
+// =============================================================================
+
+/** Furthest a timezone lags UTC (UTC-12) */
+const MAX_UTC_LAG_MS = 12 * 3_600_000;
+
+/**
+ * Whether the bucket starting at `date` may still be filling up at `now`.
+ * Mixpanel buckets by the project's timezone, which is not known here, so
+ * a bucket is only taken as complete once it has ended in every timezone.
+ */
+export function isPartialBucket(date: string, unit: ForecastUnit, now = Date.now()): boolean {
+  const end = nextBucket(date, unit);
+  const endTime = Date.parse(end.length <= 10 ? `${end}T00:00:00Z` : `${end.replace(' ', 'T')}Z`);
+  return endTime + MAX_UTC_LAG_MS > now;
+}
+
+/**
+ * The bucket key after `date` ("2024-01-08", or "2024-01-08 10:00:00" for
+ * hourly data), in the same format
+ */
+export function nextBucket(date: string, unit: ForecastUnit): string {
+  const time = new Date(date.length <= 10 ? `${date}T00:00:00Z` : `${date.replace(' ', 'T')}Z`);
+  if (unit === 'hour') {
+    time.setUTCHours(time.getUTCHours() + 1);
+    return time.toISOString().slice(0, 19).replace('T', ' ');
+  }
+  if (unit === 'month') time.setUTCMonth(time.getUTCMonth() + 1);
+  else time.setUTCDate(time.getUTCDate() + (unit === 'week' ? 7 : 1));
+  return time.toISOString().slice(0, 10);
+}
@@ -4,7 +4,10 @@
  * Helpers for formatting tool responses in JSON format.
  */
 
+import type { IngestionResult } from '../client.js';
 import { ApiError, formatErrorForLogging } from './errors.js';
+import type { RetryStats } from './retry.js';
+import { DEFAULT_CHARACTER_LIMIT, truncateToLimit } from './truncation.js';
 
 /**
  * MCP tool response type
@@ -13,15 +16,102 @@ import { ApiError, formatErrorForLogging } from './errors.js';
 export interface ToolResponse {
   [key: string]: unknown;
   content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
 /**
  * Format a successful response
+ *
+ * The result is returned as structured content (`{ result }`, matching the
+ * tool's output schema) and serialized as text for clients that only read
+ * text. Both are kept within `characterLimit`: oversized results are
+ * summarized and truncated, and wrapped in an envelope with `truncated: true`
+ * and a hint to narrow the query.
+ *
+ * When the underlying calls were retried or throttled, the retry statistics
+ * are reported in the result's `_meta`. Hints about the result (such as a
+ * possibly misspelled name) follow the JSON as a second text block, and are
+ * listed in `_meta.hints`.
+ */
+export function formatResponse(
+  data: unknown,
+  stats?: RetryStats,
+  characterLimit = DEFAULT_CHARACTER_LIMIT,
+  hints: string[] = []
+): ToolResponse {
+  const envelope = (truncatedData: unknown, omittedItems = 0, summarizedSeries = 0) => ({
+    truncated: true,
+    notice:
+      `Result exceeded ${characterLimit} characters and was truncated. ` +
+      'Narrow the date range, add filters, or request a smaller page to see everything.',
+    omittedItems,
+    summarizedSeries,
+    data: truncatedData,
+  });
+
+  const result = truncateToLimit(data, characterLimit, envelope);
+  const payload = result.truncated
+    ? envelope(result.data, result.omittedItems, result.summarizedSeries)
+    : data;
+
+  const response: ToolResponse = {
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+    structuredContent: { result: payload },
+  };
+  if (hints.length > 0) {
+    response.content.push({ type: 'text', text: hints.map((hint) => `Note: ${hint}`).join('\n') });
+  }
+
+  const meta: Record<string, unknown> = {};
+  if (stats && (stats.retries > 0 || stats.waitedMs > 0)) {
+    meta.retries = stats.retries;
+    meta.waitedMs = stats.waitedMs;
+  }
+  if (result.truncated) {
+    meta.truncated = true;
+  }
+  if (hints.length > 0) {
+    meta.hints = hints;
+  }
+  if (Object.keys(meta).length > 0) {
+    response._meta = meta;
+  }
+  return response;
+}
+
+/**
+ * Create a formatter bound to a client and a character limit.
+ *
+ * Each call drains the client's retry statistics and hints, so every tool
+ * result reports only the retries and hints from its own calls.
+ */
+export function createResponseFormatter(
+  source: { takeRetryStats(): RetryStats; takeHints(): string[] },
+  characterLimit: number
+): (data: unknown) => ToolResponse {
+  return (data) =>
+    formatResponse(data, source.takeRetryStats(), characterLimit, source.takeHints());
+}
+
+/**
+ * Shape an Ingestion API result for the ingestion tools: `success`, and on
+ * each rejected record what `describe` knows about the submitted record
+ * (its event name and distinct_id)
  */
-export function formatResponse(data: unknown): ToolResponse {
+export function describeIngestion(
+  result: IngestionResult,
+  describe: (index: number) => { event?: string; distinct_id?: string } = () => ({})
+) {
   return {
-    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    success: result.status === 1,
+    ...result,
+    ...(result.failed_records && {
+      failed_records: result.failed_records.map((record) => ({
+        ...record,
+        ...describe(record.index),
+      })),
+    }),
   };
 }
 
@@ -0,0 +1,331 @@
+/**
+ * Ad-hoc Funnel Utilities
+ *
+ * JQL scripts that compute a funnel, or a time-to-convert and drop-off
+ * analysis of one, from raw events. The scripts are fixed; the funnel
+ * definition is passed as the JQL `params` global, so step names and filter
+ * values are never spliced into code.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FunnelFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_set'
+  | 'is_not_set';
+
+export interface FunnelStepFilter {
+  property: string;
+  operator: FunnelFilterOperator;
+  /** Compared value (not used by is_set / is_not_set) */
+  value?: string | number | boolean;
+}
+
+export interface FunnelStepSpec {
+  event: string;
+  /** Event property filters; all must match */
+  filters?: FunnelStepFilter[];
+  /** Step name in results (default: the event name) */
+  label?: string;
+}
+
+/**
+ * sequential: steps must happen in the given order (other events may occur
+ * in between). any: steps may happen in any order within the window.
+ */
+export type FunnelOrder = 'sequential' | 'any';
+
+/** Funnel definition passed to the funnel scripts as `params` */
+export interface FunnelJqlParams {
+  steps: FunnelStepSpec[];
+  fromDate: string;
+  toDate: string;
+  /** Conversion window, measured from the first step */
+  windowSeconds: number;
+  order: FunnelOrder;
+  /** Event property of the first step to break results down by */
+  breakdown?: string;
+  /** Event properties compared between dropped and continuing users (analysis only) */
+  properties?: string[];
+  /** Upper bounds (seconds) of the time-to-convert histogram buckets (analysis only) */
+  bucketBounds?: number[];
+  /** Only count these users (a saved cohort's members) */
+  distinctIds?: string[];
+}
+
+/**
+ * One FUNNEL_JQL_SCRIPT result row: users who entered the funnel on `key[0]`
+ * (UTC date) with breakdown value `key[1]`. `counts[i]` users completed step
+ * i; `timeSums[i]` is their total seconds from step i-1 to step i.
+ */
+export interface FunnelJqlRow {
+  key: [string, string];
+  value: { counts: number[]; timeSums: number[] };
+}
+
+/**
+ * The FUNNEL_ANALYSIS_JQL_SCRIPT result. Histograms count users per
+ * bucketBounds bucket, with one extra bucket for longer times.
+ */
+export interface FunnelAnalysisJqlResult {
+  /** Users who completed step i */
+  reached: number[];
+  /** Time from step i to step i+1 */
+  transitions: number[][];
+  /** Time from the first step to the last, for users who converted */
+  conversion: number[];
+  /**
+   * For each step i but the last: property -> value -> [continued, dropped],
+   * counted over users who reached step i, from the properties of the event
+   * that completed step i
+   */
+  properties: Array<Record<string, Record<string, [number, number]>>>;
+}
+
+/** Breakdown value for entries where the property is not set */
+export const FUNNEL_BREAKDOWN_NONE = '(none)';
+
+/** Property values beyond this many per step are counted together */
+export const FUNNEL_MAX_PROPERTY_VALUES = 50;
+
+/** Value counting the property values beyond FUNNEL_MAX_PROPERTY_VALUES */
+export const FUNNEL_OTHER_VALUES = '(other)';
+
+// =============================================================================
+// JQL Scripts
+// =============================================================================
+
+/**
+ * Shared ES5 (what JQL runs) that computes a funnel per user: one attempt at
+ * a time, keeping the attempt that got furthest. funnelUsers() yields one
+ * entry per user who entered the funnel, with the entry date, breakdown
+ * value, and the completion time and analysis properties of each step
+ * completed.
+ */
+const FUNNEL_USERS_JS = `
+  var spec = params;
+  var n = spec.steps.length;
+  var windowMs = spec.windowSeconds * 1000;
+  var members = null;
+  if (spec.distinctIds) {
+    members = {};
+    spec.distinctIds.forEach(function(id) { members[id] = true; });
+  }
+
+  function matches(step, event) {
+    if (event.name !== step.event) return false;
+    var filters = step.filters || [];
+    for (var i = 0; i < filters.length; i++) {
+      var f = filters[i];
+      var v = event.properties[f.property];
+      var set = v !== undefined && v !== null;
+      switch (f.operator) {
+        case 'equals': if (!set || String(v) !== String(f.value)) return false; break;
+        case 'not_equals': if (set && String(v) === String(f.value)) return false; break;
+        case 'contains': if (!set || String(v).indexOf(String(f.value)) < 0) return false; break;
+        case 'greater_than': if (!set || !(Number(v) > Number(f.value))) return false; break;
+        case 'less_than': if (!set || !(Number(v) < Number(f.value))) return false; break;
+        case 'is_set': if (!set) return false; break;
+        case 'is_not_set': if (set) return false; break;
+      }
+    }
+    return true;
+  }
+
+  function valueOf(event, property) {
+    var v = event.properties[property];
+    return v === undefined || v === null ? '${FUNNEL_BREAKDOWN_NONE}' : String(v);
+  }
+
+  function keepBest(state) {
+    var a = state.attempt;
+    if (a && (!state.best || a.times.length > state.best.times.length)) state.best = a;
+    state.attempt = null;
+  }
+
+  function complete(a, event) {
+    var props = {};
+    (spec.properties || []).forEach(function(property) {
+      props[property] = valueOf(event, property);
+    });
+    a.times.push(event.time);
+    a.props.push(props);
+  }
+
+  function advance(a, event) {
+    if (spec.order === 'any') {
+      for (var i = 0; i < n; i++) {
+        if (!a.done[i] && matches(spec.steps[i], event)) {
+          a.done[i] = true;
+          complete(a, event);
+          return;
+        }
+      }
+    } else if (a.times.length < n && matches(spec.steps[a.times.length], event)) {
+      complete(a, event);
+    }
+  }
+
+  function starts(event) {
+    if (spec.order !== 'any') return matches(spec.steps[0], event);
+    for (var i = 0; i < n; i++) if (matches(spec.steps[i], event)) return true;
+    return false;
+  }
+
+  function funnelUsers() {
+    var eventNames = {};
+    var selectors = [];
+    spec.steps.forEach(function(step) {
+      if (!eventNames[step.event]) {
+        eventNames[step.event] = true;
+        selectors.push({ event: step.event });
+      }
+    });
+
+    return Events({ from_date: spec.fromDate, to_date: spec.toDate, event_selectors: selectors })
+      .filter(function(event) { return !members || members[event.distinct_id] === true; })
+      .groupByUser(function(state, events) {
+        state = state || { attempt: null, best: null, complete: false };
+        for (var i = 0; i < events.length && !state.complete; i++) {
+          var event = events[i];
+          var a = state.attempt;
+          if (a && event.time - a.start > windowMs) {
+            keepBest(state);
+            a = null;
+          }
+          if (!a) {
+            if (!starts(event)) continue;
+            a = state.attempt = {
+              start: event.time,
+              times: [],
+              done: {},
+              props: [],
+              breakdown: spec.breakdown ? valueOf(event, spec.breakdown) : '${FUNNEL_BREAKDOWN_NONE}'
+            };
+          }
+          advance(a, event);
+          if (a.times.length === n) {
+            keepBest(state);
+            state.complete = true;
+          }
+        }
+        return state;
+      })
+      .map(function(user) {
+        keepBest(user.value);
+        var best = user.value.best;
+        if (!best) return null;
+        return {
+          date: new Date(best.start).toISOString().slice(0, 10),
+          breakdown: best.breakdown,
+          times: best.times,
+          props: best.props
+        };
+      })
+      .filter(function(entry) { return entry !== null; });
+  }
+`;
+
+/**
+ * Funnel counts and summed step-to-step times by entry date and breakdown
+ * value (rows of FunnelJqlRow)
+ */
+export const FUNNEL_JQL_SCRIPT = `function main() {${FUNNEL_USERS_JS}
+  return funnelUsers().groupBy(
+    [function(entry) { return entry.date; }, function(entry) { return entry.breakdown; }],
+    function(accumulators, entries) {
+      var out = { counts: [], timeSums: [] };
+      for (var i = 0; i < n; i++) { out.counts.push(0); out.timeSums.push(0); }
+      accumulators.forEach(function(acc) {
+        for (var i = 0; i < n; i++) {
+          out.counts[i] += acc.counts[i];
+          out.timeSums[i] += acc.timeSums[i];
+        }
+      });
+      entries.forEach(function(entry) {
+        for (var i = 0; i < entry.times.length; i++) {
+          out.counts[i] += 1;
+          if (i > 0) out.timeSums[i] += (entry.times[i] - entry.times[i - 1]) / 1000;
+        }
+      });
+      return out;
+    }
+  );
+}`;
+
+/**
+ * Time-to-convert histograms and property counts for dropped vs continuing
+ * users (a single FunnelAnalysisJqlResult)
+ */
+export const FUNNEL_ANALYSIS_JQL_SCRIPT = `function main() {${FUNNEL_USERS_JS}
+  var bounds = spec.bucketBounds;
+
+  function histogram() {
+    var h = [];
+    for (var i = 0; i <= bounds.length; i++) h.push(0);
+    return h;
+  }
+
+  function bucket(seconds) {
+    for (var i = 0; i < bounds.length; i++) if (seconds <= bounds[i]) return i;
+    return bounds.length;
+  }
+
+  function count(map, property, value, index, amount) {
+    var values = map[property] = map[property] || {};
+    if (!values[value] && Object.keys(values).length >= ${FUNNEL_MAX_PROPERTY_VALUES}) {
+      value = '${FUNNEL_OTHER_VALUES}';
+    }
+    values[value] = values[value] || [0, 0];
+    values[value][index] += amount;
+  }
+
+  return funnelUsers().reduce(function(accumulators, entries) {
+    var out = { reached: [], transitions: [], conversion: histogram(), properties: [] };
+    for (var i = 0; i < n; i++) out.reached.push(0);
+    for (var i = 0; i < n - 1; i++) {
+      out.transitions.push(histogram());
+      out.properties.push({});
+    }
+
+    accumulators.forEach(function(acc) {
+      for (var i = 0; i < n; i++) out.reached[i] += acc.reached[i];
+      for (var b = 0; b <= bounds.length; b++) {
+        out.conversion[b] += acc.conversion[b];
+        for (var i = 0; i < n - 1; i++) out.transitions[i][b] += acc.transitions[i][b];
+      }
+      for (var i = 0; i < n - 1; i++) {
+        Object.keys(acc.properties[i]).forEach(function(property) {
+          var values = acc.properties[i][property];
+          Object.keys(values).forEach(function(value) {
+            count(out.properties[i], property, value, 0, values[value][0]);
+            count(out.properties[i], property, value, 1, values[value][1]);
+          });
+        });
+      }
+    });
+
+    entries.forEach(function(entry) {
+      var t = entry.times;
+      for (var i = 0; i < t.length; i++) out.reached[i]++;
+      for (var i = 1; i < t.length; i++) out.transitions[i - 1][bucket((t[i] - t[i - 1]) / 1000)]++;
+      if (t.length === n) out.conversion[bucket((t[n - 1] - t[0]) / 1000)]++;
+
+      // Users who reached step i either continued to step i+1 or dropped there
+      for (var i = 0; i < Math.min(t.length, n - 1); i++) {
+        var dropped = t.length === i + 1 ? 1 : 0;
+        var props = entry.props[i];
+        Object.keys(props).forEach(function(property) {
+          count(out.properties[i], property, props[property], dropped, 1);
+        });
+      }
+    });
+    return out;
+  });
+}`;
@@ -0,0 +1,106 @@
+/**
+ * Fuzzy Name Matching
+ *
+ * Ranking of known names (events, properties, cohorts) against partial or
+ * misspelled input, for argument completion and "did you mean" hints.
+ * Matching ignores case, spaces, underscores and a leading "$", so
+ * "signup" finds "Sign Up" and "browser" finds "$browser".
+ */
+
+/** Most suggestions offered for a name that does not exist */
+const MAX_SUGGESTIONS = 3;
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/^\$/, '').replace(/[\s_\-.]+/g, '');
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and transpositions of adjacent characters each cost 1
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Typos tolerated for input of this length */
+function typoBudget(length: number): number {
+  return Math.max(1, Math.floor(length / 3));
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (const char of haystack) {
+    if (char === needle[i]) i++;
+    if (i === needle.length) return true;
+  }
+  return needle.length === 0;
+}
+
+/**
+ * The known names closest to a name that does not exist, best first
+ */
+export function closestMatches(name: string, candidates: string[]): string[] {
+  const target = normalize(name);
+  return candidates
+    .map((candidate) => {
+      const normalized = normalize(candidate);
+      const contained =
+        target.length >= 3 && (normalized.includes(target) || target.includes(normalized));
+      return { candidate, distance: contained ? 0 : editDistance(target, normalized) };
+    })
+    .filter(({ distance }) => distance <= typoBudget(target.length))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * ` Did you mean "a" or "b"?`, or an empty string without suggestions
+ */
+export function didYouMean(suggestions: string[]): string {
+  if (suggestions.length === 0) return '';
+  const quoted = suggestions.map((suggestion) => `"${suggestion}"`);
+  const last = quoted.pop();
+  return ` Did you mean ${quoted.length ? `${quoted.join(', ')} or ${last}` : last}?`;
+}
+
+/**
+ * Candidates matching partial input, best first: prefix matches, then
+ * matches at a word start, then substrings, then the typed characters in
+ * order, then near misses. Ties keep the candidates' order (for event
+ * names, most frequent first).
+ */
+export function rankCompletions(value: string, candidates: string[]): string[] {
+  const typed = normalize(value);
+  if (!typed) return candidates;
+
+  const tier = (candidate: string): number => {
+    const normalized = normalize(candidate);
+    if (normalized.startsWith(typed)) return 0;
+    const words = candidate.toLowerCase().split(/[\s_\-.$]+/);
+    if (words.some((word) => word.startsWith(typed))) return 1;
+    if (normalized.includes(typed)) return 2;
+    if (isSubsequence(typed, normalized)) return 3;
+    const prefix = normalized.slice(0, typed.length);
+    return editDistance(typed, prefix) <= typoBudget(typed.length) ? 4 : -1;
+  };
+
+  return candidates
+    .map((candidate, index) => ({ candidate, index, tier: tier(candidate) }))
+    .filter((match) => match.tier >= 0)
+    .sort((a, b) => a.tier - b.tier || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,57 @@
+/**
+ * Idempotency Utilities
+ *
+ * Deterministic $insert_id derivation so retried or replayed ingestion
+ * requests are deduplicated by Mixpanel instead of double-counted.
+ */
+
+import { sha256Hex, stableStringify } from './hashing.js';
+
+/** Fields hashed into a derived $insert_id when none are configured */
+export const DEFAULT_INSERT_ID_FIELDS = ['event', 'distinct_id', 'time'];
+
+export interface InsertIdOptions {
+  /**
+   * Fields hashed into the $insert_id. "event" is the event name; any other
+   * entry is read from the event's properties.
+   */
+  fields?: string[];
+}
+
+/**
+ * Derive a stable $insert_id for an event.
+ *
+ * Returns the first 32 hex characters of a SHA-256 over the selected fields,
+ * which satisfies Mixpanel's 36-character alphanumeric limit.
+ */
+export async function deriveInsertId(
+  event: { event: string; properties: Record<string, unknown> },
+  options: InsertIdOptions = {}
+): Promise<string> {
+  const fields = options.fields?.length ? options.fields : DEFAULT_INSERT_ID_FIELDS;
+  const material = fields.map((field) => [
+    field,
+    field === 'event' ? event.event : event.properties[field],
+  ]);
+
+  const digest = await sha256Hex(stableStringify(material));
+  return digest.slice(0, 32);
+}
+
+/**
+ * Fill in a derived $insert_id on every event that lacks one.
+ *
+ * Explicit $insert_ids are left untouched. Returns the number of IDs added.
+ */
+export async function assignInsertIds(
+  events: Array<{ event: string; properties: Record<string, unknown> }>,
+  options: InsertIdOptions = {}
+): Promise<number> {
+  let assigned = 0;
+  for (const event of events) {
+    if (typeof event.properties.$insert_id === 'string' && event.properties.$insert_id) continue;
+    event.properties.$insert_id = await deriveInsertId(event, options);
+    assigned++;
+  }
+  return assigned;
+}
@@ -4,5 +4,24 @@
  * Re-exports all utilities.
  */
 
+export * from './anomalies.js';
+export * from './batching.js';
+export * from './cache.js';
+export * from './comparison.js';
+export * from './completions.js';
+export * from './confirmation.js';
+export * from './csv.js';
 export * from './errors.js';
+export * from './forecasting.js';
 export * from './formatters.js';
+export * from './funnels.js';
+export * from './fuzzy.js';
+export * from './hashing.js';
+export * from './idempotency.js';
+export * from './logger.js';
+export * from './retry.js';
+export * from './session-token.js';
+export * from './streaming.js';
+export * from './truncation.js';
+export * from './validation.js';
+export * from './where.js';
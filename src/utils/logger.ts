@@ -0,0 +1,38 @@
+/**
+ * Logging Utilities
+ *
+ * Minimal structured logger. Entries are written as single-line JSON so they
+ * are searchable in Workers observability.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+
+  /** Create a logger that adds `fields` to every entry */
+  child(fields: Record<string, unknown>): Logger;
+}
+
+/**
+ * Create a console-backed structured logger
+ */
+export function createLogger(baseFields: Record<string, unknown> = {}): Logger {
+  const write = (level: LogLevel, message: string, fields?: Record<string, unknown>) => {
+    const entry = JSON.stringify({ level, message, ...baseFields, ...fields });
+    if (level === 'error') console.error(entry);
+    else if (level === 'warn') console.warn(entry);
+    else console.log(entry);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: (fields) => createLogger({ ...baseFields, ...fields }),
+  };
+}
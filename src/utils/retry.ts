@@ -0,0 +1,236 @@
+/**
+ * Retry and Rate-Limit Utilities
+ *
+ * Shared retry layer for Mixpanel API calls: jittered exponential backoff,
+ * Retry-After handling and per-API request budgets.
+ */
+
+import { ApiError, RateLimitError, isRetryableError } from './errors.js';
+
+// =============================================================================
+// Retry Configuration
+// =============================================================================
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+
+  /** Base delay for exponential backoff (ms) */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay (ms) */
+  maxDelayMs: number;
+
+  /**
+   * Longest server Retry-After to wait out (ms). A longer one is rethrown at
+   * once rather than holding the tool call open.
+   */
+  maxRetryAfterMs: number;
+
+  /**
+   * Retry only rate limits (429), which Mixpanel rejects unprocessed. For
+   * requests that are not safe to repeat after a server or network error.
+   */
+  rateLimitsOnly?: boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Retry statistics accumulated by a client between tool calls
+ */
+export interface RetryStats {
+  /** Number of retried attempts */
+  retries: number;
+
+  /** Total time spent waiting on backoff or rate-limit budgets (ms) */
+  waitedMs: number;
+}
+
+export function createRetryStats(): RetryStats {
+  return { retries: 0, waitedMs: 0 };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Uses "full jitter" exponential backoff, but never waits less than the
+ * server-provided Retry-After. Without a Retry-After, backoff alone applies.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterSeconds?: number
+): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * exponential;
+
+  if (retryAfterSeconds !== undefined) {
+    return Math.max(retryAfterSeconds * 1000, jittered);
+  }
+  return jittered;
+}
+
+/**
+ * Run an operation, retrying retryable failures with backoff.
+ *
+ * Errors that are not retryable, or a Retry-After longer than
+ * maxRetryAfterMs, are rethrown immediately. The final error records the
+ * number of attempts.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  stats?: RetryStats,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryAfter = error instanceof RateLimitError ? error.retryAfterSeconds : undefined;
+      const exhausted = attempt >= options.maxRetries;
+      const tooLong = retryAfter !== undefined && retryAfter * 1000 > options.maxRetryAfterMs;
+
+      const retryable = options.rateLimitsOnly
+        ? error instanceof RateLimitError
+        : isRetryableError(error);
+
+      if (exhausted || tooLong || !retryable) {
+        if (error instanceof ApiError) {
+          error.attempts = attempt + 1;
+        }
+        throw error;
+      }
+
+      const delay = computeBackoffDelay(attempt, options, retryAfter);
+      if (stats) {
+        stats.retries++;
+        stats.waitedMs += Math.round(delay);
+      }
+      onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+// =============================================================================
+// Rate-Limit Governor
+// =============================================================================
+
+export interface RateLimitBudget {
+  /** Maximum requests in flight at once */
+  maxConcurrent?: number;
+
+  /** Maximum requests per window */
+  maxRequests?: number;
+
+  /** Maximum request body bytes per window */
+  maxBytes?: number;
+
+  /** Window length for maxRequests / maxBytes (ms) */
+  windowMs: number;
+
+  /** Longest the governor will wait for budget before failing fast (ms) */
+  maxWaitMs: number;
+}
+
+/**
+ * Client-side budget for a Mixpanel API.
+ *
+ * Tracks requests and bytes in a sliding window plus in-flight concurrency.
+ * When the budget is exhausted it waits up to maxWaitMs, then throws a
+ * RateLimitError rather than sending a request that is bound to be rejected.
+ */
+export class RateLimitGovernor {
+  private budget: RateLimitBudget;
+  private inFlight = 0;
+  private waiters: Array<() => void> = [];
+  private history: Array<{ at: number; bytes: number }> = [];
+
+  constructor(budget: RateLimitBudget) {
+    this.budget = budget;
+  }
+
+  /**
+   * Reserve budget for one request. Returns a release function that must be
+   * called once the request completes.
+   */
+  async acquire(bytes = 0, stats?: RetryStats): Promise<() => void> {
+    await this.waitForWindow(bytes, stats);
+    await this.waitForSlot();
+
+    this.inFlight++;
+    this.history.push({ at: Date.now(), bytes });
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.waiters.shift()?.();
+    };
+  }
+
+  private async waitForSlot(): Promise<void> {
+    const { maxConcurrent } = this.budget;
+    while (maxConcurrent !== undefined && this.inFlight >= maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  private async waitForWindow(bytes: number, stats?: RetryStats): Promise<void> {
+    const { maxRequests, maxBytes, windowMs, maxWaitMs } = this.budget;
+
+    for (;;) {
+      const now = Date.now();
+      this.history = this.history.filter((entry) => now - entry.at < windowMs);
+
+      const overRequests = maxRequests !== undefined && this.history.length >= maxRequests;
+      const usedBytes = this.history.reduce((sum, entry) => sum + entry.bytes, 0);
+      const overBytes = maxBytes !== undefined && usedBytes > 0 && usedBytes + bytes > maxBytes;
+
+      if (!overRequests && !overBytes) return;
+
+      const waitMs = this.history[0].at + windowMs - now;
+      if (waitMs > maxWaitMs) {
+        throw new RateLimitError(
+          'Client-side rate limit budget exhausted',
+          Math.ceil(waitMs / 1000)
+        );
+      }
+
+      if (stats) stats.waitedMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Session Token Utilities
+ *
+ * Sealed session tokens let clients that cannot send custom headers (for
+ * example browser EventSource) start a stateful session. A token carries the
+ * tenant credentials encrypted with AES-GCM under a key derived from the
+ * deployment's SESSION_TOKEN_SECRET, so it is both unreadable and
+ * tamper-proof, and it expires.
+ */
+
+import type { TenantCredentials } from '../types/env.js';
+import { AuthenticationError } from './errors.js';
+
+/** Default token lifetime (seconds) */
+export const DEFAULT_SESSION_TOKEN_TTL = 60 * 60;
+
+/** AES-GCM nonce length (bytes) */
+const IV_LENGTH = 12;
+
+interface SessionTokenPayload {
+  credentials: TenantCredentials;
+
+  /** Expiry (ms since epoch) */
+  exp: number;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function deriveKey(secret: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', material, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Seal tenant credentials into a session token valid for `ttlSeconds`
+ */
+export async function createSessionToken(
+  credentials: TenantCredentials,
+  secret: string,
+  ttlSeconds: number = DEFAULT_SESSION_TOKEN_TTL
+): Promise<{ token: string; expiresAt: string }> {
+  const exp = Date.now() + ttlSeconds * 1000;
+  const payload: SessionTokenPayload = { credentials, exp };
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await deriveKey(secret),
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+
+  return {
+    token: `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`,
+    expiresAt: new Date(exp).toISOString(),
+  };
+}
+
+/**
+ * Open a session token and return its credentials.
+ *
+ * Throws AuthenticationError if the token is malformed, was sealed with a
+ * different secret, has been modified or has expired.
+ */
+export async function readSessionToken(token: string, secret: string): Promise<TenantCredentials> {
+  let payload: SessionTokenPayload;
+  try {
+    const [iv, ciphertext] = token.split('.');
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(iv) },
+      await deriveKey(secret),
+      fromBase64Url(ciphertext)
+    );
+    payload = JSON.parse(new TextDecoder().decode(plaintext)) as SessionTokenPayload;
+  } catch {
+    throw new AuthenticationError('Invalid session token');
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+    throw new AuthenticationError('Session token has expired');
+  }
+  return payload.credentials;
+}
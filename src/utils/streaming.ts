@@ -0,0 +1,39 @@
+/**
+ * Streaming Utilities
+ *
+ * Incremental parsing of newline-delimited JSON response bodies.
+ */
+
+/**
+ * Yield one parsed value per NDJSON line as the body arrives.
+ *
+ * Stopping iteration early (break/return) cancels the underlying stream, so
+ * the rest of a large response is never downloaded.
+ */
+export async function* readNdjson(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line);
+        newline = buffer.indexOf('\n');
+      }
+
+      if (done) break;
+    }
+
+    const rest = buffer.trim();
+    if (rest) yield JSON.parse(rest);
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
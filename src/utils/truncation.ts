@@ -0,0 +1,185 @@
+/**
+ * Truncation Utilities
+ *
+ * Fit tool results into a character budget while keeping them useful:
+ * long time series are summarized, then arrays and large maps are cut down
+ * with an explicit marker of how much was left out.
+ */
+
+/** Default budget, matching getCharacterLimit()'s fallback */
+export const DEFAULT_CHARACTER_LIMIT = 50000;
+
+/** Time series with more points than this are summarized under pressure */
+const SERIES_SUMMARY_THRESHOLD = 30;
+
+/** Most recent points kept verbatim in a summarized series */
+const SERIES_RECENT_POINTS = 7;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}/;
+
+export interface TruncationResult {
+  data: unknown;
+  truncated: boolean;
+  /** Array items and map entries dropped */
+  omittedItems: number;
+  /** Time series replaced by a summary */
+  summarizedSeries: number;
+}
+
+function serializedLength(value: unknown): number {
+  return JSON.stringify(value, null, 2)?.length ?? 0;
+}
+
+function isTimeSeries(value: unknown): value is Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.entries(value);
+  return (
+    entries.length > SERIES_SUMMARY_THRESHOLD &&
+    entries.every(([key, point]) => DATE_KEY.test(key) && typeof point === 'number')
+  );
+}
+
+function summarizeSeries(series: Record<string, number>) {
+  const dates = Object.keys(series).sort();
+  const values = dates.map((date) => series[date]);
+  const total = values.reduce((sum, v) => sum + v, 0);
+
+  return {
+    summary: {
+      points: values.length,
+      from: dates[0],
+      to: dates[dates.length - 1],
+      min: values.reduce((min, v) => Math.min(min, v), Number.POSITIVE_INFINITY),
+      max: values.reduce((max, v) => Math.max(max, v), Number.NEGATIVE_INFINITY),
+      mean: total / values.length,
+      total,
+    },
+    recent: Object.fromEntries(
+      dates.slice(-SERIES_RECENT_POINTS).map((date) => [date, series[date]])
+    ),
+  };
+}
+
+/**
+ * Replace every long time series with a summary
+ */
+function summarizeAll(value: unknown, counter: { series: number }): unknown {
+  if (isTimeSeries(value)) {
+    counter.series++;
+    return summarizeSeries(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => summarizeAll(item, counter));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, summarizeAll(item, counter)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Cap every array and object at `maxItems` entries, appending a marker that
+ * records how many were dropped
+ */
+function capCollections(value: unknown, maxItems: number, counter: { items: number }): unknown {
+  if (Array.isArray(value)) {
+    const kept = value.slice(0, maxItems).map((item) => capCollections(item, maxItems, counter));
+    if (value.length > maxItems) {
+      const omitted = value.length - maxItems;
+      counter.items += omitted;
+      kept.push(`... ${omitted} more items`);
+    }
+    return kept;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    const kept = entries
+      .slice(0, maxItems)
+      .map(([key, item]) => [key, capCollections(item, maxItems, counter)]);
+    if (entries.length > maxItems) {
+      const omitted = entries.length - maxItems;
+      counter.items += omitted;
+      kept.push(['...', `${omitted} more entries`]);
+    }
+    return Object.fromEntries(kept);
+  }
+  return value;
+}
+
+function largestCollection(value: unknown): number {
+  if (!value || typeof value !== 'object') return 0;
+  const items = Array.isArray(value) ? value : Object.values(value);
+  return items.reduce<number>((max, item) => Math.max(max, largestCollection(item)), items.length);
+}
+
+/**
+ * Shrink data until its pretty-printed JSON fits within `limit` characters.
+ *
+ * Once truncation is needed, sizes are measured on `wrap(data)` so the
+ * envelope the caller puts around truncated data counts against the limit.
+ */
+export function truncateToLimit(
+  data: unknown,
+  limit: number,
+  wrap: (data: unknown) => unknown = (value) => value
+): TruncationResult {
+  if (serializedLength(data) <= limit) {
+    return { data, truncated: false, omittedItems: 0, summarizedSeries: 0 };
+  }
+
+  const fits = (value: unknown) => serializedLength(wrap(value)) <= limit;
+
+  const seriesCounter = { series: 0 };
+  const summarized = summarizeAll(data, seriesCounter);
+  if (fits(summarized)) {
+    return {
+      data: summarized,
+      truncated: true,
+      omittedItems: 0,
+      summarizedSeries: seriesCounter.series,
+    };
+  }
+
+  // Binary search the largest per-collection cap that fits the budget
+  let low = 1;
+  let high = Math.max(1, largestCollection(summarized));
+  let best: { data: unknown; items: number } | undefined;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const counter = { items: 0 };
+    const capped = capCollections(summarized, mid, counter);
+    if (fits(capped)) {
+      best = { data: capped, items: counter.items };
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (best) {
+    return {
+      data: best.data,
+      truncated: true,
+      omittedItems: best.items,
+      summarizedSeries: seriesCounter.series,
+    };
+  }
+
+  // Even one item per collection is too large (e.g. huge strings): fall back
+  // to a raw prefix of the serialized JSON
+  const counter = { items: 0 };
+  const text = JSON.stringify(capCollections(summarized, 1, counter));
+  let length = Math.min(text.length, limit);
+  while (length > 0 && !fits(`${text.slice(0, length)}...`)) {
+    length = Math.floor(length * 0.8);
+  }
+  return {
+    data: `${text.slice(0, length)}...`,
+    truncated: true,
+    omittedItems: counter.items,
+    summarizedSeries: seriesCounter.series,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Event Validation Utilities
+ *
+ * Client-side checks mirroring the Ingestion API's strict-mode rules, so
+ * malformed events are caught before they use up ingestion budget.
+ */
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+/** /track only accepts events from the last 5 days */
+const TRACK_WINDOW_SECONDS = 5 * 24 * 60 * 60;
+
+/** Tolerated clock skew for timestamps slightly in the future */
+const FUTURE_SKEW_SECONDS = 60 * 60;
+
+const MAX_NAME_LENGTH = 255;
+const MAX_PROPERTIES = 255;
+const MAX_STRING_VALUE_BYTES = 255;
+const MAX_LIST_BYTES = 8 * 1024;
+const MAX_NESTING_DEPTH = 3;
+const MAX_EVENT_BYTES = 1024 * 1024;
+
+/**
+ * `$`-prefixed properties the Ingestion API accepts from clients. Any other
+ * `$` property collides with Mixpanel's reserved namespace.
+ */
+const ALLOWED_RESERVED_PROPERTIES = new Set([
+  '$insert_id',
+  '$device_id',
+  '$user_id',
+  '$identified_id',
+  '$anon_id',
+  '$distinct_ids',
+  '$source',
+  '$os',
+  '$browser',
+  '$browser_version',
+  '$device',
+  '$model',
+  '$manufacturer',
+  '$app_version_string',
+  '$app_build_number',
+  '$screen_height',
+  '$screen_width',
+  '$current_url',
+  '$referrer',
+  '$referring_domain',
+  '$initial_referrer',
+  '$initial_referring_domain',
+  '$city',
+  '$region',
+  '$country_code',
+  '$lib_version',
+  'mp_lib',
+  'mp_country_code',
+]);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EventValidationResult {
+  /** Problems that Mixpanel would reject, keyed by field path */
+  errors: Record<string, string[]>;
+
+  /** Problems that Mixpanel would accept but silently truncate or ignore */
+  warnings: Record<string, string[]>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const encoder = new TextEncoder();
+
+function byteLength(value: unknown): number {
+  return encoder.encode(typeof value === 'string' ? value : JSON.stringify(value)).byteLength;
+}
+
+function add(target: Record<string, string[]>, path: string, message: string): void {
+  if (!target[path]) target[path] = [];
+  target[path].push(message);
+}
+
+/**
+ * Normalize a Mixpanel timestamp (seconds or milliseconds) to seconds
+ */
+function toSeconds(time: number): number {
+  return time > 1e11 ? time / 1000 : time;
+}
+
+function depthOf(value: unknown): number {
+  if (Array.isArray(value)) {
+    return 1 + value.reduce<number>((max, item) => Math.max(max, depthOf(item)), 0);
+  }
+  if (value && typeof value === 'object') {
+    return 1 + Object.values(value).reduce<number>((max, item) => Math.max(max, depthOf(item)), 0);
+  }
+  return 0;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate events against Mixpanel's ingestion rules.
+ *
+ * @param events - Events in Mixpanel wire format
+ * @param endpoint - 'track' enforces the 5-day window; 'import' only rejects
+ *   future timestamps
+ * @param now - Current time in seconds (injectable for deterministic checks)
+ */
+export function validateEvents(
+  events: Array<{ event: string; properties: Record<string, unknown> }>,
+  endpoint: 'track' | 'import',
+  now = Math.floor(Date.now() / 1000)
+): EventValidationResult {
+  const errors: Record<string, string[]> = {};
+  const warnings: Record<string, string[]> = {};
+
+  events.forEach((e, index) => {
+    const base = `events[${index}]`;
+
+    if (!e.event) {
+      add(errors, `${base}.event`, 'Event name is required');
+    } else if (e.event.length > MAX_NAME_LENGTH) {
+      add(errors, `${base}.event`, `Event name exceeds ${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (byteLength(e) > MAX_EVENT_BYTES) {
+      add(errors, base, `Event exceeds ${MAX_EVENT_BYTES} bytes`);
+    }
+
+    const properties = e.properties || {};
+    const names = Object.keys(properties);
+    if (names.length > MAX_PROPERTIES) {
+      add(errors, `${base}.properties`, `Event has more than ${MAX_PROPERTIES} properties`);
+    }
+
+    const time = properties.time;
+    if (typeof time !== 'number' || !Number.isFinite(time) || time <= 0) {
+      if (endpoint === 'import' || time !== undefined) {
+        add(errors, `${base}.properties.time`, 'time must be a positive Unix timestamp');
+      }
+    } else {
+      const seconds = toSeconds(time);
+      if (seconds > now + FUTURE_SKEW_SECONDS) {
+        add(errors, `${base}.properties.time`, 'time is in the future');
+      } else if (endpoint === 'track' && seconds < now - TRACK_WINDOW_SECONDS) {
+        add(
+          errors,
+          `${base}.properties.time`,
+          'time is older than 5 days; use mixpanel_import_events for historical data'
+        );
+      }
+    }
+
+    for (const name of names) {
+      const path = `${base}.properties.${name}`;
+      const value = properties[name];
+
+      if (name.length > MAX_NAME_LENGTH) {
+        add(errors, path, `Property name exceeds ${MAX_NAME_LENGTH} characters`);
+      }
+      if (name.startsWith('mp_') && !ALLOWED_RESERVED_PROPERTIES.has(name)) {
+        add(errors, path, 'Properties prefixed with "mp_" are reserved by Mixpanel');
+      } else if (name.startsWith('$') && !ALLOWED_RESERVED_PROPERTIES.has(name)) {
+        add(warnings, path, 'Properties prefixed with "$" are reserved by Mixpanel');
+      }
+
+      if (typeof value === 'string' && byteLength(value) > MAX_STRING_VALUE_BYTES) {
+        add(
+          warnings,
+          path,
+          `String value exceeds ${MAX_STRING_VALUE_BYTES} bytes and will be truncated`
+        );
+      } else if (Array.isArray(value) && byteLength(value) > MAX_LIST_BYTES) {
+        add(errors, path, `List value exceeds ${MAX_LIST_BYTES} bytes`);
+      }
+
+      if (depthOf(value) > MAX_NESTING_DEPTH) {
+        add(errors, path, `Value is nested deeper than ${MAX_NESTING_DEPTH} levels`);
+      }
+    }
+  });
+
+  return { errors, warnings };
+}
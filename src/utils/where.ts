@@ -0,0 +1,433 @@
+/**
+ * Where Expression Utilities
+ *
+ * Structured filters that compile to Mixpanel's segmentation expression
+ * syntax (the `where` parameter of the Query, Export and Engage APIs), and a
+ * parser that checks raw expressions locally, so malformed filters fail
+ * before they use up a rate-limited request.
+ */
+
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WhereOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'in'
+  | 'not_in'
+  | 'defined'
+  | 'not_defined'
+  | 'is_true'
+  | 'is_false'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'in_last';
+
+export type WhereValue = string | number | boolean;
+
+export interface WhereCondition {
+  property: string;
+  operator: WhereOperator;
+  /**
+   * Compared value: a list for in / not_in, [from, to] dates for between, a
+   * count of units for in_last, and a date or datetime for before / after
+   */
+  value?: WhereValue | WhereValue[];
+  /** Unit for in_last (default: day) */
+  unit?: 'hour' | 'day' | 'week';
+}
+
+export interface WhereGroup {
+  /** How the filters combine (default: and) */
+  combine?: 'and' | 'or';
+  filters: WhereFilter[];
+  /** Match when the group does not */
+  negate?: boolean;
+}
+
+export type WhereFilter = WhereCondition | WhereGroup;
+
+/** A raw expression or a structured filter */
+export type WhereInput = string | WhereFilter;
+
+export interface ParsedWhere {
+  expression: string;
+  /** Event property names referenced through properties["..."] */
+  properties: string[];
+
+  /** Profile property names referenced through user["..."] */
+  userProperties: string[];
+}
+
+// =============================================================================
+// Compiler
+// =============================================================================
+
+const IN_LAST_UNIT_SECONDS = { hour: 3600, day: 86400, week: 604800 };
+
+function invalid(message: string): ValidationError {
+  return new ValidationError('Invalid where filter', { where: [message] });
+}
+
+function literal(value: WhereValue, property: string): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw invalid(`Value for "${property}" must be a finite number`);
+  }
+  return String(value);
+}
+
+function single(condition: WhereCondition): WhereValue {
+  const { value, property, operator } = condition;
+  if (value === undefined || Array.isArray(value)) {
+    throw invalid(`${operator} on "${property}" needs a single value`);
+  }
+  return value;
+}
+
+function list(condition: WhereCondition): WhereValue[] {
+  const { value, property, operator } = condition;
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  if (values.length === 0) throw invalid(`${operator} on "${property}" needs at least one value`);
+  return values;
+}
+
+/** datetime("YYYY-MM-DDTHH:MM:SS") from a date or datetime string */
+function datetime(value: WhereValue, property: string): string {
+  const text = String(value);
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  if (typeof value !== 'string' || Number.isNaN(time)) {
+    throw invalid(`Value for "${property}" must be a date (YYYY-MM-DD) or ISO datetime`);
+  }
+  return `datetime(${JSON.stringify(new Date(time).toISOString().slice(0, 19))})`;
+}
+
+function compileCondition(condition: WhereCondition, now: number): string {
+  const { property, operator } = condition;
+  if (!property) throw invalid('Each condition needs a property');
+  const ref = `properties[${JSON.stringify(property)}]`;
+
+  switch (operator) {
+    case 'equals':
+      return `${ref} == ${literal(single(condition), property)}`;
+    case 'not_equals':
+      return `${ref} != ${literal(single(condition), property)}`;
+    case 'contains':
+      return `${literal(single(condition), property)} in ${ref}`;
+    case 'not_contains':
+      return `not ${literal(single(condition), property)} in ${ref}`;
+    case 'greater_than':
+      return `${ref} > ${literal(single(condition), property)}`;
+    case 'greater_than_or_equal':
+      return `${ref} >= ${literal(single(condition), property)}`;
+    case 'less_than':
+      return `${ref} < ${literal(single(condition), property)}`;
+    case 'less_than_or_equal':
+      return `${ref} <= ${literal(single(condition), property)}`;
+    case 'in':
+      return `(${list(condition)
+        .map((value) => `${ref} == ${literal(value, property)}`)
+        .join(' or ')})`;
+    case 'not_in':
+      return `(${list(condition)
+        .map((value) => `${ref} != ${literal(value, property)}`)
+        .join(' and ')})`;
+    case 'defined':
+      return `defined(${ref})`;
+    case 'not_defined':
+      return `not defined(${ref})`;
+    case 'is_true':
+      return `boolean(${ref}) == true`;
+    case 'is_false':
+      return `boolean(${ref}) == false`;
+    case 'before':
+      return `${ref} < ${datetime(single(condition), property)}`;
+    case 'after':
+      return `${ref} > ${datetime(single(condition), property)}`;
+    case 'between': {
+      const range = list(condition);
+      if (range.length !== 2) throw invalid(`between on "${property}" needs [from, to] dates`);
+      return `(${ref} >= ${datetime(range[0], property)} and ${ref} <= ${datetime(range[1], property)})`;
+    }
+    case 'in_last': {
+      const count = single(condition);
+      if (typeof count !== 'number' || count <= 0) {
+        throw invalid(`in_last on "${property}" needs a positive number of units`);
+      }
+      const seconds = count * IN_LAST_UNIT_SECONDS[condition.unit ?? 'day'];
+      const since = new Date(now - seconds * 1000).toISOString();
+      return `${ref} >= ${datetime(since, property)}`;
+    }
+    default:
+      throw invalid(`Unknown operator "${operator}"`);
+  }
+}
+
+/**
+ * Compile a structured filter to a Mixpanel expression. Relative dates
+ * (in_last) are resolved against `now`, rounded down to the hour so the
+ * expression (and the response cache key) is stable within the hour.
+ */
+export function compileWhere(filter: WhereFilter, now = Date.now()): string {
+  const hour = Math.floor(now / 3_600_000) * 3_600_000;
+
+  const compile = (node: WhereFilter): string => {
+    if (!('filters' in node)) return compileCondition(node, hour);
+    if (node.filters.length === 0) throw invalid('Filter groups need at least one filter');
+
+    const joined = node.filters
+      .map((child) => ('filters' in child ? `(${compile(child)})` : compile(child)))
+      .join(` ${node.combine ?? 'and'} `);
+    return node.negate ? `not (${joined})` : joined;
+  };
+
+  return compile(filter);
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Functions Mixpanel expressions can call */
+const WHERE_FUNCTIONS = ['defined', 'datetime', 'boolean', 'number', 'string', 'list'];
+
+/** Objects whose members are read with ["name"] */
+const WHERE_OBJECTS = ['properties', 'user'];
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'true', 'false'];
+
+interface Token {
+  kind: 'string' | 'number' | 'word' | 'symbol' | 'end';
+  text: string;
+  /** Parsed value of string tokens */
+  value?: string;
+  position: number;
+}
+
+function syntaxError(message: string, position: number): ValidationError {
+  return new ValidationError('Invalid where expression', {
+    where: [`${message} at position ${position + 1}`],
+  });
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\') i++;
+        if (i < expression.length) value += expression[i++];
+      }
+      if (i >= expression.length) throw syntaxError('Unterminated string', start);
+      i++;
+      tokens.push({ kind: 'string', text: expression.slice(start, i), value, position: start });
+    } else if (/[0-9.]/.test(char)) {
+      const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) throw syntaxError(`Unexpected "${char}"`, start);
+      i += match[0].length;
+      tokens.push({ kind: 'number', text: match[0], position: start });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = expression.slice(i).match(/^[A-Za-z_$][\w$]*/) as RegExpMatchArray;
+      i += match[0].length;
+      tokens.push({ kind: 'word', text: match[0], position: start });
+    } else {
+      const two = expression.slice(i, i + 2);
+      if (['==', '!=', '<=', '>='].includes(two)) {
+        i += 2;
+        tokens.push({ kind: 'symbol', text: two, position: start });
+      } else if ('()[],<>+-*/%'.includes(char)) {
+        i++;
+        tokens.push({ kind: 'symbol', text: char, position: start });
+      } else if (char === '=') {
+        throw syntaxError('Use == to compare', start);
+      } else {
+        throw syntaxError(`Unexpected "${char}"`, start);
+      }
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Check a raw expression against Mixpanel's expression grammar and collect
+ * the property names it references. Throws a ValidationError naming the
+ * position of the first problem.
+ */
+export function parseWhere(expression: string): ParsedWhere {
+  const tokens = tokenize(expression);
+  const properties = new Set<string>();
+  const userProperties = new Set<string>();
+  let index = 0;
+
+  const peek = (offset = 0) => tokens[index + offset];
+  const next = () => tokens[index++];
+  const is = (text: string, offset = 0) => {
+    const token = peek(offset);
+    return (token.kind === 'symbol' || token.kind === 'word') && token.text === text;
+  };
+  const describe = (token: Token) => (token.kind === 'end' ? 'end of expression' : `"${token.text}"`);
+  const expect = (text: string) => {
+    if (!is(text)) throw syntaxError(`Expected "${text}" but found ${describe(peek())}`, peek().position);
+    return next();
+  };
+
+  const parseOr = (): void => {
+    parseAnd();
+    while (is('or')) {
+      next();
+      parseAnd();
+    }
+  };
+
+  const parseAnd = (): void => {
+    parseNot();
+    while (is('and')) {
+      next();
+      parseNot();
+    }
+  };
+
+  const parseNot = (): void => {
+    if (is('not')) {
+      next();
+      parseNot();
+      return;
+    }
+    parseComparison();
+  };
+
+  const parseComparison = (): void => {
+    parseAdditive();
+    if (['==', '!=', '<', '<=', '>', '>=', 'in'].some((op) => is(op))) {
+      next();
+      parseAdditive();
+    } else if (is('not') && is('in', 1)) {
+      next();
+      next();
+      parseAdditive();
+    }
+  };
+
+  const parseAdditive = (): void => {
+    parseMultiplicative();
+    while (is('+') || is('-')) {
+      next();
+      parseMultiplicative();
+    }
+  };
+
+  const parseMultiplicative = (): void => {
+    parseUnary();
+    while (is('*') || is('/') || is('%')) {
+      next();
+      parseUnary();
+    }
+  };
+
+  const parseUnary = (): void => {
+    if (is('-')) {
+      next();
+      parseUnary();
+      return;
+    }
+    parsePrimary();
+  };
+
+  const parsePrimary = (): void => {
+    const token = next();
+
+    if (token.kind === 'string' || token.kind === 'number') return;
+
+    if (token.kind === 'symbol' && token.text === '(') {
+      parseOr();
+      expect(')');
+      return;
+    }
+
+    if (token.kind === 'symbol' && token.text === '[') {
+      if (!is(']')) {
+        parseOr();
+        while (is(',')) {
+          next();
+          parseOr();
+        }
+      }
+      expect(']');
+      return;
+    }
+
+    if (token.kind === 'word') {
+      if (token.text === 'true' || token.text === 'false') return;
+
+      if (WHERE_OBJECTS.includes(token.text)) {
+        expect('[');
+        const name = next();
+        if (name.kind !== 'string') {
+          throw syntaxError(`Expected a quoted property name after ${token.text}[`, name.position);
+        }
+        expect(']');
+        (token.text === 'user' ? userProperties : properties).add(name.value as string);
+        return;
+      }
+
+      if (is('(')) {
+        if (!WHERE_FUNCTIONS.includes(token.text)) {
+          throw syntaxError(
+            `Unknown function "${token.text}" (expected one of ${WHERE_FUNCTIONS.join(', ')})`,
+            token.position
+          );
+        }
+        next();
+        if (!is(')')) {
+          parseOr();
+          while (is(',')) {
+            next();
+            parseOr();
+          }
+        }
+        expect(')');
+        return;
+      }
+
+      if (!KEYWORDS.includes(token.text)) {
+        throw syntaxError(
+          `Unknown name "${token.text}"; reference properties as properties["${token.text}"]`,
+          token.position
+        );
+      }
+    }
+
+    throw syntaxError(`Unexpected ${describe(token)}`, token.position);
+  };
+
+  if (peek().kind === 'end') throw syntaxError('Empty expression', 0);
+  parseOr();
+  if (peek().kind !== 'end') {
+    throw syntaxError(`Unexpected ${describe(peek())}`, peek().position);
+  }
+
+  return { expression, properties: [...properties], userProperties: [...userProperties] };
+}
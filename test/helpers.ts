@@ -0,0 +1,121 @@
+/**
+ * Test Harness
+ *
+ * Connects an MCP client to the stateless server over an in-memory transport,
+ * with every Mixpanel API served by the in-process fake.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { type FakeMixpanel, type FakeMixpanelOptions, createFakeMixpanel } from '../src/mock/index.js';
+import { createStatelessServer } from '../src/server.js';
+import { createServerContext } from '../src/types/context.js';
+import type { Env } from '../src/types/env.js';
+import { INITIAL_SESSION_STATE, type SessionState, createSessionStore } from '../src/types/session.js';
+
+export interface ToolResult {
+  isError?: boolean;
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: { result: unknown };
+  _meta?: Record<string, unknown>;
+}
+
+export interface Harness {
+  fake: FakeMixpanel;
+  client: Client;
+
+  /** Call a tool; the result may be an error */
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+
+  /** Call a tool and return its structured result, failing on a tool error */
+  result<T = Record<string, unknown>>(name: string, args?: Record<string, unknown>): Promise<T>;
+
+  /** Run a confirmation-gated tool: call once for the token, then again with it */
+  confirmed<T = Record<string, unknown>>(name: string, args: Record<string, unknown>): Promise<T>;
+}
+
+/** Sample date range covered by the fake's data */
+export const DATES = { fromDate: '2024-01-01', toDate: '2024-01-28' };
+
+/**
+ * Rate-limit budgets are kept per project for the life of the module, so each
+ * harness gets its own project to start from a full budget
+ */
+let nextProjectId = 1000;
+
+/**
+ * Error details from a failed tool call
+ */
+export function errorOf(response: ToolResult): {
+  error: string;
+  details: Record<string, unknown>;
+} {
+  return JSON.parse(response.content[0].text ?? '{}');
+}
+
+export interface HarnessOptions {
+  /** Credentials the fake accepts and the server uses */
+  credentials?: FakeMixpanelOptions['credentials'];
+
+  /** Env vars to add to, or override in, the test defaults */
+  env?: Partial<Env>;
+
+  /** Give the server an in-memory session store, as a stateful session has */
+  session?: boolean;
+}
+
+/**
+ * Start a stateless server against a fresh fake and connect a client to it
+ */
+export async function createHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const fake = createFakeMixpanel({
+    credentials: { projectId: String(nextProjectId++), ...options.credentials },
+  });
+  const holder = {
+    state: INITIAL_SESSION_STATE,
+    setState(state: SessionState) {
+      holder.state = state;
+    },
+  };
+  const context = createServerContext({
+    credentials: fake.credentials,
+    env: {
+      CHARACTER_LIMIT: '100000',
+      DEFAULT_PAGE_SIZE: '50',
+      MAX_PAGE_SIZE: '1000',
+      MIXPANEL_BASE_URL: fake.baseUrl,
+      ...options.env,
+    },
+    fetch: fake.fetch,
+    session: options.session ? createSessionStore(holder) : undefined,
+  });
+
+  const server = createStatelessServer(context);
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as ToolResult;
+
+  const result = async <T>(name: string, args: Record<string, unknown> = {}): Promise<T> => {
+    const response = await call(name, args);
+    if (response.isError) {
+      throw new Error(`${name} failed: ${response.content[0].text}`);
+    }
+    return response.structuredContent?.result as T;
+  };
+
+  const confirmed = async <T>(name: string, args: Record<string, unknown>): Promise<T> => {
+    const first = await call(name, args);
+    const { details } = errorOf(first);
+    if (!first.isError || details.code !== 'CONFIRMATION_REQUIRED') {
+      throw new Error(`${name} did not ask for confirmation: ${first.content[0].text}`);
+    }
+    return result<T>(name, { ...args, confirmToken: details.confirmToken });
+  };
+
+  return { fake, client, call, result, confirmed };
+}
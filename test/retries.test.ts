@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DATES, type Harness, createHarness, errorOf } from './helpers.js';
+
+const SEGMENTATION = { event: 'Login', ...DATES };
+
+describe('retries through the tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    // No jitter, so backoff without a Retry-After does not wait
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    h = await createHarness();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const attempts = (path: string) => h.fake.requests.filter((request) => request.path === path).length;
+
+  it('retries a 429 with a Retry-After and reports the retry', async () => {
+    h.fake.failNext({ kind: 'query', status: 429, retryAfterSeconds: 0 });
+
+    const response = await h.call('mixpanel_query_segmentation', SEGMENTATION);
+
+    expect(response.isError).toBeFalsy();
+    expect(response._meta).toMatchObject({ retries: 1 });
+    expect(attempts('/segmentation')).toBe(2);
+  });
+
+  it('retries a 429 without a Retry-After', async () => {
+    h.fake.failNext({ kind: 'query', status: 429, retryAfterSeconds: null });
+
+    const response = await h.call('mixpanel_query_segmentation', SEGMENTATION);
+
+    expect(response.isError).toBeFalsy();
+    expect(response._meta).toMatchObject({ retries: 1 });
+  });
+
+  it('fails at once when the Retry-After is over the ceiling', async () => {
+    h.fake.failNext({ kind: 'query', status: 429, retryAfterSeconds: 120 });
+
+    const response = await h.call('mixpanel_query_segmentation', SEGMENTATION);
+
+    expect(errorOf(response).details).toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfterSeconds: 120,
+      attempts: 1,
+    });
+  });
+
+  it('retries server errors on reads', async () => {
+    h.fake.failNext({ kind: 'query', status: 503 });
+
+    const response = await h.call('mixpanel_query_segmentation', SEGMENTATION);
+
+    expect(response.isError).toBeFalsy();
+    expect(response._meta).toMatchObject({ retries: 1 });
+  });
+
+  it('gives up after the last retry', async () => {
+    h.fake.failNext({ kind: 'query', status: 503, count: 10 });
+
+    const response = await h.call('mixpanel_query_segmentation', SEGMENTATION);
+
+    expect(errorOf(response).details).toMatchObject({ statusCode: 503, attempts: 4 });
+    expect(attempts('/segmentation')).toBe(4);
+  });
+
+  it('does not retry creating an annotation after a server error', async () => {
+    h.fake.failNext({ kind: 'app', status: 503 });
+
+    const response = await h.call('mixpanel_create_annotation', {
+      date: '2024-01-10',
+      description: 'Launch',
+    });
+
+    expect(errorOf(response).details).toMatchObject({ statusCode: 503, attempts: 1 });
+  });
+
+  it('retries creating an annotation after a rate limit', async () => {
+    h.fake.failNext({ kind: 'app', status: 429, retryAfterSeconds: 0 });
+
+    const response = await h.call('mixpanel_create_annotation', {
+      date: '2024-01-10',
+      description: 'Launch',
+    });
+    const annotations = await h.result<Array<{ description: string }>>('mixpanel_list_annotations');
+
+    expect(response.isError).toBeFalsy();
+    expect(annotations.filter((annotation) => annotation.description === 'Launch')).toHaveLength(1);
+  });
+
+  it('does not retry creating a data retrieval after a server error', async () => {
+    h.fake.failNext({ kind: 'app', status: 502 });
+
+    const response = await h.call('mixpanel_create_data_retrieval', { distinctIds: ['user-0001'] });
+
+    expect(errorOf(response).details).toMatchObject({ statusCode: 502, attempts: 1 });
+  });
+
+  it('retries ingestion after a server error only when every event has an $insert_id', async () => {
+    const event = (insertId?: string) => ({
+      event: 'Login',
+      properties: { distinct_id: 'user-0001', ...(insertId && { $insert_id: insertId }) },
+    });
+
+    h.fake.failNext({ kind: 'ingestion', status: 503 });
+    const withIds = await h.call('mixpanel_track_events', { events: [event('a'), event('b')] });
+    h.fake.failNext({ kind: 'ingestion', status: 503 });
+    const withoutIds = await h.call('mixpanel_track_events', { events: [event('c'), event()] });
+
+    expect(withIds.isError).toBeFalsy();
+    expect(withIds._meta).toMatchObject({ retries: 1 });
+    expect(errorOf(withoutIds).details).toMatchObject({ statusCode: 503, attempts: 1 });
+    expect(h.fake.ingested).toHaveLength(2);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createHarness } from './helpers.js';
+
+describe('stateless server', () => {
+  it('registers every tool with an output schema', async () => {
+    const h = await createHarness();
+
+    const { tools } = await h.client.listTools();
+
+    expect(tools.length).toBeGreaterThan(60);
+    expect(tools.filter((tool) => !tool.outputSchema)).toEqual([]);
+  });
+
+  it('tests the connection', async () => {
+    const h = await createHarness();
+
+    const result = await h.result<{ connected: boolean }>('mixpanel_test_connection');
+
+    expect(result.connected).toBe(true);
+  });
+
+  it('reports rejected credentials', async () => {
+    const h = await createHarness();
+    h.fake.failNext({ status: 401 });
+
+    const result = await h.result<{ connected: boolean; message: string }>('mixpanel_test_connection');
+
+    expect(result.connected).toBe(false);
+    expect(result.message).toBe('Invalid credentials');
+  });
+});
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DATES, type Harness, createHarness, errorOf } from '../helpers.js';
+
+type Series = Record<string, Record<string, number>>;
+
+describe('analytics tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('queries insights with a previous-period comparison', async () => {
+    const result = await h.result<{ series: Series; comparison: Record<string, unknown> }>(
+      'mixpanel_query_insights',
+      { event: 'Login', ...DATES, compareTo: 'previous_period' }
+    );
+
+    expect(Object.keys(result.series.Login)).toHaveLength(28);
+    expect(result.comparison).toBeDefined();
+  });
+
+  it('segments an event by a property', async () => {
+    const result = await h.result<{ legend_size: number; data: { series: string[] } }>(
+      'mixpanel_query_segmentation',
+      { event: 'Login', ...DATES, on: 'properties["$browser"]' }
+    );
+
+    expect(result.legend_size).toBe(4);
+    expect(result.data.series).toHaveLength(28);
+  });
+
+  it.each([
+    'mixpanel_query_segmentation_numeric',
+    'mixpanel_query_segmentation_sum',
+    'mixpanel_query_segmentation_average',
+  ])('runs %s over a numeric property', async (tool) => {
+    const result = await h.result<{ data: { series: string[] } }>(tool, {
+      event: 'Purchase',
+      ...DATES,
+      on: 'properties["amount"]',
+    });
+
+    expect(result.data.series[0]).toBe('2024-01-01');
+  });
+
+  it('lists top events and event names', async () => {
+    const top = await h.result<Array<{ event: string; amount: number }>>('mixpanel_get_top_events', {
+      type: 'general',
+    });
+    const names = await h.result<string[]>('mixpanel_get_event_names', { type: 'general' });
+
+    expect(top.map((entry) => entry.event)).toEqual(names);
+    expect(names).toContain('Purchase');
+  });
+
+  it('nests query_events results as series and comparison', async () => {
+    const result = await h.result<{ series: Series; comparison?: unknown }>(
+      'mixpanel_query_events',
+      { event: ['Login', 'Purchase'], type: 'general', ...DATES }
+    );
+
+    expect(Object.keys(result.series).sort()).toEqual(['Login', 'Purchase']);
+    expect(result.comparison).toBeUndefined();
+  });
+
+  it('scans a series for anomalies', async () => {
+    const result = await h.result<{ series: Array<{ name: string; points: number }> }>(
+      'mixpanel_detect_anomalies',
+      { event: 'Login', ...DATES }
+    );
+
+    expect(result.series).toEqual([expect.objectContaining({ name: 'Login', points: 28 })]);
+  });
+
+  it('forecasts past the end of the series', async () => {
+    const result = await h.result<{
+      horizon: number;
+      series: Array<{ points: Array<{ date: string; lower: number; upper: number }> }>;
+    }>('mixpanel_forecast_metric', { event: 'Login', ...DATES });
+
+    const [{ points }] = result.series;
+    expect(points).toHaveLength(result.horizon);
+    expect(points[0].date).toBe('2024-01-29');
+    expect(points[0].lower).toBeLessThan(points[0].upper);
+  });
+
+  it('lists event properties and their values', async () => {
+    const properties = await h.result<string[]>('mixpanel_get_event_properties', {
+      eventName: 'Login',
+    });
+    const values = await h.result<string[]>('mixpanel_get_property_values', {
+      event: 'Login',
+      property: '$browser',
+    });
+    const top = await h.result<Array<{ value: string; count: number }>>(
+      'mixpanel_get_top_property_values',
+      { event: 'Login', property: '$browser' }
+    );
+
+    expect(properties).toContain('$browser');
+    expect(values).toContain('Chrome');
+    expect(top.map((entry) => entry.value).sort()).toEqual([...values].sort());
+  });
+
+  it('executes a JQL script', async () => {
+    const result = await h.result<Array<{ key: string[]; value: number }>>('mixpanel_execute_jql', {
+      script:
+        'function main() { return Events({from_date: "2024-01-01", to_date: "2024-01-02"})' +
+        '.reduce(mixpanel.reducer.count()); }',
+    });
+
+    expect(result.length).toBeGreaterThan(0);
+    expect(result[0].value).toBeGreaterThan(0);
+  });
+
+  it('reports API errors as tool errors', async () => {
+    h.fake.failNext({ kind: 'query', status: 400 });
+
+    const response = await h.call('mixpanel_query_segmentation', { event: 'Login', ...DATES });
+
+    expect(response.isError).toBe(true);
+    expect(errorOf(response).details.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DATES, type Harness, createHarness, errorOf } from '../helpers.js';
+
+describe('cohort tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('lists cohorts and reads one cohort', async () => {
+    const cohorts = await h.result<Array<{ id: number }>>('mixpanel_list_cohorts');
+    const cohort = await h.result<{ id: number; name: string }>('mixpanel_get_cohort', {
+      cohortId: 5101,
+    });
+
+    expect(cohorts.map((entry) => entry.id)).toEqual([5101, 5102, 5103]);
+    expect(cohort.name).toBe('Power Users');
+  });
+
+  it('lists cohort members', async () => {
+    const result = await h.result<{ results: Array<{ distinctId: string }> }>(
+      'mixpanel_get_cohort_members',
+      { cohortId: 5101 }
+    );
+
+    expect(result.results.length).toBeGreaterThan(0);
+  });
+
+  it('reports count history and the query calls it took', async () => {
+    const result = await h.result<{ counts: Array<{ date: string }>; queryCalls: number }>(
+      'mixpanel_get_cohort_count_history',
+      { cohortId: 5101, ...DATES, unit: 'week' }
+    );
+
+    expect(result.counts.map((point) => point.date)).toEqual([
+      '2024-01-07',
+      '2024-01-14',
+      '2024-01-21',
+      '2024-01-28',
+    ]);
+    expect(result.queryCalls).toBe(4);
+  });
+
+  it('rejects count history with more than 8 points', async () => {
+    const response = await h.call('mixpanel_get_cohort_count_history', { cohortId: 5101, ...DATES });
+
+    expect(errorOf(response).details.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('exports members as CSV rows', async () => {
+    const result = await h.result<{ total: number; exported: number; truncated: boolean; data: string }>(
+      'mixpanel_export_cohort_members',
+      { cohortId: 5101 }
+    );
+
+    const [header, ...rows] = result.data.trim().split('\n');
+    expect(header.split(',')[0]).toBe('distinct_id');
+    expect(rows).toHaveLength(result.exported);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('compares two cohorts', async () => {
+    const result = await h.result<{
+      cohortA: { size: number };
+      cohortB: { size: number };
+      overlap: number;
+      onlyA: number;
+      onlyB: number;
+    }>('mixpanel_compare_cohorts', { cohortA: 5101, cohortB: 5102 });
+
+    expect(result.overlap + result.onlyA).toBe(result.cohortA.size);
+    expect(result.overlap + result.onlyB).toBe(result.cohortB.size);
+  });
+});
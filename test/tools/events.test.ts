@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DATES, type Harness, createHarness, errorOf } from '../helpers.js';
+
+interface ExportPage {
+  events: Array<{ event: string; distinctId: string; properties: { $insert_id?: string } }>;
+  hasMore: boolean;
+  cursor?: string;
+}
+
+describe('event tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('pages through an export with cursors and matches the full export', async () => {
+    const range = { ...DATES, toDate: '2024-01-01', event: ['Purchase'] };
+    const full = await h.result<ExportPage>('mixpanel_export_events', { ...range, limit: 1000 });
+    expect(full.hasMore).toBe(false);
+
+    const paged: ExportPage['events'] = [];
+    let cursor: string | undefined;
+    do {
+      const page: ExportPage = await h.result<ExportPage>('mixpanel_export_events', {
+        ...range,
+        limit: 3,
+        cursor,
+      });
+      paged.push(...page.events);
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    expect(paged.map((event) => event.properties.$insert_id)).toEqual(
+      full.events.map((event) => event.properties.$insert_id)
+    );
+  });
+
+  it('tracks one event with the project token', async () => {
+    await h.result('mixpanel_track_event', { event: 'Login', distinctId: 'user-0001' });
+
+    expect(h.fake.ingested).toEqual([
+      expect.objectContaining({
+        event: 'Login',
+        properties: expect.objectContaining({ distinct_id: 'user-0001' }),
+      }),
+    ]);
+  });
+
+  it('tracks a batch of events', async () => {
+    await h.result('mixpanel_track_events', {
+      events: [
+        { event: 'Login', properties: { distinct_id: 'user-0001' } },
+        { event: 'Purchase', properties: { distinct_id: 'user-0002' } },
+      ],
+    });
+
+    expect(h.fake.ingested.map((event) => event.event)).toEqual(['Login', 'Purchase']);
+  });
+
+  it('derives $insert_ids so a replayed batch is deduplicated', async () => {
+    const args = {
+      events: [
+        { event: 'Login', properties: { distinct_id: 'user-0001', time: 1704067200 } },
+        { event: 'Purchase', properties: { distinct_id: 'user-0001', time: 1704067260 } },
+      ],
+      generateInsertIds: true,
+    };
+
+    await h.result('mixpanel_track_events', args);
+    await h.result('mixpanel_track_events', args);
+
+    expect(h.fake.requests.filter((request) => request.path === '/track')).toHaveLength(2);
+    expect(h.fake.ingested.map((event) => event.event)).toEqual(['Login', 'Purchase']);
+  });
+
+  it('needs a time on every event to derive $insert_ids', async () => {
+    const response = await h.call('mixpanel_track_events', {
+      events: [
+        { event: 'Login', properties: { distinct_id: 'user-0001', time: 1704067200 } },
+        { event: 'Login', properties: { distinct_id: 'user-0002' } },
+      ],
+      generateInsertIds: true,
+    });
+
+    expect(errorOf(response).details).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { time: ['Missing on the events at index 1'] },
+    });
+    expect(h.fake.ingested).toEqual([]);
+  });
+
+  it('imports historical events with the service account alone', async () => {
+    h = await createHarness({ credentials: { projectToken: undefined } });
+
+    await h.result('mixpanel_import_events', {
+      events: [
+        {
+          event: 'Purchase',
+          properties: { distinct_id: 'user-0001', time: 1704067200, $insert_id: 'import-1' },
+        },
+      ],
+    });
+
+    expect(h.fake.ingested).toEqual([expect.objectContaining({ event: 'Purchase' })]);
+    expect(h.fake.requests.at(-1)).toMatchObject({ kind: 'ingestion', path: '/import' });
+  });
+
+  it('needs the project token to track events', async () => {
+    h = await createHarness({ credentials: { projectToken: undefined } });
+
+    const response = await h.call('mixpanel_track_event', { event: 'Login', distinctId: 'user-0001' });
+
+    expect(response.isError).toBe(true);
+    expect(h.fake.ingested).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DATES, type Harness, createHarness } from '../helpers.js';
+
+interface FunnelResult {
+  meta: { dates: string[] };
+  data: Record<string, { steps: Array<{ event: string; count: number; selector?: string | null }> }>;
+}
+
+describe('funnel tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('lists saved funnels', async () => {
+    const funnels = await h.result<Array<{ funnel_id: number; name: string }>>('mixpanel_list_funnels');
+
+    expect(funnels.map((funnel) => funnel.funnel_id)).toEqual([7001, 7002]);
+  });
+
+  it('analyzes a saved funnel with its step filters', async () => {
+    const result = await h.result<FunnelResult>('mixpanel_get_funnel', { funnelId: 7002, ...DATES });
+
+    const { steps } = result.data['2024-01-01'];
+    expect(steps.map((step) => step.event)).toEqual(['Add To Cart', 'Purchase']);
+    expect(steps[1].selector).toBe('properties["plan"] == "pro"');
+    expect(steps[1].count).toBeLessThanOrEqual(steps[0].count);
+  });
+
+  it('builds an ad-hoc funnel from steps', async () => {
+    const result = await h.result<FunnelResult>('mixpanel_build_funnel', {
+      steps: [{ event: 'Sign Up' }, { event: 'Purchase' }],
+      ...DATES,
+    });
+
+    expect(result.meta.dates).toHaveLength(28);
+    expect(result.data['2024-01-01'].steps.map((step) => step.event)).toEqual(['Sign Up', 'Purchase']);
+  });
+
+  it('reports retention by cohort date', async () => {
+    const result = await h.result<Record<string, { first: number; counts: number[] }>>(
+      'mixpanel_get_retention',
+      DATES
+    );
+
+    const cohort = result['2024-01-01'];
+    expect(cohort.counts[0]).toBe(cohort.first);
+    expect(cohort.counts[1]).toBeLessThan(cohort.first);
+  });
+
+  it('reports frequency by date', async () => {
+    const result = await h.result<{ unit: string; data: Record<string, number[]> }>(
+      'mixpanel_get_frequency',
+      { ...DATES, event: 'Login', unit: 'day', addictionUnit: 'hour' }
+    );
+
+    expect(result.unit).toBe('day');
+    expect(Object.keys(result.data)).toContain('2024-01-01');
+  });
+});
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Harness, createHarness, errorOf } from '../helpers.js';
+
+interface GdprStatus {
+  status: string;
+  results: { distinct_ids: string[] };
+}
+
+describe('GDPR tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('creates a data retrieval and reads its status', async () => {
+    const created = await h.result<{ request_id: string }>('mixpanel_create_data_retrieval', {
+      distinctIds: ['user-0001'],
+    });
+    const status = await h.result<GdprStatus>('mixpanel_get_data_retrieval_status', {
+      requestId: created.request_id,
+    });
+
+    expect(status).toEqual({ status: 'PENDING', results: { distinct_ids: ['user-0001'] } });
+  });
+
+  it('creates a data deletion only after confirmation, then cancels it', async () => {
+    const args = { distinctIds: ['user-0001'] };
+    const first = await h.call('mixpanel_create_data_deletion', args);
+    expect(errorOf(first).details.code).toBe('CONFIRMATION_REQUIRED');
+
+    const created = await h.confirmed<{ request_id: string }>('mixpanel_create_data_deletion', args);
+    const requestId = created.request_id;
+    const pending = await h.result<GdprStatus>('mixpanel_get_data_deletion_status', { requestId });
+    await h.result('mixpanel_cancel_data_deletion', { requestId });
+    const cancelled = await h.result<GdprStatus>('mixpanel_get_data_deletion_status', { requestId });
+
+    expect(pending.status).toBe('PENDING');
+    expect(cancelled.status).toBe('CANCELLED');
+  });
+
+  it('rejects a confirm token issued for other arguments', async () => {
+    const first = await h.call('mixpanel_create_data_deletion', { distinctIds: ['user-0001'] });
+    const { confirmToken } = errorOf(first).details;
+
+    const response = await h.call('mixpanel_create_data_deletion', {
+      distinctIds: ['user-0002'],
+      confirmToken,
+    });
+
+    expect(errorOf(response).details.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Harness, createHarness, errorOf } from '../helpers.js';
+
+const GROUP = { groupKey: 'company', groupId: 'acme' };
+
+describe('group tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('sets, sets once and unsets group properties', async () => {
+    await h.result('mixpanel_set_group_properties', { ...GROUP, properties: { tier: 'gold' } });
+    await h.result('mixpanel_set_group_properties_once', {
+      ...GROUP,
+      properties: { tier: 'silver', founded: 2001 },
+    });
+    await h.result('mixpanel_unset_group_properties', { ...GROUP, properties: ['founded'] });
+
+    expect(h.fake.groups.get('company/acme')).toEqual({ tier: 'gold' });
+  });
+
+  it('deletes a group only after confirmation', async () => {
+    await h.result('mixpanel_set_group_properties', { ...GROUP, properties: { tier: 'gold' } });
+
+    const first = await h.call('mixpanel_delete_group', GROUP);
+    expect(errorOf(first).details.code).toBe('CONFIRMATION_REQUIRED');
+    expect(h.fake.groups.has('company/acme')).toBe(true);
+
+    await h.confirmed('mixpanel_delete_group', GROUP);
+
+    expect(h.fake.groups.has('company/acme')).toBe(false);
+  });
+});
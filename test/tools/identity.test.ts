@@ -0,0 +1,21 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Harness, createHarness } from '../helpers.js';
+
+describe('identity tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it.each([
+    ['mixpanel_create_identity', { distinctId: 'user-0001', anonId: 'anon-1' }, '$identify'],
+    ['mixpanel_create_alias', { distinctId: 'user-0001', alias: 'alias-1' }, '$create_alias'],
+    ['mixpanel_merge_identities', { distinctId1: 'user-0001', distinctId2: 'user-0002' }, '$merge'],
+  ])('%s sends its identity event', async (tool, args, event) => {
+    const result = await h.result<{ success: boolean }>(tool, args);
+
+    expect(result.success).toBe(true);
+    expect(h.fake.ingested.map((ingested) => ingested.event)).toEqual([event]);
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Harness, createHarness, errorOf } from '../helpers.js';
+
+interface Annotation {
+  id: number;
+  date: string;
+  description: string;
+}
+
+describe('management tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('creates, reads, updates and deletes annotations', async () => {
+    const created = await h.result<Annotation>('mixpanel_create_annotation', {
+      date: '2024-01-10',
+      description: 'Launch',
+    });
+    const updated = await h.result<Annotation>('mixpanel_update_annotation', {
+      annotationId: created.id,
+      description: 'Launch day',
+    });
+    const fetched = await h.result<Annotation>('mixpanel_get_annotation', { annotationId: created.id });
+    expect(updated.description).toBe('Launch day');
+    expect(fetched).toMatchObject({ id: created.id, description: 'Launch day' });
+
+    await h.confirmed('mixpanel_delete_annotation', { annotationId: created.id });
+
+    const annotations = await h.result<Annotation[]>('mixpanel_list_annotations');
+    expect(annotations.map((annotation) => annotation.id)).not.toContain(created.id);
+  });
+
+  it('creates lookup tables and asks before replacing one', async () => {
+    await h.result('mixpanel_create_lookup_table', { tableName: 'plans', data: [{ id: 'pro' }] });
+    const tables = await h.result<Array<{ name: string }>>('mixpanel_list_lookup_tables');
+    expect(tables).toEqual([expect.objectContaining({ name: 'plans' })]);
+
+    const replace = await h.call('mixpanel_create_lookup_table', {
+      tableName: 'plans',
+      data: [{ id: 'free' }],
+    });
+    expect(errorOf(replace).details.code).toBe('CONFIRMATION_REQUIRED');
+
+    await h.confirmed('mixpanel_create_lookup_table', { tableName: 'plans', data: [{ id: 'free' }] });
+  });
+
+  it('creates, reads, lists and deletes schemas', async () => {
+    const schema = { entityType: 'event', name: 'Login' };
+    await h.result('mixpanel_create_schema', { ...schema, schemaJson: { description: 'A login' } });
+
+    const fetched = await h.result<{ schemaJson: unknown }>('mixpanel_get_schema', schema);
+    const listed = await h.result<Array<{ name: string }>>('mixpanel_list_schemas');
+    expect(fetched.schemaJson).toEqual({ description: 'A login' });
+    expect(listed.map((entry) => entry.name)).toContain('Login');
+
+    await h.confirmed('mixpanel_delete_schema', schema);
+
+    const remaining = await h.result<Array<{ name: string }>>('mixpanel_list_schemas');
+    expect(remaining.map((entry) => entry.name)).not.toContain('Login');
+  });
+});
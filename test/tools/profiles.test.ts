@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type Harness, createHarness, errorOf } from '../helpers.js';
+
+const USER = 'user-0001';
+
+interface Profile {
+  distinctId: string;
+  properties: Record<string, unknown>;
+}
+
+describe('profile tools', () => {
+  let h: Harness;
+
+  beforeEach(async () => {
+    h = await createHarness();
+  });
+
+  it('queries profiles and reads one profile', async () => {
+    const page = await h.result<{ results: Profile[] }>('mixpanel_query_profiles');
+    const profile = await h.result<Profile>('mixpanel_get_profile', { distinctId: USER });
+
+    expect(page.results.length).toBeGreaterThan(0);
+    expect(profile.properties.$email).toBe('user-0001@example.com');
+  });
+
+  it('reads profile activity', async () => {
+    const result = await h.result<{ events: Array<{ properties: { distinct_id: string } }> }>(
+      'mixpanel_get_profile_activity',
+      { distinctId: USER }
+    );
+
+    for (const event of result.events) {
+      expect(event.properties.distinct_id).toBe(USER);
+    }
+  });
+
+  it('sets, increments and unsets properties', async () => {
+    await h.result('mixpanel_set_profile_properties', { distinctId: USER, properties: { plan: 'pro' } });
+    await h.result('mixpanel_set_profile_properties_once', {
+      distinctId: USER,
+      properties: { plan: 'free', referrer: 'ad' },
+    });
+    await h.result('mixpanel_increment_profile_properties', {
+      distinctId: USER,
+      properties: { logins: 2 },
+    });
+    await h.result('mixpanel_unset_profile_properties', { distinctId: USER, properties: ['referrer'] });
+
+    expect(h.fake.profiles.get(USER)).toMatchObject({ plan: 'pro', logins: 2 });
+    expect(h.fake.profiles.get(USER)).not.toHaveProperty('referrer');
+  });
+
+  it('unions list values', async () => {
+    for (const tags of [
+      ['a', 'b'],
+      ['b', 'c'],
+    ]) {
+      await h.result('mixpanel_union_to_profile_list', { distinctId: USER, properties: { tags } });
+    }
+
+    expect(h.fake.profiles.get(USER)?.tags).toEqual(['a', 'b', 'c']);
+  });
+
+  it.each([
+    ['mixpanel_append_to_profile_list', '$append'],
+    ['mixpanel_remove_from_profile_list', '$remove'],
+  ])('%s sends a profile update', async (tool, operation) => {
+    const result = await h.result<{ success: boolean }>(tool, {
+      distinctId: USER,
+      property: 'tags',
+      values: ['a'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(h.fake.requests.at(-1)).toMatchObject({
+      kind: 'ingestion',
+      path: '/engage',
+      body: [expect.objectContaining({ $distinct_id: USER, [operation]: expect.anything() })],
+    });
+  });
+
+  it('deletes a profile only after confirmation', async () => {
+    const first = await h.call('mixpanel_delete_profile', { distinctId: USER });
+    expect(errorOf(first).details.code).toBe('CONFIRMATION_REQUIRED');
+    expect(h.fake.profiles.has(USER)).toBe(true);
+
+    await h.confirmed('mixpanel_delete_profile', { distinctId: USER });
+
+    expect(h.fake.profiles.has(USER)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DATES, createHarness } from '../helpers.js';
+
+describe('session tools', () => {
+  it('are not registered without a session', async () => {
+    const h = await createHarness();
+
+    const { tools } = await h.client.listTools();
+
+    expect(tools.map((tool) => tool.name)).not.toContain('mixpanel_get_session_context');
+  });
+
+  it('report the last query and resumable exports', async () => {
+    const h = await createHarness({ session: true });
+    await h.result('mixpanel_export_events', { ...DATES, toDate: '2024-01-01', limit: 5 });
+    await h.result('mixpanel_query_insights', { event: 'Login', ...DATES });
+
+    const result = await h.result<{
+      lastQuery: { tool: string; params: Record<string, unknown> } | null;
+      resumableExports: Array<Record<string, unknown>>;
+    }>('mixpanel_get_session_context');
+
+    expect(result.lastQuery).toMatchObject({
+      tool: 'mixpanel_query_insights',
+      params: { event: 'Login', ...DATES },
+    });
+    expect(result.resumableExports).toEqual([{ fromDate: '2024-01-01', toDate: '2024-01-01' }]);
+  });
+});
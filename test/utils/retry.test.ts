@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, RateLimitError, ValidationError } from '../../src/utils/errors.js';
+import {
+  type RetryOptions,
+  RateLimitGovernor,
+  computeBackoffDelay,
+  createRetryStats,
+  parseRetryAfter,
+  withRetry,
+} from '../../src/utils/retry.js';
+
+const OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * An operation that throws the given errors in turn, then succeeds
+ */
+function failingWith(...errors: unknown[]) {
+  return vi.fn(async (attempt: number) => {
+    if (attempt < errors.length) throw errors[attempt];
+    return 'ok';
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2024-01-15T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5);
+    expect(parseRetryAfter('-3')).toBe(0);
+  });
+
+  it('reads an HTTP date', () => {
+    expect(parseRetryAfter('Mon, 15 Jan 2024 12:00:30 GMT')).toBe(30);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 11:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('jitters an exponential delay capped at maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(computeBackoffDelay(0, OPTIONS)).toBe(250);
+    expect(computeBackoffDelay(2, OPTIONS)).toBe(1000);
+    expect(computeBackoffDelay(10, OPTIONS)).toBe(15000);
+  });
+
+  it('never waits less than the Retry-After', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(computeBackoffDelay(0, OPTIONS, 45)).toBe(45000);
+    expect(computeBackoffDelay(2, OPTIONS, 0)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors and records the wait', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = failingWith(new ApiError('Bad gateway', 502, 'SERVER_ERROR', true));
+    const stats = createRetryStats();
+
+    const result = withRetry(operation, OPTIONS, stats);
+    await vi.advanceTimersByTimeAsync(250);
+
+    await expect(result).resolves.toBe('ok');
+    expect(stats).toEqual({ retries: 1, waitedMs: 250 });
+  });
+
+  it('backs off on a rate limit without a Retry-After', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = failingWith(new RateLimitError('Rate limit exceeded'));
+
+    const result = withRetry(operation, OPTIONS);
+    await vi.advanceTimersByTimeAsync(250);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits out a Retry-After longer than maxDelayMs', async () => {
+    const operation = failingWith(new RateLimitError('Rate limit exceeded', 45));
+    const stats = createRetryStats();
+
+    const result = withRetry(operation, OPTIONS, stats);
+    await vi.advanceTimersByTimeAsync(44999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(stats.waitedMs).toBe(45000);
+  });
+
+  it('fails fast on a Retry-After over maxRetryAfterMs', async () => {
+    const error = new RateLimitError('Rate limit exceeded', 61);
+
+    await expect(withRetry(failingWith(error), OPTIONS)).rejects.toBe(error);
+    expect(error.attempts).toBe(1);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const error = new ValidationError('Bad request');
+    const operation = failingWith(error);
+
+    await expect(withRetry(operation, OPTIONS)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries only rate limits when rateLimitsOnly is set', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const serverError = new ApiError('Unavailable', 503, 'SERVER_ERROR', true);
+    const options = { ...OPTIONS, rateLimitsOnly: true };
+
+    await expect(withRetry(failingWith(serverError), options)).rejects.toBe(serverError);
+    expect(serverError.attempts).toBe(1);
+
+    const limited = withRetry(failingWith(new RateLimitError('Rate limit exceeded', 0)), options);
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(limited).resolves.toBe('ok');
+  });
+
+  it('records the attempts on the final error', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const error = new ApiError('Unavailable', 503, 'SERVER_ERROR', true);
+    const operation = vi.fn(async () => {
+      throw error;
+    });
+
+    const result = withRetry(operation, OPTIONS);
+    const settled = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(4);
+    expect(error.attempts).toBe(4);
+  });
+});
+
+describe('RateLimitGovernor', () => {
+  it('waits for the window when the request budget is spent', async () => {
+    const governor = new RateLimitGovernor({ maxRequests: 2, windowMs: 1000, maxWaitMs: 5000 });
+    const stats = createRetryStats();
+    await governor.acquire();
+    await governor.acquire();
+
+    let acquired = false;
+    const third = governor.acquire(0, stats).then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await third;
+    expect(stats.waitedMs).toBe(1000);
+  });
+
+  it('fails fast when the wait would exceed maxWaitMs', async () => {
+    const governor = new RateLimitGovernor({ maxRequests: 1, windowMs: 60000, maxWaitMs: 5000 });
+    await governor.acquire();
+
+    await expect(governor.acquire()).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryAfterSeconds: 60,
+    });
+  });
+
+  it('budgets request bytes', async () => {
+    const governor = new RateLimitGovernor({ maxBytes: 100, windowMs: 1000, maxWaitMs: 500 });
+    await governor.acquire(80);
+
+    await expect(governor.acquire(30)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(governor.acquire(20)).resolves.toBeTypeOf('function');
+  });
+
+  it('limits requests in flight', async () => {
+    const governor = new RateLimitGovernor({ maxConcurrent: 1, windowMs: 1000, maxWaitMs: 1000 });
+    const release = await governor.acquire();
+
+    let acquired = false;
+    const second = governor.acquire().then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toBe(false);
+
+    release();
+    await second;
+    expect(acquired).toBe(true);
+  });
+});